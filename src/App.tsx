@@ -7,6 +7,8 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 import { GameState, Puzzle, PuzzleConfig, Difficulty, Symmetry, HintResult, SolveStep, SavedGame } from './types';
 import {
   createGameState,
+  restoreGameState,
+  restoreSavedGame,
   setCellValue,
   setCellValueSmart,
   togglePencilMark,
@@ -24,26 +26,45 @@ import {
   getCurrentValues,
   getCurrentPencilMarks,
   autoSolve,
+  applyHint,
+  canUndo,
+  canRedo,
+  jumpToNode,
+  setCheckpoint,
 } from './game';
 import {
   generatePuzzle,
-  solveWithSteps,
+  generateDailyPuzzle,
   getHint,
   solvePuzzle,
   encodePuzzle,
+  decodeSharedGame,
+  validatePuzzle,
+  isUniquenessKnown,
+  generatePuzzleAsync,
+  solveAsync,
+  isAbortError,
+  isShareCodeError,
+  hasVariantOptions,
+  TechniqueProfile,
+  GenerationProgress,
+  VariantOptions,
 } from './solver';
 import {
   Header,
   SudokuGrid,
+  MultiGrid,
   NumberPad,
   Timer,
   GameControls,
+  HistoryTree,
   NewGameModal,
   CustomPuzzleModal,
   VictoryModal,
   HintDisplay,
   SolverSteps,
   SavedGamesModal,
+  LibraryModal,
   SettingsModal,
   StatsModal,
   HelpModal,
@@ -56,7 +77,14 @@ import {
   recordGameCompletion,
   AppSettings,
   initDB,
+  getDailyPuzzle,
+  saveDailyPuzzle,
+  completeDailyPuzzle,
+  completeLibraryPuzzle,
+  getDateString,
+  takePooledPuzzle,
 } from './storage';
+import { isPooledConfig, parseSymbol, startPoolRefill, stopPoolRefill } from './utils';
 
 // Default puzzle config
 const DEFAULT_CONFIG: PuzzleConfig = { size: 9, blockRows: 3, blockCols: 3 };
@@ -72,6 +100,7 @@ export function App() {
   const [showCustomPuzzle, setShowCustomPuzzle] = useState(false);
   const [showVictory, setShowVictory] = useState(false);
   const [showSavedGames, setShowSavedGames] = useState(false);
+  const [showLibrary, setShowLibrary] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
   const [showStats, setShowStats] = useState(false);
   const [showHelp, setShowHelp] = useState(false);
@@ -87,11 +116,39 @@ export function App() {
   const [isNewRecord, setIsNewRecord] = useState(false);
   const [solverTimeMs, setSolverTimeMs] = useState<number | undefined>();
   
+  // Puzzle generation progress, while a new game is being built
+  const [generationProgress, setGenerationProgress] = useState<GenerationProgress | null>(null);
+  
   // Toast notifications
   const { toasts, addToast, removeToast } = useToast();
   
   // Refs for timer and solver animation
   const solverIntervalRef = useRef<number | null>(null);
+  const generationAbortRef = useRef<AbortController | null>(null);
+  
+  // Read a `?puzzle=` share link, if present, picking up any progress it carries
+  function loadSharedGame(): GameState | null {
+    const encoded = new URLSearchParams(window.location.search).get('puzzle');
+    if (!encoded) return null;
+    
+    let shared: ReturnType<typeof decodeSharedGame>;
+    try {
+      shared = decodeSharedGame(encoded);
+    } catch (error) {
+      addToast(`${isShareCodeError(error) ? error.message : 'Shared puzzle link is corrupt'}. Starting a random puzzle instead.`, 'error');
+      return null;
+    }
+    
+    const { puzzle, progress } = shared;
+    const error = validatePuzzle(puzzle);
+    if (error) {
+      addToast(`${error}. Starting a random puzzle instead.`, 'error');
+      return null;
+    }
+    
+    addToast(`Shared ${puzzle.size}×${puzzle.size} puzzle loaded!`, 'success');
+    return progress ? restoreGameState(puzzle, progress.values, progress.pencilMarks) : createGameState(puzzle);
+  }
   
   // Initialize app
   useEffect(() => {
@@ -100,13 +157,15 @@ export function App() {
       const loadedSettings = await getSettings();
       setSettings(loadedSettings);
       
-      // Generate initial puzzle
-      const puzzle = generatePuzzle(DEFAULT_CONFIG, 'Medium', 'rotational');
-      setGameState(createGameState(puzzle));
+      // Open a shared puzzle from the URL, falling back to a random one
+      setGameState(loadSharedGame() ?? createGameState(generatePuzzle(DEFAULT_CONFIG, 'Medium', 'rotational')));
       setIsLoading(false);
+      
+      startPoolRefill();
     }
     
     init();
+    return stopPoolRefill;
   }, []);
   
   // Apply theme from settings
@@ -164,7 +223,7 @@ export function App() {
   
   // Keyboard event handler
   useEffect(() => {
-    if (!gameState || showNewGame || showCustomPuzzle || showVictory || showSavedGames || showSettings || showStats || showHelp) {
+    if (!gameState || showNewGame || showCustomPuzzle || showVictory || showSavedGames || showLibrary || showSettings || showStats || showHelp) {
       return;
     }
     
@@ -180,38 +239,35 @@ export function App() {
       // Navigation
       if (e.key.startsWith('Arrow')) {
         const direction = e.key.replace('Arrow', '').toLowerCase() as 'up' | 'down' | 'left' | 'right';
-        const newCell = getNavigationTarget(currentGameState.selectedCell, direction, currentGameState.puzzle.size);
+        const newCell = getNavigationTarget(
+          currentGameState.selectedCell,
+          direction,
+          currentGameState.puzzle.size,
+          currentGameState.puzzle.layout
+        );
         setGameState(selectCell(currentGameState, newCell));
         return;
       }
       
-      // Number input
-      if (e.key >= '1' && e.key <= '9' && currentGameState.selectedCell !== null) {
-        const num = parseInt(e.key);
-        if (num <= currentGameState.puzzle.size) {
-          if (currentGameState.isPencilMode) {
-            setGameState(togglePencilMark(currentGameState, currentGameState.selectedCell, num));
-          } else {
-            const setter = settings?.autoRemovePencilMarks ? setCellValueSmart : setCellValue;
-            setGameState(setter(currentGameState, currentGameState.selectedCell, num));
-          }
+      // Number input: digits, then letters from A for 10 up on larger grids.
+      // A letter that is a digit of this grid is always that digit, never a shortcut.
+      const { size } = currentGameState.puzzle;
+      const num = e.ctrlKey || e.metaKey || e.altKey ? null : parseSymbol(e.key, size);
+      if (num !== null) {
+        if (currentGameState.selectedCell === null) return;
+        if (currentGameState.isPencilMode) {
+          setGameState(togglePencilMark(currentGameState, currentGameState.selectedCell, num));
+        } else {
+          const setter = settings?.autoRemovePencilMarks ? setCellValueSmart : setCellValue;
+          setGameState(setter(currentGameState, currentGameState.selectedCell, num));
         }
         return;
       }
       
-      // For larger grids, allow A-G for 10-16
-      if (currentGameState.puzzle.size > 9 && /^[a-g]$/i.test(e.key) && currentGameState.selectedCell !== null) {
-        const num = e.key.toLowerCase().charCodeAt(0) - 'a'.charCodeAt(0) + 10;
-        if (num <= currentGameState.puzzle.size) {
-          if (currentGameState.isPencilMode) {
-            setGameState(togglePencilMark(currentGameState, currentGameState.selectedCell, num));
-          } else {
-            const setter = settings?.autoRemovePencilMarks ? setCellValueSmart : setCellValue;
-            setGameState(setter(currentGameState, currentGameState.selectedCell, num));
-          }
-        }
-        return;
-      }
+      // Letter shortcuts; H is a digit from 17×17, N from 23×23 and P on 25×25, and there they take Alt
+      const isShortcut = (letter: string) => parseSymbol(letter, size) === null
+        ? e.key.toLowerCase() === letter
+        : e.altKey && e.code === `Key${letter.toUpperCase()}`;
       
       // Clear cell
       if ((e.key === '0' || e.key === 'Backspace' || e.key === 'Delete') && currentGameState.selectedCell !== null) {
@@ -227,7 +283,7 @@ export function App() {
       }
       
       // Toggle pencil mode
-      if (e.key.toLowerCase() === 'p') {
+      if (isShortcut('p')) {
         setGameState(prev => prev ? { ...prev, isPencilMode: !prev.isPencilMode } : prev);
         return;
       }
@@ -254,13 +310,13 @@ export function App() {
       }
       
       // Hint
-      if (e.key.toLowerCase() === 'h' && settings?.showHints) {
+      if (isShortcut('h') && settings?.showHints) {
         handleGetHint();
         return;
       }
       
       // New game
-      if (e.key.toLowerCase() === 'n' && !e.ctrlKey) {
+      if (isShortcut('n') && !e.ctrlKey) {
         setShowNewGame(true);
         return;
       }
@@ -275,7 +331,7 @@ export function App() {
     
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [gameState, showNewGame, showCustomPuzzle, showVictory, showSavedGames, showSettings, showStats, showHelp, settings]);
+  }, [gameState, showNewGame, showCustomPuzzle, showVictory, showSavedGames, showLibrary, showSettings, showStats, showHelp, settings]);
   
   // Check for victory
   useEffect(() => {
@@ -324,6 +380,17 @@ export function App() {
     setGameState(redo(gameState));
   }, [gameState]);
   
+  const handleJumpToNode = useCallback((nodeId: number) => {
+    if (!gameState) return;
+    setGameState(jumpToNode(gameState, nodeId));
+  }, [gameState]);
+  
+  const handleCheckpoint = useCallback((name: string) => {
+    if (!gameState) return;
+    setGameState(setCheckpoint(gameState, name));
+    addToast(`Checkpoint "${name.trim()}" saved`, 'info');
+  }, [gameState, addToast]);
+  
   const handleTogglePencil = useCallback(() => {
     setGameState(prev => prev ? { ...prev, isPencilMode: !prev.isPencilMode } : prev);
   }, []);
@@ -348,18 +415,86 @@ export function App() {
     setShowNewGame(true);
   }, []);
   
-  const handleStartGame = useCallback((config: PuzzleConfig, difficulty: Difficulty, symmetry: Symmetry) => {
-    const puzzle = generatePuzzle(config, difficulty, symmetry);
+  const handleStartGame = useCallback(async (
+    config: PuzzleConfig,
+    difficulty: Difficulty,
+    symmetry: Symmetry,
+    profile?: TechniqueProfile,
+    variant?: VariantOptions
+  ) => {
+    generationAbortRef.current?.abort();
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+    
+    // A ready puzzle from the pool starts instantly; profiles and variants always generate fresh
+    const pooled = profile || hasVariantOptions(variant) || !isPooledConfig(config)
+      ? undefined
+      : await takePooledPuzzle(config.size, difficulty, symmetry).catch(() => undefined);
+    if (!pooled) {
+      // Free the CPU for the puzzle the player is waiting on
+      stopPoolRefill();
+      setGenerationProgress({ attempt: 1, elapsedMs: 0, givens: config.size * config.size, fraction: 0 });
+    }
+    
+    try {
+      const puzzle = pooled ?? await generatePuzzleAsync(config, difficulty, symmetry, profile, variant, {
+        signal: controller.signal,
+        onProgress: setGenerationProgress,
+      });
+      
+      if (!puzzle) {
+        addToast('No puzzle matched that technique profile in time', 'warning');
+        return;
+      }
+      
+      setGameState(createGameState(puzzle));
+      setCurrentHint(null);
+      setSolverSteps([]);
+      setShowSolver(false);
+      setShowVictory(false);
+      setShowNewGame(false);
+      addToast(`New ${puzzle.difficulty} ${config.size}×${config.size} puzzle`, 'success');
+    } catch (error) {
+      if (!isAbortError(error)) {
+        addToast('Puzzle generation failed', 'error');
+      }
+    } finally {
+      if (generationAbortRef.current === controller) {
+        generationAbortRef.current = null;
+        setGenerationProgress(null);
+        startPoolRefill();
+      }
+    }
+  }, [addToast]);
+  
+  // Closing the new game modal cancels any generation still running
+  const handleCloseNewGame = useCallback(() => {
+    generationAbortRef.current?.abort();
+    setShowNewGame(false);
+  }, []);
+
+  const handleStartDaily = useCallback(async (date: string) => {
+    // Reuse the stored puzzle so a date always replays the same grid
+    const existing = await getDailyPuzzle(date);
+    const puzzle = existing?.puzzle ?? generateDailyPuzzle(date);
+    if (!existing) {
+      await saveDailyPuzzle(puzzle, date);
+    }
+    
     setGameState(createGameState(puzzle));
     setCurrentHint(null);
     setSolverSteps([]);
     setShowSolver(false);
     setShowVictory(false);
-    addToast(`New ${difficulty} ${config.size}×${config.size} puzzle`, 'success');
+    addToast(
+      date === getDateString() ? `Today's ${puzzle.difficulty} daily challenge` : `Daily challenge for ${date}`,
+      'success'
+    );
   }, [addToast]);
 
-  const handleStartCustomPuzzle = useCallback((puzzle: Puzzle) => {
-    setGameState(createGameState(puzzle));
+  const handleStartCustomPuzzle = useCallback((puzzle: Puzzle, pencilMarks?: Set<number>[]) => {
+    // Candidates from an imported pencilmark grid start out already noted
+    setGameState(pencilMarks ? restoreGameState(puzzle, puzzle.cells, pencilMarks) : createGameState(puzzle));
     setCurrentHint(null);
     setSolverSteps([]);
     setShowSolver(false);
@@ -367,6 +502,15 @@ export function App() {
     addToast(`Custom ${puzzle.size}×${puzzle.size} puzzle loaded!`, 'success');
   }, [addToast]);
 
+  const handleStartLibraryPuzzle = useCallback((puzzle: Puzzle) => {
+    setGameState(createGameState(puzzle));
+    setCurrentHint(null);
+    setSolverSteps([]);
+    setShowSolver(false);
+    setShowVictory(false);
+    addToast(`Puzzle #${puzzle.library!.index + 1} loaded from the library`, 'success');
+  }, [addToast]);
+
   const handleOpenCustomPuzzle = useCallback(() => {
     setShowCustomPuzzle(true);
   }, []);
@@ -378,7 +522,9 @@ export function App() {
       await saveGame(
         gameState.puzzle,
         gameState.cells,
-        Date.now() - gameState.startTime
+        Date.now() - gameState.startTime,
+        undefined,
+        gameState
       );
       addToast('Game saved!', 'success');
     } catch (err) {
@@ -387,14 +533,7 @@ export function App() {
   }, [gameState, addToast]);
   
   const handleLoadGame = useCallback((savedGame: SavedGame) => {
-    const newState = createGameState(savedGame.puzzle);
-    newState.cells = savedGame.cells.map(cell => ({
-      ...cell,
-      pencilMarks: new Set(cell.pencilMarks),
-    }));
-    newState.elapsedTime = savedGame.elapsedTime;
-    newState.startTime = Date.now() - savedGame.elapsedTime;
-    setGameState(newState);
+    setGameState(restoreSavedGame(savedGame));
     setCurrentHint(null);
     setSolverSteps([]);
     setShowSolver(false);
@@ -409,7 +548,10 @@ export function App() {
       getCurrentPencilMarks(gameState),
       gameState.puzzle.size,
       gameState.puzzle.blockRows,
-      gameState.puzzle.blockCols
+      gameState.puzzle.blockCols,
+      undefined,
+      isUniquenessKnown(gameState.puzzle),
+      gameState.puzzle
     );
     
     if (hint) {
@@ -434,11 +576,7 @@ export function App() {
   const handleApplyHint = useCallback(() => {
     if (!gameState || !currentHint) return;
     
-    if (currentHint.action === 'place' && currentHint.cells.length === 1) {
-      const setter = settings?.autoRemovePencilMarks ? setCellValueSmart : setCellValue;
-      setGameState(setter(gameState, currentHint.cells[0], currentHint.values[0]));
-    }
-    
+    setGameState(applyHint(gameState, currentHint, !!settings?.autoRemovePencilMarks));
     setCurrentHint(null);
     setGameState(prev => prev ? clearHighlights(prev) : prev);
   }, [gameState, currentHint, settings]);
@@ -457,23 +595,24 @@ export function App() {
     addToast(`Solved in ${result.timeMs.toFixed(1)}ms`, 'success');
   }, [gameState, addToast]);
   
-  const handleStepSolve = useCallback(() => {
+  const handleStepSolve = useCallback(async () => {
     if (!gameState) return;
     
-    const result = solveWithSteps(
-      gameState.puzzle.cells,
-      gameState.puzzle.size,
-      gameState.puzzle.blockRows,
-      gameState.puzzle.blockCols
-    );
-    
-    if (result.techniques.length > 0) {
-      setSolverSteps(result.techniques);
-      setCurrentSolverStep(0);
-      setShowSolver(true);
-      setSolverTimeMs(result.timeMs);
-    } else {
-      addToast('Could not generate solving steps', 'warning');
+    try {
+      const result = await solveAsync(gameState.puzzle);
+      
+      if (result.techniques.length > 0) {
+        setSolverSteps(result.techniques);
+        setCurrentSolverStep(0);
+        setShowSolver(true);
+        setSolverTimeMs(result.timeMs);
+      } else {
+        addToast('Could not generate solving steps', 'warning');
+      }
+    } catch (error) {
+      if (!isAbortError(error)) {
+        addToast('Step solving failed', 'error');
+      }
     }
   }, [gameState, addToast]);
   
@@ -517,12 +656,22 @@ export function App() {
     
     setIsNewRecord(result.newBestTime);
     
+    if (gameState.puzzle.daily) {
+      await completeDailyPuzzle(time, gameState.puzzle.daily);
+      addToast('📅 Daily challenge complete!', 'success');
+    }
+
+    if (gameState.puzzle.library) {
+      await completeLibraryPuzzle(gameState.puzzle.library.collection, gameState.puzzle.library.index, time);
+    }
+    
     // Get solver time for comparison
     const solveResult = solvePuzzle(
       gameState.puzzle.cells,
       gameState.puzzle.size,
       gameState.puzzle.blockRows,
-      gameState.puzzle.blockCols
+      gameState.puzzle.blockCols,
+      gameState.puzzle
     );
     setSolverTimeMs(solveResult.timeMs);
     
@@ -537,7 +686,7 @@ export function App() {
     if (!gameState) return;
     
     const encoded = encodePuzzle(gameState.puzzle);
-    const url = `${window.location.origin}${window.location.pathname}?puzzle=${encoded}`;
+    const url = `${window.location.origin}${window.location.pathname}?puzzle=${encodeURIComponent(encoded)}`;
     
     try {
       await navigator.clipboard.writeText(url);
@@ -566,6 +715,7 @@ export function App() {
       <Header
         onNewGame={handleNewGame}
         onLoadGame={() => setShowSavedGames(true)}
+        onLibrary={() => setShowLibrary(true)}
         onSettings={() => setShowSettings(true)}
         onStats={() => setShowStats(true)}
         onHelp={() => setShowHelp(true)}
@@ -583,29 +733,47 @@ export function App() {
             />
           )}
           
-          <SudokuGrid
-            cells={gameState.cells}
-            size={gameState.puzzle.size}
-            blockRows={gameState.puzzle.blockRows}
-            blockCols={gameState.puzzle.blockCols}
-            selectedCell={gameState.selectedCell}
-            isPencilMode={gameState.isPencilMode}
-            showConflicts={settings.highlightConflicts}
-            showHighlights={true}
-            onCellClick={handleCellClick}
-          />
+          {gameState.puzzle.layout ? (
+            <MultiGrid
+              cells={gameState.cells}
+              size={gameState.puzzle.size}
+              blockRows={gameState.puzzle.blockRows}
+              blockCols={gameState.puzzle.blockCols}
+              layout={gameState.puzzle.layout}
+              selectedCell={gameState.selectedCell}
+              showConflicts={settings.highlightConflicts}
+              showHighlights={true}
+              onCellClick={handleCellClick}
+            />
+          ) : (
+            <SudokuGrid
+              cells={gameState.cells}
+              size={gameState.puzzle.size}
+              blockRows={gameState.puzzle.blockRows}
+              blockCols={gameState.puzzle.blockCols}
+              variant={gameState.puzzle}
+              selectedCell={gameState.selectedCell}
+              isPencilMode={gameState.isPencilMode}
+              showConflicts={settings.highlightConflicts}
+              showHighlights={true}
+              chain={currentHint?.chain ?? (showSolver ? solverSteps[currentSolverStep]?.chain : undefined)}
+              onCellClick={handleCellClick}
+            />
+          )}
           
           <div style={{ 
             fontSize: 'var(--font-sm)', 
             color: 'var(--text-muted)', 
             textAlign: 'center' 
           }}>
+            {gameState.puzzle.layout ? `${gameState.puzzle.layout.name} • ` : ''}
             {gameState.puzzle.size}×{gameState.puzzle.size} • {gameState.puzzle.difficulty} • {gameState.puzzle.symmetry}
           </div>
           
           {currentHint && (
             <HintDisplay
               hint={currentHint}
+              size={gameState.puzzle.size}
               onApply={handleApplyHint}
               onDismiss={handleDismissHint}
             />
@@ -621,8 +789,8 @@ export function App() {
           />
           
           <GameControls
-            canUndo={gameState.historyIndex >= 0}
-            canRedo={gameState.historyIndex < gameState.history.length - 1}
+            canUndo={canUndo(gameState)}
+            canRedo={canRedo(gameState)}
             isPencilMode={gameState.isPencilMode}
             onUndo={handleUndo}
             onRedo={handleRedo}
@@ -637,12 +805,21 @@ export function App() {
             onClearPencilMarks={handleClearPencilMarks}
           />
           
+          <HistoryTree
+            history={gameState.history}
+            currentNode={gameState.currentNode}
+            width={gameState.puzzle.layout?.width ?? gameState.puzzle.size}
+            onJump={handleJumpToNode}
+            onCheckpoint={handleCheckpoint}
+          />
+          
           {showSolver && solverSteps.length > 0 && (
             <SolverSteps
               steps={solverSteps}
               currentStep={currentSolverStep}
               isPlaying={isSolverPlaying}
               speed={500}
+              size={gameState.puzzle.layout?.width ?? gameState.puzzle.size}
               onStepChange={handleSolverStepChange}
               onPlayPause={handleSolverPlayPause}
               onClose={handleCloseSolver}
@@ -654,8 +831,10 @@ export function App() {
       {/* Modals */}
       <NewGameModal
         isOpen={showNewGame}
-        onClose={() => setShowNewGame(false)}
+        generationProgress={generationProgress}
+        onClose={handleCloseNewGame}
         onStartGame={handleStartGame}
+        onStartDaily={handleStartDaily}
         onCreateCustom={handleOpenCustomPuzzle}
       />
 
@@ -669,6 +848,7 @@ export function App() {
         isOpen={showVictory}
         time={Date.now() - gameState.startTime}
         difficulty={gameState.puzzle.difficulty}
+        rating={gameState.puzzle.rating}
         size={gameState.puzzle.size}
         isNewRecord={isNewRecord}
         solverTimeMs={solverTimeMs}
@@ -686,6 +866,12 @@ export function App() {
         onLoad={handleLoadGame}
       />
       
+      <LibraryModal
+        isOpen={showLibrary}
+        onClose={() => setShowLibrary(false)}
+        onStart={handleStartLibraryPuzzle}
+      />
+      
       <SettingsModal
         isOpen={showSettings}
         onClose={() => setShowSettings(false)}
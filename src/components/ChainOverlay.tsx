@@ -0,0 +1,101 @@
+/**
+ * ChainOverlay Component
+ * Draws the strong and weak links of a chain technique over the grid
+ */
+
+import { ChainNode } from '../types';
+import { getPencilColumns } from '../utils';
+
+interface ChainOverlayProps {
+  chain: ChainNode[];
+  size: number;
+}
+
+/**
+ * Centre of a candidate's pencil-mark slot, in cell units
+ */
+function getCandidatePoint(node: ChainNode, size: number): { x: number; y: number } {
+  const slots = getPencilColumns(size);
+  const row = Math.floor(node.cell / size);
+  const col = node.cell % size;
+  return {
+    x: col + (((node.value - 1) % slots) + 0.5) / slots,
+    y: row + (Math.floor((node.value - 1) / slots) + 0.5) / slots,
+  };
+}
+
+export function ChainOverlay({ chain, size }: ChainOverlayProps) {
+  if (chain.length === 0) return null;
+
+  const points = chain.map(node => getCandidatePoint(node, size));
+  const radius = 0.48 / getPencilColumns(size);
+
+  return (
+    <svg
+      className="chain-overlay"
+      viewBox={`0 0 ${size} ${size}`}
+      preserveAspectRatio="none"
+      aria-hidden="true"
+    >
+      {chain.map((node, i) => {
+        if (!node.link) return null;
+        const from = points[i];
+        const to = points[(i + 1) % chain.length];
+        return (
+          <line
+            key={`link-${i}`}
+            className={`chain-link ${node.link}`}
+            x1={from.x}
+            y1={from.y}
+            x2={to.x}
+            y2={to.y}
+            vectorEffect="non-scaling-stroke"
+          />
+        );
+      })}
+
+      {points.map((point, i) => (
+        <ellipse
+          key={`node-${i}`}
+          className={`chain-node ${i === 0 || i === chain.length - 1 ? 'end' : ''}`}
+          cx={point.x}
+          cy={point.y}
+          rx={radius}
+          ry={radius}
+          vectorEffect="non-scaling-stroke"
+        />
+      ))}
+    </svg>
+  );
+}
+
+/**
+ * Chain written out as candidate badges joined by link symbols
+ */
+export function ChainNotation({ chain, size }: ChainOverlayProps) {
+  const cellName = (cell: number) => `R${Math.floor(cell / size) + 1}C${(cell % size) + 1}`;
+  const closing = chain[chain.length - 1]?.link;
+
+  return (
+    <div className="chain-notation">
+      {chain.map((node, i) => (
+        <span key={i}>
+          <span className="solver-cell-badge">({node.value}){cellName(node.cell)}</span>
+          {node.link && i < chain.length - 1 && (
+            <span className={`chain-symbol ${node.link}`}>{node.link === 'strong' ? '=' : '−'}</span>
+          )}
+        </span>
+      ))}
+      {closing && (
+        <>
+          <span className={`chain-symbol ${closing}`}>{closing === 'strong' ? '=' : '−'}</span>
+          <span className="solver-cell-badge">({chain[0].value}){cellName(chain[0].cell)}</span>
+        </>
+      )}
+      <div className="chain-legend">
+        <span className="chain-symbol strong">━ strong</span>
+        <span className="chain-symbol weak">┅ weak</span>
+      </div>
+    </div>
+  );
+}
@@ -3,14 +3,63 @@
  * Allows users to create their own Sudoku puzzles
  */
 
-import { useState, useCallback } from 'react';
-import { SUPPORTED_SIZES, Puzzle } from '../types';
-import { hasUniqueSolution, solvePuzzle } from '../solver';
+import { useState, useCallback, useMemo, ChangeEvent } from 'react';
+import { SUPPORTED_SIZES, ConstraintOverlay, Puzzle, PuzzleConfig, PuzzleVariant } from '../types';
+import {
+  findSolutions,
+  diffSolutions,
+  rateAsync,
+  isAbortError,
+  getBoxIndex,
+  getPeers,
+  isValidRegionMap,
+  findRuleViolations,
+  getConfigForSize,
+} from '../solver';
+import { VariantOverlay } from './VariantOverlay';
+import {
+  getSymbol,
+  detectPuzzleFormat,
+  formatPuzzleText,
+  parsePuzzleText,
+  PuzzleFormat,
+  PuzzleFormatError,
+  PUZZLE_FORMATS,
+  TextPuzzle,
+} from '../utils';
+
+type OverlayType = Extract<ConstraintOverlay['type'], 'thermo' | 'arrow' | 'greater'>;
+type EditMode = 'digits' | 'regions' | OverlayType;
+
+const OVERLAY_MODES: { type: OverlayType; label: string; title: string }[] = [
+  { type: 'thermo', label: 'Thermo', title: 'Click from the bulb along touching cells, then Finish Line' },
+  { type: 'arrow', label: 'Arrow', title: 'Click the circle, then the cells of the arrow, then Finish Line' },
+  { type: 'greater', label: 'Greater-Than', title: 'Click the larger cell, then its smaller neighbour' },
+];
+
+/**
+ * Whether a cell may extend an overlay drawn so far: thermometers and arrows
+ * step to any touching cell, greater-than signs to an orthogonal neighbour
+ */
+function canExtend(type: OverlayType, path: number[], cell: number, size: number): boolean {
+  if (path.length === 0 || path.includes(cell)) return false;
+  const last = path[path.length - 1];
+  const rows = Math.abs(Math.floor(cell / size) - Math.floor(last / size));
+  const cols = Math.abs((cell % size) - (last % size));
+  return type === 'greater' ? rows + cols === 1 : Math.max(rows, cols) === 1;
+}
+
+/**
+ * The overlay a path of clicked cells describes
+ */
+function toOverlay(type: OverlayType, cells: number[]): ConstraintOverlay {
+  return type === 'greater' ? { type, cells: cells as [number, number] } : { type, cells };
+}
 
 interface CustomPuzzleModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onStartPuzzle: (puzzle: Puzzle) => void;
+  onStartPuzzle: (puzzle: Puzzle, pencilMarks?: Set<number>[]) => void;
 }
 
 export function CustomPuzzleModal({ isOpen, onClose, onStartPuzzle }: CustomPuzzleModalProps) {
@@ -19,22 +68,98 @@ export function CustomPuzzleModal({ isOpen, onClose, onStartPuzzle }: CustomPuzz
   const [selectedCell, setSelectedCell] = useState<number | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isValidating, setIsValidating] = useState(false);
-
-  const config = SUPPORTED_SIZES.find(c => c.size === selectedSize) || SUPPORTED_SIZES[2];
+  const [editMode, setEditMode] = useState<EditMode>('digits');
+  const [regions, setRegions] = useState<number[] | null>(null); // Null keeps the standard boxes
+  const [activeRegion, setActiveRegion] = useState(0);
+  const [overlays, setOverlays] = useState<ConstraintOverlay[]>([]);
+  const [draft, setDraft] = useState<number[]>([]); // Cells of the overlay being drawn
+  // Where two solutions of the checked grid disagree; any edit makes a new grid and hides it
+  const [ambiguity, setAmbiguity] = useState<{
+    cells: number[];
+    variant?: PuzzleVariant;
+    diff: Map<number, [number, number]>;
+  } | null>(null);
+  const [textPanel, setTextPanel] = useState<'import' | 'export' | null>(null);
+  const [importText, setImportText] = useState('');
+  const [importFormat, setImportFormat] = useState<PuzzleFormat | 'auto'>('auto');
+  const [exportFormat, setExportFormat] = useState<PuzzleFormat>('line');
+  const [collection, setCollection] = useState<{ puzzles: TextPuzzle[]; index: number } | null>(null);
+  // An imported puzzle keeps its own box shape and candidates; null falls back to the size's boxes and none
+  const [boxShape, setBoxShape] = useState<PuzzleConfig | null>(null);
+  const [pencilMarks, setPencilMarks] = useState<Set<number>[] | null>(null);
+
+  const config = boxShape ?? getConfigForSize(selectedSize)!;
+  const variant = useMemo<PuzzleVariant | undefined>(() => {
+    if (!regions && overlays.length === 0) return undefined;
+    return {
+      ...(regions ? { regions } : {}),
+      ...(overlays.length > 0 ? { overlays } : {}),
+    };
+  }, [regions, overlays]);
+  const isOverlayMode = editMode !== 'digits' && editMode !== 'regions';
+  const ambiguousCells = ambiguity?.cells === cells && ambiguity.variant === variant ? ambiguity.diff : null;
 
   const handleSizeChange = useCallback((newSize: number) => {
     setSelectedSize(newSize);
     setCells(new Array(newSize * newSize).fill(0));
+    setBoxShape(null);
+    setPencilMarks(null);
     setSelectedCell(null);
+    setRegions(null);
+    setActiveRegion(0);
+    setOverlays([]);
+    setDraft([]);
     setError(null);
   }, []);
 
+  const handleModeChange = useCallback((mode: EditMode) => {
+    setEditMode(mode);
+    setDraft([]);
+  }, []);
+
+  const handleFinishLine = useCallback(() => {
+    if (!isOverlayMode || draft.length < 2) return;
+    setOverlays(prev => [...prev, toOverlay(editMode, draft)]);
+    setDraft([]);
+    setError(null);
+  }, [isOverlayMode, editMode, draft]);
+
   const handleCellClick = useCallback((index: number) => {
+    if (editMode === 'regions') {
+      // Paint the cell into the active region, starting from the standard boxes
+      setRegions(prev => {
+        const next = prev
+          ? [...prev]
+          : Array.from({ length: selectedSize * selectedSize }, (_, i) =>
+              getBoxIndex(i, selectedSize, config.blockRows, config.blockCols));
+        next[index] = activeRegion;
+        return next;
+      });
+      setError(null);
+      return;
+    }
+    if (isOverlayMode) {
+      // A cell that cannot continue the line starts a new one
+      if (!canExtend(editMode, draft, index, selectedSize)) {
+        setDraft([index]);
+      } else if (editMode === 'greater') {
+        setOverlays(prev => [...prev, toOverlay(editMode, [...draft, index])]);
+        setDraft([]);
+      } else {
+        setDraft([...draft, index]);
+      }
+      setError(null);
+      return;
+    }
     setSelectedCell(index);
-  }, []);
+  }, [editMode, isOverlayMode, draft, activeRegion, selectedSize, config]);
 
   const handleNumberInput = useCallback((num: number) => {
-    if (selectedCell === null) return;
+    if (editMode === 'regions') {
+      setActiveRegion(num - 1);
+      return;
+    }
+    if (isOverlayMode || selectedCell === null) return;
     
     setCells(prev => {
       const newCells = [...prev];
@@ -42,47 +167,45 @@ export function CustomPuzzleModal({ isOpen, onClose, onStartPuzzle }: CustomPuzz
       return newCells;
     });
     setError(null);
-  }, [selectedCell]);
+  }, [selectedCell, editMode, isOverlayMode]);
 
   const handleClear = useCallback(() => {
+    if (editMode === 'regions') {
+      setRegions(null);
+      setError(null);
+      return;
+    }
+    if (isOverlayMode) {
+      // Drop the line being drawn, else the last finished one
+      if (draft.length > 0) {
+        setDraft([]);
+      } else {
+        setOverlays(prev => prev.slice(0, -1));
+      }
+      setError(null);
+      return;
+    }
     if (selectedCell === null) return;
     setCells(prev => {
       const newCells = [...prev];
       newCells[selectedCell] = 0;
       return newCells;
     });
-  }, [selectedCell]);
+  }, [selectedCell, editMode, isOverlayMode, draft]);
 
   const handleClearAll = useCallback(() => {
     setCells(new Array(selectedSize * selectedSize).fill(0));
+    setPencilMarks(null);
     setError(null);
   }, [selectedSize]);
 
-  const checkConflicts = useCallback((puzzle: number[], size: number, blockRows: number, blockCols: number): boolean => {
+  const checkConflicts = useCallback((puzzle: number[], size: number, blockRows: number, blockCols: number, variant?: PuzzleVariant): boolean => {
     for (let i = 0; i < size * size; i++) {
       if (puzzle[i] === 0) continue;
       
-      const row = Math.floor(i / size);
-      const col = i % size;
-      const value = puzzle[i];
-
-      // Check row
-      for (let c = 0; c < size; c++) {
-        if (c !== col && puzzle[row * size + c] === value) return true;
-      }
-
-      // Check column
-      for (let r = 0; r < size; r++) {
-        if (r !== row && puzzle[r * size + col] === value) return true;
-      }
-
-      // Check box
-      const boxStartRow = Math.floor(row / blockRows) * blockRows;
-      const boxStartCol = Math.floor(col / blockCols) * blockCols;
-      for (let r = boxStartRow; r < boxStartRow + blockRows; r++) {
-        for (let c = boxStartCol; c < boxStartCol + blockCols; c++) {
-          if ((r !== row || c !== col) && puzzle[r * size + c] === value) return true;
-        }
+      // Peers cover the row, column and box (or jigsaw region)
+      if (getPeers(i, size, blockRows, blockCols, variant).some(peer => puzzle[peer] === puzzle[i])) {
+        return true;
       }
     }
     return false;
@@ -93,76 +216,122 @@ export function CustomPuzzleModal({ isOpen, onClose, onStartPuzzle }: CustomPuzz
     setError(null);
 
     // Check if puzzle has any clues
+    // Overlays carry information of their own, so fewer clues can suffice
     const clueCount = cells.filter(c => c !== 0).length;
-    if (clueCount < 17) {
+    if (overlays.length === 0 && clueCount < 17) {
       setError('A valid Sudoku needs at least 17 clues');
       setIsValidating(false);
       return;
     }
 
-    // Check for conflicts
-    if (checkConflicts(cells, selectedSize, config.blockRows, config.blockCols)) {
-      setError('Puzzle has conflicting numbers');
+    // Check the regions before anything is solved against them
+    if (regions && !isValidRegionMap(regions, selectedSize)) {
+      setError(`Each region needs ${selectedSize} connected cells`);
       setIsValidating(false);
       return;
     }
 
-    // Check for unique solution
-    const isUnique = hasUniqueSolution(cells, selectedSize, config.blockRows, config.blockCols);
-    if (!isUnique) {
-      setError('Puzzle does not have a unique solution');
+    // Check for conflicts
+    if (
+      checkConflicts(cells, selectedSize, config.blockRows, config.blockCols, variant) ||
+      findRuleViolations(cells, selectedSize, variant).size > 0
+    ) {
+      setError('Puzzle has conflicting numbers');
       setIsValidating(false);
       return;
     }
 
-    // Get solution
-    const result = solvePuzzle(cells, selectedSize, config.blockRows, config.blockCols);
-    if (!result.solved) {
+    // Check for a unique solution, showing where a second one differs
+    const solutions = findSolutions(cells, selectedSize, config.blockRows, config.blockCols, variant, 2);
+    if (solutions.length === 0) {
       setError('Puzzle has no solution');
       setIsValidating(false);
       return;
     }
+    if (solutions.length > 1) {
+      const diff = diffSolutions(solutions[0], solutions[1]);
+      setAmbiguity({ cells, variant, diff: new Map(diff.map(({ cell, values }) => [cell, values])) });
+      setError(`Puzzle does not have a unique solution: the ${diff.length} highlighted cells can go either way`);
+      setIsValidating(false);
+      return;
+    }
 
     // Create puzzle object
     const puzzle: Puzzle = {
       cells: [...cells],
-      solution: result.solution,
+      solution: solutions[0],
       size: selectedSize,
       blockRows: config.blockRows,
       blockCols: config.blockCols,
       difficulty: 'Custom',
       symmetry: 'none',
+      unique: true,
+      ...variant,
     };
-
-    onStartPuzzle(puzzle);
-    onClose();
-    setIsValidating(false);
-  }, [cells, selectedSize, config, checkConflicts, onStartPuzzle, onClose]);
-
-  const handleImportString = useCallback(() => {
-    const input = prompt('Enter puzzle string (81 digits for 9x9, use 0 or . for empty):');
-    if (!input) return;
-
-    const cleaned = input.replace(/[^0-9.]/g, '').replace(/\./g, '0');
-    const expectedLength = selectedSize * selectedSize;
-
-    if (cleaned.length !== expectedLength) {
-      setError(`Expected ${expectedLength} digits, got ${cleaned.length}`);
-      return;
+    try {
+      // Rating walks the human solver, which is slow on large grids
+      puzzle.rating = await rateAsync(puzzle);
+      onStartPuzzle(puzzle, pencilMarks ?? undefined);
+      onClose();
+    } catch (err) {
+      if (!isAbortError(err)) {
+        setError('Rating the puzzle failed');
+      }
+    } finally {
+      setIsValidating(false);
     }
-
-    const newCells = cleaned.split('').map(c => parseInt(c) || 0);
-    
-    // Validate numbers are in range
-    const maxVal = selectedSize;
-    if (newCells.some(v => v > maxVal)) {
-      setError(`Numbers must be between 0 and ${maxVal}`);
-      return;
+  }, [cells, selectedSize, config, regions, overlays, variant, pencilMarks, checkConflicts, onStartPuzzle, onClose]);
+
+  // Replace the grid with an imported puzzle, which may change its size
+  const loadTextPuzzle = useCallback((imported: TextPuzzle) => {
+    handleSizeChange(imported.size);
+    setCells(imported.cells);
+    setBoxShape({ size: imported.size, blockRows: imported.blockRows, blockCols: imported.blockCols });
+    setPencilMarks(imported.pencilMarks ?? null);
+  }, [handleSizeChange]);
+
+  const handleImportText = useCallback(() => {
+    try {
+      const puzzles = parsePuzzleText(importText, importFormat === 'auto' ? detectPuzzleFormat(importText) : importFormat);
+      loadTextPuzzle(puzzles[0]);
+      setCollection(puzzles.length > 1 ? { puzzles, index: 0 } : null);
+      setTextPanel(null);
+    } catch (err) {
+      setError(err instanceof PuzzleFormatError ? err.message : 'Could not read the puzzle');
     }
+  }, [importText, importFormat, loadTextPuzzle]);
 
-    setCells(newCells);
-    setError(null);
-  }, [selectedSize]);
+  const handleImportFile = useCallback(async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) setImportText(await file.text());
+  }, []);
+
+  const handleCollectionPick = useCallback((index: number) => {
+    if (!collection) return;
+    loadTextPuzzle(collection.puzzles[index]);
+    setCollection({ ...collection, index });
+  }, [collection, loadTextPuzzle]);
+
+  // Text formats hold the digits and candidates only, so regions and overlays are left out
+  const exportText = textPanel === 'export'
+    ? formatPuzzleText([{
+        size: selectedSize,
+        blockRows: config.blockRows,
+        blockCols: config.blockCols,
+        cells,
+        ...(pencilMarks ? { pencilMarks } : {}),
+      }], exportFormat)
+    : '';
+
+  const handleSaveExport = useCallback(() => {
+    const extension = PUZZLE_FORMATS.find(entry => entry.format === exportFormat)!.extension;
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(new Blob([exportText], { type: 'text/plain' }));
+    link.download = `retrosudoku-puzzle.${extension}`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  }, [exportText, exportFormat]);
 
   if (!isOpen) return null;
 
@@ -191,6 +360,36 @@ export function CustomPuzzleModal({ isOpen, onClose, onStartPuzzle }: CustomPuzz
             </select>
           </div>
 
+          {/* Edit Mode */}
+          <div className="form-group">
+            <label className="form-label">Edit</label>
+            <div style={{ display: 'flex', gap: 'var(--spacing-xs)' }}>
+              <button
+                className={`btn ${editMode === 'digits' ? 'btn-primary' : ''}`}
+                onClick={() => handleModeChange('digits')}
+              >
+                Digits
+              </button>
+              <button
+                className={`btn ${editMode === 'regions' ? 'btn-primary' : ''}`}
+                onClick={() => handleModeChange('regions')}
+                title="Pick a region number, then click cells to move them into it"
+              >
+                Jigsaw Regions
+              </button>
+              {OVERLAY_MODES.map(mode => (
+                <button
+                  key={mode.type}
+                  className={`btn ${editMode === mode.type ? 'btn-primary' : ''}`}
+                  onClick={() => handleModeChange(mode.type)}
+                  title={mode.title}
+                >
+                  {mode.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
           {/* Mini Grid */}
           <div className="custom-puzzle-grid-container">
             <div 
@@ -203,15 +402,23 @@ export function CustomPuzzleModal({ isOpen, onClose, onStartPuzzle }: CustomPuzz
                 border: '2px solid var(--cyan)',
                 borderRadius: 'var(--radius-sm)',
                 overflow: 'hidden',
-                maxWidth: selectedSize <= 9 ? '300px' : '400px',
+                maxWidth: selectedSize <= 9 ? '300px' : selectedSize <= 16 ? '400px' : '560px',
                 margin: '0 auto',
+                position: 'relative',
               }}
             >
               {cells.map((value, index) => {
                 const row = Math.floor(index / selectedSize);
                 const col = index % selectedSize;
-                const isBlockRight = (col + 1) % config.blockCols === 0 && col < selectedSize - 1;
-                const isBlockBottom = (row + 1) % config.blockRows === 0 && row < selectedSize - 1;
+                const isBlockRight = col < selectedSize - 1 && (regions
+                  ? regions[index] !== regions[index + 1]
+                  : (col + 1) % config.blockCols === 0);
+                const isBlockBottom = row < selectedSize - 1 && (regions
+                  ? regions[index] !== regions[index + selectedSize]
+                  : (row + 1) % config.blockRows === 0);
+                const region = regions?.[index] ?? getBoxIndex(index, selectedSize, config.blockRows, config.blockCols);
+                const regionTint = `hsl(${Math.round((region * 360) / selectedSize)}, 60%, 22%)`;
+                const alternatives = ambiguousCells?.get(index);
 
                 return (
                   <div
@@ -222,21 +429,30 @@ export function CustomPuzzleModal({ isOpen, onClose, onStartPuzzle }: CustomPuzz
                       display: 'flex',
                       alignItems: 'center',
                       justifyContent: 'center',
-                      background: selectedCell === index ? 'var(--cell-bg-selected)' : 'var(--cell-bg)',
+                      background: selectedCell === index && editMode === 'digits'
+                        ? 'var(--cell-bg-selected)'
+                        : editMode === 'regions' ? regionTint
+                        : alternatives ? 'rgba(234, 179, 8, 0.25)' : 'var(--cell-bg)',
                       cursor: 'pointer',
-                      fontSize: selectedSize <= 9 ? '1.2rem' : '0.9rem',
+                      fontSize: selectedSize <= 9 ? '1.2rem' : selectedSize <= 16 ? '0.9rem' : '0.7rem',
                       fontFamily: 'VT323, monospace',
-                      color: value ? 'var(--cyan)' : 'transparent',
+                      color: value ? 'var(--cyan)' : alternatives ? 'var(--yellow)' : 'transparent',
                       borderRight: isBlockRight ? '2px solid var(--grid-thick)' : 'none',
                       borderBottom: isBlockBottom ? '2px solid var(--grid-thick)' : 'none',
                       transition: 'background 0.1s',
                     }}
                     onClick={() => handleCellClick(index)}
+                    title={alternatives ? `Either ${getSymbol(alternatives[0])} or ${getSymbol(alternatives[1])}` : undefined}
                   >
-                    {value || '·'}
+                    {value ? getSymbol(value) : alternatives ? alternatives.map(getSymbol).join('/') : '·'}
                   </div>
                 );
               })}
+              <VariantOverlay
+                overlays={overlays}
+                size={selectedSize}
+                draft={isOverlayMode && draft.length > 0 ? toOverlay(editMode, draft) : undefined}
+              />
             </div>
           </div>
 
@@ -253,21 +469,31 @@ export function CustomPuzzleModal({ isOpen, onClose, onStartPuzzle }: CustomPuzz
               {Array.from({ length: selectedSize }, (_, i) => i + 1).map(num => (
                 <button
                   key={num}
-                  className="btn btn-icon"
+                  className={`btn btn-icon ${editMode === 'regions' && activeRegion === num - 1 ? 'btn-primary' : ''}`}
                   onClick={() => handleNumberInput(num)}
                   style={{ minWidth: '36px', minHeight: '36px' }}
                 >
-                  {num <= 9 ? num : num.toString(16).toUpperCase()}
+                  {getSymbol(num)}
                 </button>
               ))}
               <button
                 className="btn btn-icon btn-danger"
                 onClick={handleClear}
                 style={{ minWidth: '36px', minHeight: '36px' }}
-                title="Clear cell"
+                title={editMode === 'regions' ? 'Reset to standard boxes' : isOverlayMode ? 'Undo last line' : 'Clear cell'}
               >
                 ✕
               </button>
+              {isOverlayMode && editMode !== 'greater' && (
+                <button
+                  className="btn btn-primary"
+                  onClick={handleFinishLine}
+                  disabled={draft.length < 2}
+                  style={{ minHeight: '36px' }}
+                >
+                  Finish Line
+                </button>
+              )}
             </div>
           </div>
 
@@ -279,14 +505,94 @@ export function CustomPuzzleModal({ isOpen, onClose, onStartPuzzle }: CustomPuzz
             marginTop: 'var(--spacing-md)',
             flexWrap: 'wrap'
           }}>
-            <button className="btn btn-secondary" onClick={handleImportString}>
+            <button className="btn btn-secondary" onClick={() => setTextPanel(textPanel === 'import' ? null : 'import')}>
               📋 Import
             </button>
+            <button className="btn btn-secondary" onClick={() => setTextPanel(textPanel === 'export' ? null : 'export')}>
+              📤 Export
+            </button>
             <button className="btn btn-danger" onClick={handleClearAll}>
               🗑️ Clear All
             </button>
           </div>
 
+          {/* Text Import / Export */}
+          {textPanel === 'import' && (
+            <div className="form-group" style={{ marginTop: 'var(--spacing-md)' }}>
+              <label className="form-label">Import</label>
+              <textarea
+                className="form-input"
+                rows={9}
+                value={importText}
+                onChange={e => setImportText(e.target.value)}
+                placeholder="Paste one line, a grid, an .sdk or .ss file, a pencilmark grid or an .sdm collection"
+                style={{ width: '100%', fontFamily: 'monospace', whiteSpace: 'pre' }}
+              />
+              <div style={{ display: 'flex', gap: 'var(--spacing-xs)', marginTop: 'var(--spacing-xs)', flexWrap: 'wrap' }}>
+                <select
+                  className="form-select"
+                  value={importFormat}
+                  onChange={e => setImportFormat(e.target.value as PuzzleFormat | 'auto')}
+                >
+                  <option value="auto">Detect format</option>
+                  {PUZZLE_FORMATS.map(({ format, label }) => (
+                    <option key={format} value={format}>{label}</option>
+                  ))}
+                </select>
+                <label className="btn">
+                  📂 Open File
+                  <input type="file" accept=".txt,.sdk,.ss,.sdm" onChange={handleImportFile} style={{ display: 'none' }} />
+                </label>
+                <button className="btn btn-primary" onClick={handleImportText} disabled={!importText.trim()}>
+                  Load
+                </button>
+              </div>
+            </div>
+          )}
+          {textPanel === 'export' && (
+            <div className="form-group" style={{ marginTop: 'var(--spacing-md)' }}>
+              <label className="form-label">Export</label>
+              <textarea
+                className="form-input"
+                rows={9}
+                value={exportText}
+                readOnly
+                style={{ width: '100%', fontFamily: 'monospace', whiteSpace: 'pre' }}
+              />
+              <div style={{ display: 'flex', gap: 'var(--spacing-xs)', marginTop: 'var(--spacing-xs)', flexWrap: 'wrap' }}>
+                <select
+                  className="form-select"
+                  value={exportFormat}
+                  onChange={e => setExportFormat(e.target.value as PuzzleFormat)}
+                >
+                  {PUZZLE_FORMATS.map(({ format, label }) => (
+                    <option key={format} value={format}>{label}</option>
+                  ))}
+                </select>
+                <button className="btn" onClick={() => navigator.clipboard.writeText(exportText)}>
+                  📋 Copy
+                </button>
+                <button className="btn" onClick={handleSaveExport}>
+                  💾 Save File
+                </button>
+              </div>
+            </div>
+          )}
+          {collection && (
+            <div className="form-group" style={{ marginTop: 'var(--spacing-md)' }}>
+              <label className="form-label">Collection</label>
+              <select
+                className="form-select"
+                value={collection.index}
+                onChange={e => handleCollectionPick(Number(e.target.value))}
+              >
+                {collection.puzzles.map((_, i) => (
+                  <option key={i} value={i}>Puzzle {i + 1} of {collection.puzzles.length}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {/* Error Display */}
           {error && (
             <div style={{
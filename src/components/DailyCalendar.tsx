@@ -0,0 +1,87 @@
+/**
+ * DailyCalendar Component
+ * Calendar of recent daily challenges with solved status and times
+ */
+
+import { DailyPuzzle, getDateString } from '../storage';
+
+interface DailyCalendarProps {
+  history: DailyPuzzle[];
+  days?: number;
+  selectedDate: string;
+  onSelectDate: (date: string) => void;
+}
+
+const WEEKDAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+export function DailyCalendar({ history, days = 30, selectedDate, onSelectDate }: DailyCalendarProps) {
+  const today = new Date();
+  const todayString = getDateString(today);
+  const byDate = new Map(history.map(daily => [daily.date, daily]));
+
+  // Oldest first, so the grid reads like a wall calendar
+  const dates: Date[] = [];
+  for (let offset = days - 1; offset >= 0; offset--) {
+    const date = new Date(today);
+    date.setDate(today.getDate() - offset);
+    dates.push(date);
+  }
+
+  const formatTime = (ms: number) => {
+    const totalSeconds = Math.floor(ms / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  };
+
+  const solvedCount = history.filter(daily => daily.completed).length;
+
+  return (
+    <div className="daily-calendar">
+      <div className="daily-calendar-grid">
+        {WEEKDAYS.map((day, i) => (
+          <div key={`weekday-${i}`} className="daily-calendar-weekday">{day}</div>
+        ))}
+
+        {/* Pad the first week so days line up under their weekday */}
+        {Array.from({ length: dates[0].getDay() }).map((_, i) => (
+          <div key={`pad-${i}`} />
+        ))}
+
+        {dates.map(date => {
+          const dateString = getDateString(date);
+          const daily = byDate.get(dateString);
+
+          const classNames = ['daily-calendar-day'];
+          if (daily?.completed) classNames.push('solved');
+          else if (daily) classNames.push('started');
+          if (dateString === selectedDate) classNames.push('selected');
+          if (dateString === todayString) classNames.push('today');
+
+          const status = daily?.completed
+            ? `solved in ${formatTime(daily.time ?? 0)}`
+            : daily ? 'started' : 'not played';
+
+          return (
+            <button
+              key={dateString}
+              className={classNames.join(' ')}
+              onClick={() => onSelectDate(dateString)}
+              aria-label={`${dateString}, ${status}`}
+              title={`${dateString}: ${status}`}
+            >
+              <span className="daily-calendar-date">{date.getDate()}</span>
+              <span className="daily-calendar-status">
+                {daily?.completed ? formatTime(daily.time ?? 0) : daily ? '•' : ''}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="daily-calendar-summary">
+        {solvedCount} of {days} days solved
+      </div>
+    </div>
+  );
+}
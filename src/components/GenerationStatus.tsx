@@ -0,0 +1,31 @@
+/**
+ * GenerationStatus Component
+ * Progress bar shown while a new puzzle is generated in the background
+ */
+
+import { GenerationProgress } from '../solver';
+
+interface GenerationStatusProps {
+  progress: GenerationProgress;
+  onCancel: () => void;
+}
+
+export function GenerationStatus({ progress, onCancel }: GenerationStatusProps) {
+  return (
+    <div className="generation-status" role="status" aria-live="polite">
+      <div className="generation-title">GENERATING PUZZLE</div>
+      <div className="progress-bar vintage">
+        <div
+          className="progress-fill"
+          style={{ width: `${Math.round(progress.fraction * 100)}%` }}
+        />
+      </div>
+      <div className="generation-detail">
+        Attempt {progress.attempt} • {progress.givens} givens • {(progress.elapsedMs / 1000).toFixed(1)}s
+      </div>
+      <button className="btn" onClick={onCancel} style={{ marginTop: 'var(--spacing-sm)' }}>
+        Cancel
+      </button>
+    </div>
+  );
+}
@@ -8,12 +8,13 @@
 interface HeaderProps {
   onNewGame: () => void;
   onLoadGame: () => void;
+  onLibrary: () => void;
   onSettings: () => void;
   onStats: () => void;
   onHelp: () => void;
 }
 
-export function Header({ onNewGame, onLoadGame, onSettings, onStats, onHelp }: HeaderProps) {
+export function Header({ onNewGame, onLoadGame, onLibrary, onSettings, onStats, onHelp }: HeaderProps) {
   return (
     <header className="header">
       <div className="logo">
@@ -47,6 +48,13 @@ export function Header({ onNewGame, onLoadGame, onSettings, onStats, onHelp }: H
           </svg>
         </button>
         
+        <button className="btn btn-icon" onClick={onLibrary} aria-label="Puzzle library" title="Library">
+          <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <path d="M4 19.5A2.5 2.5 0 0 1 6.5 17H20" />
+            <path d="M6.5 2H20v20H6.5A2.5 2.5 0 0 1 4 19.5v-15A2.5 2.5 0 0 1 6.5 2z" />
+          </svg>
+        </button>
+        
         <button className="btn btn-icon" onClick={onStats} aria-label="Statistics" title="Stats">
           <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
             <line x1="18" y1="20" x2="18" y2="10" />
@@ -15,11 +15,13 @@ export function HelpModal({ isOpen, onClose }: HelpModalProps) {
   
   const shortcuts = [
     { keys: ['1-9'], description: 'Enter number' },
+    { keys: ['A-P'], description: 'Enter 10-25 on larger grids' },
     { keys: ['0', 'Delete', 'Backspace'], description: 'Clear cell' },
     { keys: ['Arrow keys'], description: 'Navigate cells' },
     { keys: ['P'], description: 'Toggle pencil mode' },
     { keys: ['H'], description: 'Get hint' },
     { keys: ['N'], description: 'New game' },
+    { keys: ['Alt', 'P / H / N'], description: 'The shortcut, on grids where the letter is a digit (H from 17×17, N from 23×23, P on 25×25)' },
     { keys: ['Ctrl', 'Z'], description: 'Undo' },
     { keys: ['Ctrl', 'Y'], description: 'Redo' },
     { keys: ['Ctrl', 'S'], description: 'Save game' },
@@ -27,6 +29,22 @@ export function HelpModal({ isOpen, onClose }: HelpModalProps) {
     { keys: ['Esc'], description: 'Deselect cell' },
   ];
   
+  const variantRules = [
+    { name: 'Killer', desc: 'Cells in a dashed cage add up to its sum and never repeat' },
+    { name: 'Jigsaw', desc: 'Irregular regions take the place of the boxes' },
+    { name: 'Diagonal / Windoku', desc: 'The shaded diagonals or windows also hold every number once' },
+    { name: 'Thermo / Arrow', desc: 'Numbers rise from the bulb; an arrow adds up to its circle' },
+    { name: 'Greater-Than', desc: 'The sign points at the smaller of two neighbours' },
+    { name: 'Kropki', desc: 'White dot: consecutive numbers. Black dot: one is double the other. No dot: neither' },
+    { name: 'XV', desc: 'X: neighbours add up to 10. V: they add up to 5' },
+    { name: 'Anti-Knight', desc: "Cells a knight's move apart never hold the same number" },
+    { name: 'Anti-King', desc: "Cells a king's move apart, diagonals included, never hold the same number" },
+    { name: 'Non-Consecutive', desc: 'Cells sharing a side never hold consecutive numbers' },
+    { name: 'Sandwich', desc: 'A clue beside a row or column adds up the numbers between its 1 and its largest number' },
+    { name: 'Little Killer', desc: 'A clue outside the grid adds up the diagonal its arrow points along; numbers may repeat' },
+    { name: 'Samurai / Twodoku / Butterfly', desc: 'Overlapping grids each follow the classic rules; shared boxes count for both' },
+  ];
+  
   return (
     <div className="modal-overlay" onClick={onClose}>
       <div className="modal" onClick={e => e.stopPropagation()}>
@@ -45,6 +63,21 @@ export function HelpModal({ isOpen, onClose }: HelpModalProps) {
             </p>
           </div>
           
+          {/* Variant Rules */}
+          <div style={{ marginBottom: 'var(--spacing-lg)' }}>
+            <h3 style={{ marginBottom: 'var(--spacing-md)' }}>Variant Rules</h3>
+            <p style={{ color: 'var(--text-secondary)', marginBottom: 'var(--spacing-sm)' }}>
+              Variants add rules on top of the classic ones. Breaking any of them is highlighted as a conflict.
+            </p>
+            <ul style={{ color: 'var(--text-secondary)', lineHeight: 1.8, paddingLeft: 'var(--spacing-lg)' }}>
+              {variantRules.map(rule => (
+                <li key={rule.name}>
+                  <strong style={{ color: 'var(--cyan)' }}>{rule.name}</strong>: {rule.desc}
+                </li>
+              ))}
+            </ul>
+          </div>
+          
           {/* Tips */}
           <div style={{ marginBottom: 'var(--spacing-lg)' }}>
             <h3 style={{ marginBottom: 'var(--spacing-md)' }}>Tips</h3>
@@ -84,9 +117,29 @@ export function HelpModal({ isOpen, onClose }: HelpModalProps) {
               {[
                 { name: 'Single Candidate', desc: 'Cell has only one possible number' },
                 { name: 'Hidden Single', desc: 'Number can only go in one cell in a unit' },
+                { name: 'Inequality', desc: 'Greater-Than: a cell must beat the smallest digit its smaller neighbour can take' },
+                { name: 'Thermometer', desc: 'Thermo: digits rise along the line, so each cell has a floor and a ceiling' },
+                { name: 'XV Sum', desc: 'XV: a candidate stays only if its neighbour can make the 5 or 10 with it' },
+                { name: 'Kropki Dot', desc: 'Kropki: a candidate needs a consecutive or double partner across a dot, and neither without one' },
+                { name: 'Non-Consecutive', desc: 'Non-Consecutive: a cell cannot take a number one above or below its only options next door' },
+                { name: 'Little Killer', desc: 'Little Killer: a candidate stays only if the rest of its diagonal can still make the total' },
+                { name: 'Cage Combination', desc: 'Killer: only some digit sets add up to a cage sum' },
+                { name: 'Arrow Sum', desc: 'Arrow: the circle lies between the smallest and largest sums its path can make' },
+                { name: 'Sandwich Sum', desc: 'Sandwich: the 1 and the largest digit must sit where the digits between them can make the clue' },
+                { name: 'Innie/Outie', desc: 'Killer: a unit adds up to a known total, so cells sticking in or out of its cages do too' },
                 { name: 'Naked Pair', desc: 'Two cells with same two candidates' },
                 { name: 'Hidden Pair', desc: 'Two numbers only in two cells' },
                 { name: 'X-Wing', desc: 'Advanced row/column elimination' },
+                { name: 'Swordfish / Jellyfish', desc: 'X-Wing extended to three or four rows and columns' },
+                { name: 'Finned Fish', desc: 'A fish with extra candidates in one box; eliminate where cells see the fin' },
+                { name: 'XY-Wing / XYZ-Wing', desc: 'A pivot and two pincers force a value out of shared peers' },
+                { name: 'W-Wing', desc: 'Two matching pairs joined by a strong link' },
+                { name: 'Unique Rectangle', desc: 'Avoid four cells that could swap two values (generated puzzles only)' },
+                { name: 'BUG+1', desc: 'All cells but one are pairs; that cell takes the digit seen three times' },
+                { name: 'Simple Colouring', desc: 'Two-colour the strong links of one digit; one colour is true' },
+                { name: 'X-Chain / X-Cycle', desc: 'Alternating strong and weak links on one digit, open or looped' },
+                { name: 'XY-Chain', desc: 'A chain of bivalue cells; one end must hold the shared digit' },
+                { name: 'AIC', desc: 'Alternating inference chain mixing cells and digits' },
               ].map((tech, i) => (
                 <div 
                   key={i}
@@ -5,14 +5,16 @@
 
 
 import { HintResult } from '../types';
+import { ChainNotation } from './ChainOverlay';
 
 interface HintDisplayProps {
   hint: HintResult | null;
+  size?: number;
   onApply: () => void;
   onDismiss: () => void;
 }
 
-export function HintDisplay({ hint, onApply, onDismiss }: HintDisplayProps) {
+export function HintDisplay({ hint, size = 9, onApply, onDismiss }: HintDisplayProps) {
   if (!hint) return null;
   
   return (
@@ -23,6 +25,9 @@ export function HintDisplay({ hint, onApply, onDismiss }: HintDisplayProps) {
       <div className="hint-explanation">
         {hint.explanation}
       </div>
+      {hint.chain && hint.chain.length > 0 && (
+        <ChainNotation chain={hint.chain} size={size} />
+      )}
       <div style={{ 
         display: 'flex', 
         gap: 'var(--spacing-sm)', 
@@ -0,0 +1,107 @@
+/**
+ * HistoryTree Component
+ * Navigator for the undo tree: every branch tried, with named checkpoints
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { HistoryNode } from '../types';
+import { getSymbol } from '../utils';
+
+interface HistoryTreeProps {
+  history: HistoryNode[];
+  currentNode: number;
+  width: number; // Cells per row, to name cells
+  onJump: (nodeId: number) => void;
+  onCheckpoint: (name: string) => void;
+}
+
+/**
+ * Rows of the tree in display order. A line follows its oldest branch; later
+ * branches are indented one level, right below the position they fork from.
+ */
+function flattenTree(history: HistoryNode[]): { node: HistoryNode; depth: number }[] {
+  const rows: { node: HistoryNode; depth: number }[] = [];
+  const addLine = (id: number, depth: number) => {
+    for (let node: HistoryNode | undefined = history[id]; node; node = history[node.children[0]]) {
+      rows.push({ node, depth });
+      for (const branch of node.children.slice(1)) {
+        addLine(branch, depth + 1);
+      }
+    }
+  };
+  addLine(0, 0);
+  return rows;
+}
+
+export function HistoryTree({ history, currentNode, width, onJump, onCheckpoint }: HistoryTreeProps) {
+  const [name, setName] = useState('');
+  const currentRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    currentRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [currentNode]);
+
+  const cellName = (cell: number) => `R${Math.floor(cell / width) + 1}C${(cell % width) + 1}`;
+
+  // A move is named by the digit it placed or cleared, then by how many more cells it touched
+  const describe = (node: HistoryNode) => {
+    if (!node.entry) return 'Start';
+    const { changes } = node.entry;
+    const placed = changes.filter(change => change.previousValue !== change.newValue);
+    if (placed.length === 1) {
+      const { cellIndex, newValue } = placed[0];
+      const move = newValue ? `${cellName(cellIndex)}=${getSymbol(newValue)}` : `${cellName(cellIndex)} cleared`;
+      return changes.length > 1 ? `${move} +${changes.length - 1} notes` : move;
+    }
+    if (changes.length === 1) return `${cellName(changes[0].cellIndex)} notes`;
+    return `${changes.length} cells`;
+  };
+
+  const handleCheckpoint = () => {
+    onCheckpoint(name);
+    setName('');
+  };
+
+  return (
+    <div className="control-panel">
+      <div className="control-panel-header">
+        <span className="control-panel-title">History</span>
+      </div>
+
+      <div className="history-tree">
+        {flattenTree(history).map(({ node, depth }) => (
+          <button
+            key={node.id}
+            ref={node.id === currentNode ? currentRef : undefined}
+            className={`history-node ${node.id === currentNode ? 'current' : ''}`}
+            style={{ marginLeft: depth * 12 }}
+            onClick={() => onJump(node.id)}
+            title={node.checkpoint ? `Jump to "${node.checkpoint}"` : 'Jump to this position'}
+          >
+            {node.children.length > 1 ? '◆' : '•'} {describe(node)}
+            {node.checkpoint && <span className="history-checkpoint">🔖 {node.checkpoint}</span>}
+          </button>
+        ))}
+      </div>
+
+      <div className="btn-group" style={{ marginTop: 'var(--spacing-sm)' }}>
+        <input
+          className="form-input"
+          value={name}
+          onChange={e => setName(e.target.value)}
+          onKeyDown={e => {
+            // Keep typing out of the game's keyboard shortcuts
+            e.stopPropagation();
+            if (e.key === 'Enter' && name.trim()) handleCheckpoint();
+          }}
+          placeholder="Name this position"
+          aria-label="Checkpoint name"
+          style={{ flex: 1 }}
+        />
+        <button className="btn" onClick={handleCheckpoint} disabled={!name.trim()}>
+          🔖 Bookmark
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+/**
+ * LibraryModal Component
+ * Browse puzzle collections, import new ones and start their puzzles
+ */
+
+import React, { ChangeEvent, useEffect, useRef, useState } from 'react';
+import { Puzzle } from '../types';
+import { isAbortError } from '../solver';
+import { deleteCollection, getAllCollections, PuzzleCollection } from '../storage';
+import { importCollection, LibrarySort, PuzzleFormatError, sortLibraryPuzzles } from '../utils';
+
+interface LibraryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onStart: (puzzle: Puzzle) => void;
+}
+
+const SORTS: { sort: LibrarySort; label: string }[] = [
+  { sort: 'order', label: 'Collection order' },
+  { sort: 'easiest', label: 'Easiest first' },
+  { sort: 'hardest', label: 'Hardest first' },
+];
+
+export function LibraryModal({ isOpen, onClose, onStart }: LibraryModalProps) {
+  const [collections, setCollections] = useState<PuzzleCollection[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [sort, setSort] = useState<LibrarySort>('order');
+  const [importName, setImportName] = useState('');
+  const [importText, setImportText] = useState('');
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [messages, setMessages] = useState<string[]>([]);
+  const importAbortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadCollections();
+    }
+  }, [isOpen]);
+
+  const loadCollections = async () => {
+    setLoading(true);
+    setCollections(await getAllCollections());
+    setLoading(false);
+  };
+
+  const handleClose = () => {
+    importAbortRef.current?.abort();
+    onClose();
+  };
+
+  const handleDelete = async (id: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    await deleteCollection(id);
+    loadCollections();
+  };
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setImportText(await file.text());
+    if (!importName) setImportName(file.name.replace(/\.[^.]*$/, ''));
+  };
+
+  const handleImport = async () => {
+    const controller = new AbortController();
+    importAbortRef.current = controller;
+    setMessages([]);
+
+    try {
+      const result = await importCollection(importName.trim() || 'Untitled collection', importText, {
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+      setMessages([
+        result.imported > 0
+          ? `Imported ${result.imported} puzzle${result.imported === 1 ? '' : 's'}`
+          : 'No puzzle could be imported',
+        ...result.skipped,
+      ]);
+      if (result.id) {
+        setImportName('');
+        setImportText('');
+        loadCollections();
+      }
+    } catch (error) {
+      if (!isAbortError(error)) {
+        setMessages([error instanceof PuzzleFormatError ? error.message : 'Import failed']);
+      }
+    } finally {
+      setProgress(null);
+      importAbortRef.current = null;
+    }
+  };
+
+  const formatTime = (ms: number) => {
+    const totalSeconds = Math.floor(ms / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  };
+
+  if (!isOpen) return null;
+
+  const open = collections.find(collection => collection.id === openId);
+
+  return (
+    <div className="modal-overlay" onClick={handleClose}>
+      <div className="modal" onClick={e => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2 className="modal-title">{open ? open.name : 'Library'}</h2>
+          <button className="modal-close" onClick={handleClose} aria-label="Close">×</button>
+        </div>
+
+        <div className="modal-body">
+          {loading ? (
+            <div style={{ textAlign: 'center', padding: 'var(--spacing-xl)' }}>
+              <div className="loading-spinner" style={{ margin: '0 auto' }} />
+            </div>
+          ) : open ? (
+            <>
+              <div style={{ display: 'flex', gap: 'var(--spacing-sm)', marginBottom: 'var(--spacing-md)' }}>
+                <button className="btn" onClick={() => setOpenId(null)}>← Collections</button>
+                <select
+                  className="form-select"
+                  value={sort}
+                  onChange={e => setSort(e.target.value as LibrarySort)}
+                  aria-label="Sort puzzles"
+                >
+                  {SORTS.map(({ sort, label }) => (
+                    <option key={sort} value={sort}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="saved-games-list">
+                {sortLibraryPuzzles(open.puzzles, sort).map(index => {
+                  const { puzzle, solved, bestTime } = open.puzzles[index];
+                  return (
+                    <div
+                      key={index}
+                      className="saved-game-item"
+                      onClick={() => {
+                        onStart({ ...puzzle, library: { collection: open.id, index } });
+                        onClose();
+                      }}
+                    >
+                      <div className="saved-game-info">
+                        <div className="saved-game-name">
+                          #{index + 1} • {puzzle.size}×{puzzle.size} {puzzle.difficulty}
+                          {puzzle.rating && ` (${puzzle.rating.score.toFixed(1)})`}
+                        </div>
+                        <div className="saved-game-meta">
+                          {solved ? `✓ Solved • Best ${formatTime(bestTime ?? 0)}` : 'Not solved yet'}
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </>
+          ) : (
+            <>
+              {collections.length === 0 ? (
+                <div style={{ textAlign: 'center', padding: 'var(--spacing-xl)', color: 'var(--text-muted)' }}>
+                  No collections yet
+                </div>
+              ) : (
+                <div className="saved-games-list">
+                  {collections.map(collection => (
+                    <div
+                      key={collection.id}
+                      className="saved-game-item"
+                      onClick={() => {
+                        setOpenId(collection.id);
+                        setSort('order');
+                      }}
+                    >
+                      <div className="saved-game-info">
+                        <div className="saved-game-name">{collection.name}</div>
+                        <div className="saved-game-meta">
+                          {collection.puzzles.length} puzzles • {collection.puzzles.filter(entry => entry.solved).length} solved
+                        </div>
+                      </div>
+                      <button
+                        className="btn btn-icon btn-danger"
+                        onClick={(e) => handleDelete(collection.id, e)}
+                        aria-label="Delete collection"
+                      >
+                        <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                          <polyline points="3,6 5,6 21,6" />
+                          <path d="M19,6v14a2,2,0,0,1-2,2H7a2,2,0,0,1-2-2V6m3,0V4a2,2,0,0,1,2-2h4a2,2,0,0,1,2,2v2" />
+                        </svg>
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Bulk Import */}
+              <div className="form-group" style={{ marginTop: 'var(--spacing-lg)' }}>
+                <label className="form-label">Import Collection</label>
+                <input
+                  className="form-input"
+                  value={importName}
+                  onChange={e => setImportName(e.target.value)}
+                  placeholder="Collection name"
+                />
+                <textarea
+                  className="form-input"
+                  rows={6}
+                  value={importText}
+                  onChange={e => setImportText(e.target.value)}
+                  placeholder="Paste puzzles one per line (.sdm), or a single puzzle in any supported format"
+                  style={{ width: '100%', fontFamily: 'monospace', whiteSpace: 'pre', marginTop: 'var(--spacing-xs)' }}
+                />
+                <div style={{ display: 'flex', gap: 'var(--spacing-xs)', marginTop: 'var(--spacing-xs)' }}>
+                  <label className="btn">
+                    📂 Open File
+                    <input type="file" accept=".txt,.sdm,.sdk,.ss" onChange={handleFile} style={{ display: 'none' }} />
+                  </label>
+                  <button
+                    className="btn btn-primary"
+                    onClick={handleImport}
+                    disabled={progress !== null || !importText.trim()}
+                  >
+                    {progress ? `⏳ Checking ${Math.min(progress.done + 1, progress.total)} of ${progress.total}...` : 'Import'}
+                  </button>
+                </div>
+                {messages.length > 0 && (
+                  <div style={{ marginTop: 'var(--spacing-sm)', fontFamily: 'VT323, monospace', color: 'var(--text-muted)' }}>
+                    {messages.map((message, i) => (
+                      <div key={i}>{message}</div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="modal-footer">
+          <button className="btn" onClick={handleClose}>Close</button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+/**
+ * MultiGrid Component
+ * Overlapping grids of a Samurai, Twodoku or Butterfly puzzle on one canvas
+ */
+
+import { useCallback, useMemo } from 'react';
+import { Cell, GridLayout } from '../types';
+import { SudokuCell } from './SudokuCell';
+import { getActiveCells } from '../solver';
+
+interface MultiGridProps {
+  cells: Cell[];
+  size: number;
+  blockRows: number;
+  blockCols: number;
+  layout: GridLayout;
+  selectedCell: number | null;
+  showConflicts: boolean;
+  showHighlights: boolean;
+  onCellClick: (index: number) => void;
+}
+
+export function MultiGrid({
+  cells,
+  size,
+  blockRows,
+  blockCols,
+  layout,
+  selectedCell,
+  showConflicts,
+  showHighlights,
+  onCellClick,
+}: MultiGridProps) {
+  const handleCellClick = useCallback(
+    (index: number) => () => {
+      onCellClick(index);
+    },
+    [onCellClick]
+  );
+
+  const active = useMemo(() => getActiveCells(size, { layout }), [size, layout]);
+
+  return (
+    <div
+      className={`sudoku-grid multi-grid digits-${size} crt-glow`}
+      style={{ gridTemplateColumns: `repeat(${layout.width}, 1fr)`, aspectRatio: `${layout.width} / ${layout.height}` }}
+      role="grid"
+      aria-label={`${layout.name} puzzle of ${layout.grids.length} overlapping ${size} by ${size} grids`}
+    >
+      {cells.map((cell, index) => active[index] ? (
+        <SudokuCell
+          key={index}
+          cell={cell}
+          index={index}
+          size={size}
+          width={layout.width}
+          height={layout.height}
+          blockRows={blockRows}
+          blockCols={blockCols}
+          isSelected={selectedCell === index}
+          showConflicts={showConflicts}
+          showHighlights={showHighlights}
+          onClick={handleCellClick(index)}
+        />
+      ) : (
+        <div key={index} className="multi-grid-gap" aria-hidden="true" />
+      ))}
+
+      {/* Every grid's border, drawn over the cells so the overlaps show */}
+      <svg
+        className="multi-grid-outlines"
+        viewBox={`0 0 ${layout.width} ${layout.height}`}
+        preserveAspectRatio="none"
+        aria-hidden="true"
+      >
+        {layout.grids.map((grid, i) => (
+          <rect key={i} x={grid.col} y={grid.row} width={size} height={size} />
+        ))}
+      </svg>
+    </div>
+  );
+}
@@ -3,35 +3,186 @@
  * Dialog for configuring and starting a new game
  */
 
-import { useState } from 'react';
-import { Difficulty, Symmetry, PuzzleConfig, SUPPORTED_SIZES } from '../types';
+import { useEffect, useState } from 'react';
+import { Difficulty, LayoutName, Symmetry, PuzzleConfig, TechniqueType, SUPPORTED_SIZES } from '../types';
+import { DailyPuzzle, getDailyHistory, getDateString, countPooledPuzzles } from '../storage';
+import { DailyCalendar } from './DailyCalendar';
+import { POOL_SYMMETRY, isPooledConfig } from '../utils';
+import {
+  DIFFICULTY_RATINGS,
+  TechniqueProfile,
+  GenerationProgress,
+  VariantOptions,
+  getBoxShapes,
+  getConfigForSize,
+  getRandomConfig,
+  hasVariantOptions,
+} from '../solver';
+import { GenerationStatus } from './GenerationStatus';
+
+type GameMode = 'random' | 'daily';
+
+// Techniques a player can ask a generated puzzle to need
+const PROFILE_TECHNIQUES: TechniqueType[] = [
+  'Naked Pair', 'Hidden Pair', 'Pointing Pair', 'X-Wing', 'Swordfish', 'XY-Wing', 'XYZ-Wing', 'W-Wing',
+  'Unique Rectangle Type 1', 'Simple Colouring', 'X-Chain', 'XY-Chain', 'AIC',
+];
+const CHAIN_TECHNIQUES: TechniqueType[] = ['Simple Colouring', 'X-Chain', 'X-Cycle', 'XY-Chain', 'AIC'];
+const UNIQUENESS_TECHNIQUES: TechniqueType[] = [
+  'Unique Rectangle Type 1', 'Unique Rectangle Type 2', 'Unique Rectangle Type 3', 'Unique Rectangle Type 4', 'BUG+1',
+];
+
+// Variant rules a player can add to a random puzzle
+const VARIANT_RULES: { key: keyof VariantOptions; label: string; description: string; sizes?: number[] }[] = [
+  { key: 'killer', label: 'Killer', description: 'Cages add up to their sums' },
+  { key: 'jigsaw', label: 'Jigsaw', description: 'Irregular regions replace the boxes' },
+  { key: 'diagonals', label: 'Diagonal', description: 'Both main diagonals hold every digit' },
+  { key: 'windows', label: 'Windoku', description: 'Four shaded windows hold every digit', sizes: [9] },
+  { key: 'thermo', label: 'Thermo', description: 'Digits rise from the bulb along each thermometer' },
+  { key: 'arrows', label: 'Arrow', description: 'Digits on an arrow add up to its circle' },
+  { key: 'greaterThan', label: 'Greater-Than', description: 'Signs between neighbours point at the smaller digit' },
+  { key: 'kropki', label: 'Kropki', description: 'White dots join consecutive digits, black dots a digit and its double; every dot is shown' },
+  { key: 'xv', label: 'XV', description: 'X joins neighbours adding up to 10, V neighbours adding up to 5' },
+  { key: 'antiKnight', label: 'Anti-Knight', description: "A knight's move apart never repeats a digit" },
+  { key: 'antiKing', label: 'Anti-King', description: "A king's move apart never repeats a digit" },
+  { key: 'nonConsecutive', label: 'Non-Consecutive', description: 'Side-by-side cells never hold consecutive digits' },
+  { key: 'sandwich', label: 'Sandwich', description: 'Clues outside each row and column add up the digits between its 1 and its largest digit' },
+  { key: 'littleKiller', label: 'Little Killer', description: 'Clues outside the grid add up the diagonal their arrow points along' },
+];
+
+// Overlapping grid layouts, offered on 9×9 only
+const LAYOUTS: { name: LayoutName; label: string; description: string }[] = [
+  { name: 'twodoku', label: 'Twodoku', description: 'two grids sharing a corner box' },
+  { name: 'butterfly', label: 'Butterfly', description: 'four grids overlapping in a 12×12 square' },
+  { name: 'samurai', label: 'Samurai', description: 'four corner grids around a shared centre grid' },
+];
+const LAYOUT_SIZE = 9;
+
+// Above this size generation takes seconds rather than a blink, and variant rules are not offered
+const LARGE_SIZE = 16;
+
+/**
+ * Whether a grid size offers a rule; large grids take no variant rules
+ */
+function isRuleAvailable(rule: typeof VARIANT_RULES[number], size: number): boolean {
+  return size <= LARGE_SIZE && (!rule.sizes || rule.sizes.includes(size));
+}
+
+/**
+ * Drop the rules a grid size does not offer; without a size every rule stays
+ */
+function withoutUnavailableRules(options: VariantOptions, size?: number): VariantOptions {
+  const available = { ...options };
+  for (const rule of VARIANT_RULES) {
+    if (size !== undefined && !isRuleAvailable(rule, size)) delete available[rule.key];
+  }
+  return available;
+}
 
 interface NewGameModalProps {
   isOpen: boolean;
+  generationProgress?: GenerationProgress | null; // Set while a random puzzle is being generated
   onClose: () => void;
-  onStartGame: (config: PuzzleConfig, difficulty: Difficulty, symmetry: Symmetry) => void;
+  onStartGame: (
+    config: PuzzleConfig,
+    difficulty: Difficulty,
+    symmetry: Symmetry,
+    profile?: TechniqueProfile,
+    variant?: VariantOptions
+  ) => void;
+  onStartDaily: (date: string) => void;
   onCreateCustom: () => void;
 }
 
-export function NewGameModal({ isOpen, onClose, onStartGame, onCreateCustom }: NewGameModalProps) {
+export function NewGameModal({
+  isOpen,
+  generationProgress,
+  onClose,
+  onStartGame,
+  onStartDaily,
+  onCreateCustom,
+}: NewGameModalProps) {
+  const [mode, setMode] = useState<GameMode>('random');
   const [selectedSize, setSelectedSize] = useState<number>(9);
+  const [selectedBlockRows, setSelectedBlockRows] = useState(3);
   const [difficulty, setDifficulty] = useState<Difficulty>('Medium');
   const [symmetry, setSymmetry] = useState<Symmetry>('rotational');
   const [randomSize, setRandomSize] = useState(false);
+  const [requiredTechnique, setRequiredTechnique] = useState<TechniqueType | ''>('');
+  const [noChains, setNoChains] = useState(false);
+  const [noUniqueness, setNoUniqueness] = useState(false);
+  const [variantOptions, setVariantOptions] = useState<VariantOptions>({});
+  const [layout, setLayout] = useState<LayoutName | ''>('');
+  const [dailyDate, setDailyDate] = useState(() => getDateString());
+  const [dailyHistory, setDailyHistory] = useState<DailyPuzzle[]>([]);
+  const [pooledCount, setPooledCount] = useState(0);
+  
+  useEffect(() => {
+    if (isOpen && mode === 'daily') {
+      getDailyHistory(30).then(setDailyHistory);
+    }
+  }, [isOpen, mode]);
+  
+  // Ready-made puzzles start instantly, so say when there are some
+  useEffect(() => {
+    if (isOpen && mode === 'random') {
+      countPooledPuzzles(selectedSize, difficulty).then(setPooledCount, () => setPooledCount(0));
+    }
+  }, [isOpen, mode, selectedSize, difficulty]);
   
   if (!isOpen) return null;
   
+  // Box shapes of the chosen size; the squarest is picked whenever the size changes
+  const boxShapes = getBoxShapes(selectedSize);
+  const selectedConfig = boxShapes.find(shape => shape.blockRows === selectedBlockRows) ?? getConfigForSize(selectedSize)!;
+  
+  // A layout takes no other variant rule
+  const activeLayout = !randomSize && selectedSize === LAYOUT_SIZE ? layout : '';
+  const activeVariantOptions: VariantOptions = activeLayout
+    ? { layout: activeLayout }
+    : withoutUnavailableRules(variantOptions, randomSize ? undefined : selectedSize);
+  const isVariant = hasVariantOptions(activeVariantOptions);
+  const variantNames = activeLayout
+    ? LAYOUTS.filter(option => option.name === activeLayout).map(option => option.label)
+    : VARIANT_RULES.filter(rule => activeVariantOptions[rule.key]).map(rule => rule.label);
+  
+  const dailyRating = dailyHistory.find(daily => daily.date === dailyDate)?.puzzle.rating;
+  
+  // Rating range of the chosen bucket, up to where the next one starts
+  const ratingOrder = Object.keys(DIFFICULTY_RATINGS) as (keyof typeof DIFFICULTY_RATINGS)[];
+  const ratingBucket = difficulty === 'Custom' ? null : DIFFICULTY_RATINGS[difficulty];
+  const nextBucket = ratingOrder[ratingOrder.indexOf(difficulty as keyof typeof DIFFICULTY_RATINGS) + 1];
+  const ratingRange = ratingBucket
+    ? `${ratingBucket.min.toFixed(1)}${nextBucket ? `–${DIFFICULTY_RATINGS[nextBucket].min.toFixed(1)}` : '+'}`
+    : '';
+  
   const handleStart = () => {
-    let config: PuzzleConfig;
+    if (mode === 'daily') {
+      onStartDaily(dailyDate);
+      onClose();
+      return;
+    }
     
-    if (randomSize) {
-      config = SUPPORTED_SIZES[Math.floor(Math.random() * SUPPORTED_SIZES.length)];
+    const config: PuzzleConfig = randomSize ? getRandomConfig() : selectedConfig;
+    
+    // A profile replaces the difficulty's rating range
+    const forbid = [
+      ...(noChains ? CHAIN_TECHNIQUES : []),
+      ...(noUniqueness ? UNIQUENESS_TECHNIQUES : []),
+    ].filter(type => type !== requiredTechnique);
+    const profile: TechniqueProfile | undefined = requiredTechnique || forbid.length > 0
+      ? { require: requiredTechnique ? [requiredTechnique] : [], forbid }
+      : undefined;
+    
+    // Rules limited to some sizes are dropped when a random size lands elsewhere
+    const options = activeLayout ? activeVariantOptions : withoutUnavailableRules(variantOptions, config.size);
+    
+    // The modal stays open with a progress bar until the puzzle is ready
+    if (isVariant) {
+      onStartGame(config, difficulty, symmetry, undefined, options);
     } else {
-      config = SUPPORTED_SIZES.find(c => c.size === selectedSize) || SUPPORTED_SIZES[2];
+      onStartGame(config, difficulty, symmetry, profile);
     }
-    
-    onStartGame(config, difficulty, symmetry);
-    onClose();
   };
 
   const handleCreateCustom = () => {
@@ -39,6 +190,37 @@ export function NewGameModal({ isOpen, onClose, onStartGame, onCreateCustom }: N
     onCreateCustom();
   };
   
+  const renderModeTab = (icon: string, label: string, isActive: boolean, accent: string, onClick: () => void) => (
+    <div 
+      style={{
+        flex: 1,
+        padding: 'var(--spacing-md)',
+        background: 'var(--bg-tertiary)',
+        border: `2px solid ${isActive ? accent : 'var(--grid-lines)'}`,
+        borderRadius: 'var(--radius-md)',
+        textAlign: 'center',
+        cursor: isActive ? 'default' : 'pointer',
+        transition: 'all 0.2s',
+      }}
+      onClick={onClick}
+      onMouseEnter={(e) => {
+        e.currentTarget.style.borderColor = accent;
+      }}
+      onMouseLeave={(e) => {
+        e.currentTarget.style.borderColor = isActive ? accent : 'var(--grid-lines)';
+      }}
+    >
+      <div style={{ fontSize: 'var(--font-xl)', marginBottom: 'var(--spacing-xs)' }}>{icon}</div>
+      <div style={{ 
+        fontFamily: 'Press Start 2P, monospace', 
+        fontSize: 'var(--font-xs)',
+        color: isActive ? accent : 'var(--text-muted)'
+      }}>
+        {label}
+      </div>
+    </div>
+  );
+  
   return (
     <div className="modal-overlay" onClick={onClose}>
       <div className="modal" onClick={e => e.stopPropagation()}>
@@ -54,162 +236,263 @@ export function NewGameModal({ isOpen, onClose, onStartGame, onCreateCustom }: N
             gap: 'var(--spacing-sm)',
             marginBottom: 'var(--spacing-lg)',
           }}>
-            <div style={{
-              flex: 1,
-              padding: 'var(--spacing-md)',
-              background: 'var(--bg-tertiary)',
-              border: '2px solid var(--cyan)',
-              borderRadius: 'var(--radius-md)',
-              textAlign: 'center',
-              cursor: 'default',
-            }}>
-              <div style={{ fontSize: 'var(--font-xl)', marginBottom: 'var(--spacing-xs)' }}>🎲</div>
-              <div style={{ 
-                fontFamily: 'Press Start 2P, monospace', 
-                fontSize: 'var(--font-xs)',
-                color: 'var(--cyan)'
-              }}>
-                Random
-              </div>
-            </div>
-            <div 
-              style={{
-                flex: 1,
-                padding: 'var(--spacing-md)',
-                background: 'var(--bg-tertiary)',
-                border: '2px solid var(--grid-lines)',
-                borderRadius: 'var(--radius-md)',
-                textAlign: 'center',
-                cursor: 'pointer',
-                transition: 'all 0.2s',
-              }}
-              onClick={handleCreateCustom}
-              onMouseEnter={(e) => {
-                e.currentTarget.style.borderColor = 'var(--magenta)';
-              }}
-              onMouseLeave={(e) => {
-                e.currentTarget.style.borderColor = 'var(--grid-lines)';
-              }}
-            >
-              <div style={{ fontSize: 'var(--font-xl)', marginBottom: 'var(--spacing-xs)' }}>✏️</div>
-              <div style={{ 
-                fontFamily: 'Press Start 2P, monospace', 
-                fontSize: 'var(--font-xs)',
-                color: 'var(--text-muted)'
-              }}>
-                Custom
-              </div>
-            </div>
+            {renderModeTab('🎲', 'Random', mode === 'random', 'var(--cyan)', () => setMode('random'))}
+            {renderModeTab('📅', 'Daily', mode === 'daily', 'var(--yellow)', () => setMode('daily'))}
+            {renderModeTab('✏️', 'Custom', false, 'var(--magenta)', handleCreateCustom)}
           </div>
 
-          {/* Size Selection */}
-          <div className="form-group">
-            <label className="form-label">Grid Size</label>
-            <div className="form-checkbox" style={{ marginBottom: 'var(--spacing-sm)' }}>
-              <input
-                type="checkbox"
-                id="randomSize"
-                checked={randomSize}
-                onChange={(e) => setRandomSize(e.target.checked)}
+          {mode === 'daily' ? (
+            <div className="form-group">
+              <label className="form-label">Daily Challenge</label>
+              <DailyCalendar
+                history={dailyHistory}
+                selectedDate={dailyDate}
+                onSelectDate={setDailyDate}
               />
-              <label htmlFor="randomSize">Random Size</label>
+              {dailyRating && (
+                <div className="rating-summary">
+                  Rated {dailyRating.score.toFixed(1)} • needs {dailyRating.hardestTechnique}
+                </div>
+              )}
+            </div>
+          ) : (
+            <>
+            {/* Size Selection */}
+            <div className="form-group">
+              <label className="form-label">Grid Size</label>
+              <div className="form-checkbox" style={{ marginBottom: 'var(--spacing-sm)' }}>
+                <input
+                  type="checkbox"
+                  id="randomSize"
+                  checked={randomSize}
+                  onChange={(e) => setRandomSize(e.target.checked)}
+                />
+                <label htmlFor="randomSize">Random Size</label>
+              </div>
+              {!randomSize && (
+                <select
+                  className="form-select"
+                  value={selectedSize}
+                  onChange={(e) => {
+                    const size = Number(e.target.value);
+                    setSelectedSize(size);
+                    setSelectedBlockRows(getConfigForSize(size)!.blockRows);
+                  }}
+                >
+                  {SUPPORTED_SIZES.map(config => (
+                    <option key={config.size} value={config.size}>
+                      {config.size}×{config.size}
+                    </option>
+                  ))}
+                </select>
+              )}
             </div>
+          
+            {/* Box Shape Selection */}
             {!randomSize && (
+              <div className="form-group">
+                <label className="form-label">Box Shape</label>
+                <select
+                  className="form-select"
+                  value={selectedConfig.blockRows}
+                  onChange={(e) => setSelectedBlockRows(Number(e.target.value))}
+                  disabled={boxShapes.length < 2}
+                >
+                  {boxShapes.map(shape => (
+                    <option key={shape.blockRows} value={shape.blockRows}>
+                      {shape.blockRows}×{shape.blockCols} ({shape.blockRows} rows, {shape.blockCols} columns)
+                    </option>
+                  ))}
+                </select>
+                {selectedSize > LARGE_SIZE && (
+                  <div className="rating-summary">Grids this large take several seconds to generate</div>
+                )}
+              </div>
+            )}
+          
+            {/* Layout Selection */}
+            {!randomSize && selectedSize === LAYOUT_SIZE && (
+              <div className="form-group">
+                <label className="form-label">Layout</label>
+                <select
+                  className="form-select"
+                  value={layout}
+                  onChange={(e) => setLayout(e.target.value as LayoutName | '')}
+                >
+                  <option value="">Single grid</option>
+                  {LAYOUTS.map(option => (
+                    <option key={option.name} value={option.name}>
+                      {option.label}: {option.description}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+          
+            {/* Difficulty Selection */}
+            <div className="form-group">
+              <label className="form-label">Difficulty</label>
+              <div style={{
+                display: 'grid',
+                gridTemplateColumns: 'repeat(2, 1fr)',
+                gap: 'var(--spacing-xs)',
+              }}>
+                {(['Easy', 'Medium', 'Hard', 'Expert'] as Difficulty[]).map(d => (
+                  <button
+                    key={d}
+                    className={`btn ${difficulty === d ? 'btn-primary' : ''}`}
+                    onClick={() => setDifficulty(d)}
+                    style={{ fontSize: 'var(--font-xs)' }}
+                  >
+                    {d === 'Easy' && '😊'} 
+                    {d === 'Medium' && '🤔'} 
+                    {d === 'Hard' && '😤'} 
+                    {d === 'Expert' && '🔥'} {d}
+                  </button>
+                ))}
+              </div>
+              {ratingBucket && (
+                <div className="rating-summary">
+                  Rating {ratingRange} • {ratingBucket.label}
+                  {pooledCount > 0 && !randomSize && !isVariant && symmetry === POOL_SYMMETRY && isPooledConfig(selectedConfig) && ` • ⚡ ${pooledCount} ready`}
+                </div>
+              )}
+            </div>
+          
+            {/* Symmetry Selection */}
+            <div className="form-group">
+              <label className="form-label">Symmetry</label>
               <select
                 className="form-select"
-                value={selectedSize}
-                onChange={(e) => setSelectedSize(Number(e.target.value))}
+                value={symmetry}
+                onChange={(e) => setSymmetry(e.target.value as Symmetry)}
               >
-                {SUPPORTED_SIZES.map(config => (
-                  <option key={config.size} value={config.size}>
-                    {config.size}×{config.size} ({config.blockRows}×{config.blockCols} blocks)
-                  </option>
-                ))}
+                <option value="rotational">↻ Rotational (180°)</option>
+                <option value="horizontal">↔ Horizontal Mirror</option>
+                <option value="vertical">↕ Vertical Mirror</option>
+                <option value="diagonal">⤢ Diagonal</option>
+                <option value="none">✕ None</option>
               </select>
-            )}
-          </div>
+            </div>
           
-          {/* Difficulty Selection */}
-          <div className="form-group">
-            <label className="form-label">Difficulty</label>
-            <div style={{
-              display: 'grid',
-              gridTemplateColumns: 'repeat(2, 1fr)',
-              gap: 'var(--spacing-xs)',
-            }}>
-              {(['Easy', 'Medium', 'Hard', 'Expert'] as Difficulty[]).map(d => (
-                <button
-                  key={d}
-                  className={`btn ${difficulty === d ? 'btn-primary' : ''}`}
-                  onClick={() => setDifficulty(d)}
-                  style={{ fontSize: 'var(--font-xs)' }}
-                >
-                  {d === 'Easy' && '😊'} 
-                  {d === 'Medium' && '🤔'} 
-                  {d === 'Hard' && '😤'} 
-                  {d === 'Expert' && '🔥'} {d}
-                </button>
-              ))}
+            {/* Variant Rules */}
+            <div className="form-group">
+              <label className="form-label">Variant Rules</label>
+              {VARIANT_RULES.map(rule => {
+                const unavailable = !!activeLayout || (!randomSize && !isRuleAvailable(rule, selectedSize));
+                return (
+                  <div key={rule.key} className="form-checkbox">
+                    <input
+                      type="checkbox"
+                      id={`variant-${rule.key}`}
+                      checked={!!variantOptions[rule.key] && !unavailable}
+                      disabled={unavailable}
+                      onChange={(e) => setVariantOptions(prev => ({ ...prev, [rule.key]: e.target.checked }))}
+                    />
+                    <label htmlFor={`variant-${rule.key}`}>
+                      {rule.label}: {rule.description}
+                      {rule.sizes && ` (${rule.sizes.map(size => `${size}×${size}`).join(', ')} only)`}
+                    </label>
+                  </div>
+                );
+              })}
             </div>
-          </div>
           
-          {/* Symmetry Selection */}
-          <div className="form-group">
-            <label className="form-label">Symmetry</label>
-            <select
-              className="form-select"
-              value={symmetry}
-              onChange={(e) => setSymmetry(e.target.value as Symmetry)}
-            >
-              <option value="rotational">↻ Rotational (180°)</option>
-              <option value="horizontal">↔ Horizontal Mirror</option>
-              <option value="vertical">↕ Vertical Mirror</option>
-              <option value="diagonal">⤢ Diagonal</option>
-              <option value="none">✕ None</option>
-            </select>
-          </div>
+            {/* Technique Profile */}
+            {isVariant ? (
+              <div className="rating-summary">
+                Technique profiles apply to classic puzzles only
+              </div>
+            ) : (
+              <div className="form-group">
+                <label className="form-label">Technique Profile</label>
+                <select
+                  className="form-select"
+                  value={requiredTechnique}
+                  onChange={(e) => setRequiredTechnique(e.target.value as TechniqueType | '')}
+                >
+                  <option value="">Any technique</option>
+                  {PROFILE_TECHNIQUES.map(type => (
+                    <option key={type} value={type}>Must need {type}</option>
+                  ))}
+                </select>
+                <div className="form-checkbox" style={{ marginTop: 'var(--spacing-sm)' }}>
+                  <input
+                    type="checkbox"
+                    id="noChains"
+                    checked={noChains}
+                    onChange={(e) => setNoChains(e.target.checked)}
+                  />
+                  <label htmlFor="noChains">No colouring or chains</label>
+                </div>
+                <div className="form-checkbox">
+                  <input
+                    type="checkbox"
+                    id="noUniqueness"
+                    checked={noUniqueness}
+                    onChange={(e) => setNoUniqueness(e.target.checked)}
+                  />
+                  <label htmlFor="noUniqueness">No uniqueness techniques</label>
+                </div>
+                {(requiredTechnique || noChains || noUniqueness) && (
+                  <div className="rating-summary">
+                    Difficulty will follow the profile
+                  </div>
+                )}
+              </div>
+            )}
           
-          {/* Preview */}
-          <div style={{ 
-            marginTop: 'var(--spacing-md)', 
-            padding: 'var(--spacing-md)', 
-            background: 'linear-gradient(135deg, var(--bg-tertiary), var(--bg-secondary))',
-            border: '2px solid var(--grid-lines)',
-            borderRadius: 'var(--radius-md)',
-            textAlign: 'center'
-          }}>
-            <div style={{ 
-              fontSize: 'var(--font-xs)', 
-              color: 'var(--text-muted)', 
-              marginBottom: 'var(--spacing-sm)',
-              fontFamily: 'Press Start 2P, monospace',
-              letterSpacing: '2px'
-            }}>
-              PREVIEW
-            </div>
-            <div style={{ 
-              fontSize: 'var(--font-xl)', 
-              color: 'var(--cyan)',
-              fontFamily: 'VT323, monospace',
-              textShadow: '0 0 10px var(--cyan-glow)'
-            }}>
-              {randomSize ? '?×?' : `${selectedSize}×${selectedSize}`} • {difficulty}
-            </div>
+            {/* Preview */}
             <div style={{ 
-              fontSize: 'var(--font-md)', 
-              color: 'var(--magenta)',
-              marginTop: 'var(--spacing-xs)'
+              marginTop: 'var(--spacing-md)', 
+              padding: 'var(--spacing-md)', 
+              background: 'linear-gradient(135deg, var(--bg-tertiary), var(--bg-secondary))',
+              border: '2px solid var(--grid-lines)',
+              borderRadius: 'var(--radius-md)',
+              textAlign: 'center'
             }}>
-              {symmetry} symmetry
+              <div style={{ 
+                fontSize: 'var(--font-xs)', 
+                color: 'var(--text-muted)', 
+                marginBottom: 'var(--spacing-sm)',
+                fontFamily: 'Press Start 2P, monospace',
+                letterSpacing: '2px'
+              }}>
+                PREVIEW
+              </div>
+              <div style={{ 
+                fontSize: 'var(--font-xl)', 
+                color: 'var(--cyan)',
+                fontFamily: 'VT323, monospace',
+                textShadow: '0 0 10px var(--cyan-glow)'
+              }}>
+                {randomSize ? '?×?' : `${selectedSize}×${selectedSize}`} • {difficulty}
+              </div>
+              <div style={{ 
+                fontSize: 'var(--font-md)', 
+                color: 'var(--magenta)',
+                marginTop: 'var(--spacing-xs)'
+              }}>
+                {symmetry} symmetry{variantNames.length > 0 && ` • ${variantNames.join(' + ')}`}
+              </div>
             </div>
-          </div>
+            </>
+          )}
         </div>
         
         <div className="modal-footer">
-          <button className="btn" onClick={onClose}>Cancel</button>
-          <button className="btn btn-primary" onClick={handleStart}>
-            ▶ Start Game
-          </button>
+          {generationProgress ? (
+            <GenerationStatus progress={generationProgress} onCancel={onClose} />
+          ) : (
+            <>
+              <button className="btn" onClick={onClose}>Cancel</button>
+              <button className="btn btn-primary" onClick={handleStart}>
+                {mode === 'daily'
+                  ? `▶ Play ${dailyDate === getDateString() ? "Today's" : dailyDate} Puzzle`
+                  : '▶ Start Game'}
+              </button>
+            </>
+          )}
         </div>
       </div>
     </div>
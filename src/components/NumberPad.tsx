@@ -3,7 +3,7 @@
  * Input buttons for entering numbers
  */
 
-
+import { getSymbol } from '../utils';
 
 interface NumberPadProps {
   size: number;
@@ -29,7 +29,7 @@ export function NumberPad({ size, isPencilMode, onNumberClick, onClear }: Number
             onClick={() => onNumberClick(num)}
             aria-label={`Enter ${num}${isPencilMode ? ' as pencil mark' : ''}`}
           >
-            {num <= 9 ? num : num.toString(16).toUpperCase()}
+            {getSymbol(num)}
           </button>
         ))}
         <button
@@ -0,0 +1,63 @@
+/**
+ * OutsideClues Component
+ * Sandwich sums and Little Killer totals in the margin around the grid
+ */
+
+import { CSSProperties } from 'react';
+import { OutsideClue } from '../types';
+
+interface OutsideCluesProps {
+  clues: OutsideClue[];
+  size: number;
+}
+
+// Little Killer arrows, keyed by the row and column step of the diagonal
+const DIAGONAL_ARROWS: Record<string, string> = {
+  '1,1': '↘',
+  '1,-1': '↙',
+  '-1,1': '↗',
+  '-1,-1': '↖',
+};
+
+/**
+ * Row and column step from the clue's first cell into the grid
+ */
+function getClueStep(clue: OutsideClue, size: number): { dr: number; dc: number } {
+  return {
+    dr: Math.floor(clue.cells[1] / size) - Math.floor(clue.cells[0] / size),
+    dc: (clue.cells[1] % size) - (clue.cells[0] % size),
+  };
+}
+
+/**
+ * Label position: the outer edge of the clue's first cell, pushed half a
+ * margin further out so the label sits beside the grid rather than on it
+ */
+function getLabelStyle(clue: OutsideClue, size: number): CSSProperties {
+  const row = Math.floor(clue.cells[0] / size);
+  const col = clue.cells[0] % size;
+  const { dr, dc } = getClueStep(clue, size);
+  const x = ((col + 0.5 - dc / 2) / size) * 100;
+  const y = ((row + 0.5 - dr / 2) / size) * 100;
+
+  return {
+    left: `calc(${x}% - ${dc} * var(--clue-margin) / 2)`,
+    top: `calc(${y}% - ${dr} * var(--clue-margin) / 2)`,
+  };
+}
+
+export function OutsideClues({ clues, size }: OutsideCluesProps) {
+  return (
+    <div className="outside-clues" aria-hidden="true">
+      {clues.map((clue, i) => {
+        const { dr, dc } = getClueStep(clue, size);
+        return (
+          <span key={i} className={`outside-clue ${clue.type}`} style={getLabelStyle(clue, size)}>
+            {clue.sum}
+            {clue.type === 'littleKiller' && <span className="clue-arrow">{DIAGONAL_ARROWS[`${dr},${dc}`]}</span>}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
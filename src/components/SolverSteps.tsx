@@ -5,12 +5,14 @@
 
 import { useEffect, useRef, useState } from 'react';
 import { SolveStep } from '../types';
+import { ChainNotation } from './ChainOverlay';
 
 interface SolverStepsProps {
   steps: SolveStep[];
   currentStep: number;
   isPlaying: boolean;
   speed?: number;
+  size?: number;
   onStepChange: (step: number) => void;
   onPlayPause: () => void;
   onClose: () => void;
@@ -20,6 +22,7 @@ export function SolverSteps({
   steps,
   currentStep,
   isPlaying,
+  size = 9,
   onStepChange,
   onPlayPause,
   onClose,
@@ -41,7 +44,7 @@ export function SolverSteps({
     return null;
   }
 
-  const formatCellPosition = (cellIndex: number, size: number = 9) => {
+  const formatCellPosition = (cellIndex: number) => {
     const row = Math.floor(cellIndex / size) + 1;
     const col = (cellIndex % size) + 1;
     return `R${row}C${col}`;
@@ -168,6 +171,9 @@ export function SolverSteps({
           <div className="solver-step-explanation">
             {steps[currentStep].explanation}
           </div>
+          {steps[currentStep].chain && (
+            <ChainNotation chain={steps[currentStep].chain!} size={size} />
+          )}
           {steps[currentStep].cells && steps[currentStep].cells.length > 0 && (
             <div className="solver-step-cells">
               <span style={{ color: 'var(--text-muted)', marginRight: 'var(--spacing-xs)' }}>Cells:</span>
@@ -5,13 +5,30 @@
 
 import React, { memo } from 'react';
 import { Cell } from '../types';
+import { getPencilColumns, getSymbol } from '../utils';
+
+/**
+ * How a cell draws its part of a killer cage outline
+ */
+export interface CageOutline {
+  top: boolean; // Draw the edge: the neighbour on this side is outside the cage
+  right: boolean;
+  bottom: boolean;
+  left: boolean;
+  sum?: number; // Shown in the cage's first cell
+}
 
 interface SudokuCellProps {
   cell: Cell;
   index: number;
   size: number;
+  width?: number; // Canvas columns and rows of a multi-grid layout; `size` for a single grid
+  height?: number;
   blockRows: number;
   blockCols: number;
+  regions?: number[]; // Jigsaw regions, drawn instead of the rectangular boxes
+  inExtraHouse?: boolean; // On a diagonal or in a window, which are shaded
+  cage?: CageOutline;
   isSelected: boolean;
   showConflicts: boolean;
   showHighlights: boolean;
@@ -22,19 +39,28 @@ function SudokuCellComponent({
   cell,
   index,
   size,
+  width = size,
+  height = size,
   blockRows,
   blockCols,
+  regions,
+  inExtraHouse,
+  cage,
   isSelected,
   showConflicts,
   showHighlights,
   onClick,
 }: SudokuCellProps) {
-  const row = Math.floor(index / size);
-  const col = index % size;
+  const row = Math.floor(index / width);
+  const col = index % width;
   
   // Determine block borders
-  const isBlockRight = (col + 1) % blockCols === 0 && col < size - 1;
-  const isBlockBottom = (row + 1) % blockRows === 0 && row < size - 1;
+  const isBlockRight = col < width - 1 && (regions
+    ? regions[index] !== regions[index + 1]
+    : (col + 1) % blockCols === 0);
+  const isBlockBottom = row < height - 1 && (regions
+    ? regions[index] !== regions[index + width]
+    : (row + 1) % blockRows === 0);
   
   // Build class names
   const classNames = ['sudoku-cell'];
@@ -44,28 +70,57 @@ function SudokuCellComponent({
   if (showHighlights && cell.isHighlighted) classNames.push('highlighted');
   if (isBlockRight) classNames.push('block-right');
   if (isBlockBottom) classNames.push('block-bottom');
+  if (inExtraHouse) classNames.push('extra-house');
+  if (cage) classNames.push('caged');
   
   // Render pencil marks grid
   const renderPencilMarks = () => {
     if (cell.value !== 0 || cell.pencilMarks.size === 0) return null;
     
-    const gridSize = size <= 9 ? 3 : 4;
+    const columns = getPencilColumns(size);
     const marks: React.ReactNode[] = [];
     
     for (let i = 1; i <= size; i++) {
       marks.push(
         <span key={i} className="pencil-mark">
-          {cell.pencilMarks.has(i) ? i : ''}
+          {cell.pencilMarks.has(i) ? getSymbol(i) : ''}
         </span>
       );
     }
     
     // Fill remaining cells for grid alignment
-    while (marks.length < gridSize * gridSize) {
+    while (marks.length % columns !== 0) {
       marks.push(<span key={`empty-${marks.length}`} className="pencil-mark" />);
     }
     
-    return <div className="pencil-marks">{marks}</div>;
+    return (
+      <div
+        className="pencil-marks"
+        style={{
+          gridTemplateColumns: `repeat(${columns}, 1fr)`,
+          gridTemplateRows: `repeat(${marks.length / columns}, 1fr)`,
+        }}
+      >
+        {marks}
+      </div>
+    );
+  };
+  
+  // Render this cell's share of the cage outline
+  const renderCage = () => {
+    if (!cage) return null;
+    
+    const edgeClassNames = ['cage-outline'];
+    if (cage.top) edgeClassNames.push('edge-top');
+    if (cage.right) edgeClassNames.push('edge-right');
+    if (cage.bottom) edgeClassNames.push('edge-bottom');
+    if (cage.left) edgeClassNames.push('edge-left');
+    
+    return (
+      <div className={edgeClassNames.join(' ')} aria-hidden="true">
+        {cage.sum !== undefined && <span className="cage-sum">{cage.sum}</span>}
+      </div>
+    );
   };
   
   // Render cell value
@@ -77,12 +132,7 @@ function SudokuCellComponent({
     else valueClassNames.push('entered');
     if (showConflicts && cell.isConflict) valueClassNames.push('conflict');
     
-    // For sizes > 9, use hex or letters
-    const displayValue = cell.value <= 9 
-      ? cell.value.toString() 
-      : cell.value.toString(16).toUpperCase();
-    
-    return <span className={valueClassNames.join(' ')}>{displayValue}</span>;
+    return <span className={valueClassNames.join(' ')}>{getSymbol(cell.value)}</span>;
   };
   
   return (
@@ -92,6 +142,8 @@ function SudokuCellComponent({
       role="button"
       tabIndex={0}
       aria-label={`Cell row ${row + 1} column ${col + 1}${
+        cage?.sum !== undefined ? `, cage sum ${cage.sum}` : ''
+      }${
         cell.value ? `, value ${cell.value}` : ', empty'
       }${cell.given ? ', given' : ''}${cell.isConflict ? ', conflict' : ''}`}
       onKeyDown={(e) => {
@@ -100,6 +152,7 @@ function SudokuCellComponent({
         }
       }}
     >
+      {renderCage()}
       {cell.value === 0 ? renderPencilMarks() : renderValue()}
     </div>
   );
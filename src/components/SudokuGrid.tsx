@@ -3,19 +3,49 @@
  * Main puzzle grid display
  */
 
-import { useCallback } from 'react';
-import { Cell } from '../types';
-import { SudokuCell } from './SudokuCell';
+import { useCallback, useMemo } from 'react';
+import { Cage, Cell, ChainNode, PuzzleVariant } from '../types';
+import { SudokuCell, CageOutline } from './SudokuCell';
+import { ChainOverlay } from './ChainOverlay';
+import { VariantOverlay } from './VariantOverlay';
+import { OutsideClues } from './OutsideClues';
+import { getExtraHouses } from '../solver';
+
+/**
+ * Outline edges for every caged cell, with the sum in each cage's first cell
+ */
+function getCageOutlines(cages: Cage[], size: number): (CageOutline | undefined)[] {
+  const cageOf = new Array<number>(size * size).fill(-1);
+  cages.forEach((cage, index) => cage.cells.forEach(cell => { cageOf[cell] = index; }));
+  
+  const sameCage = (cell: number, row: number, col: number) =>
+    row >= 0 && row < size && col >= 0 && col < size && cageOf[row * size + col] === cageOf[cell];
+  
+  return cageOf.map((cage, cell) => {
+    if (cage === -1) return undefined;
+    const row = Math.floor(cell / size);
+    const col = cell % size;
+    return {
+      top: !sameCage(cell, row - 1, col),
+      right: !sameCage(cell, row, col + 1),
+      bottom: !sameCage(cell, row + 1, col),
+      left: !sameCage(cell, row, col - 1),
+      sum: Math.min(...cages[cage].cells) === cell ? cages[cage].sum : undefined,
+    };
+  });
+}
 
 interface SudokuGridProps {
   cells: Cell[];
   size: number;
   blockRows: number;
   blockCols: number;
+  variant?: PuzzleVariant; // Variant rules to draw, e.g. killer cages, jigsaw regions, diagonals or thermometers
   selectedCell: number | null;
   isPencilMode?: boolean; // Optional, not passed to cells
   showConflicts: boolean;
   showHighlights: boolean;
+  chain?: ChainNode[]; // Chain technique links to draw over the cells
   onCellClick: (index: number) => void;
 }
 
@@ -24,9 +54,11 @@ export function SudokuGrid({
   size,
   blockRows,
   blockCols,
+  variant,
   selectedCell,
   showConflicts,
   showHighlights,
+  chain,
   onCellClick,
 }: SudokuGridProps) {
   const handleCellClick = useCallback(
@@ -36,9 +68,20 @@ export function SudokuGrid({
     [onCellClick]
   );
   
-  return (
+  const cageOutlines = useMemo(
+    () => getCageOutlines(variant?.cages ?? [], size),
+    [variant?.cages, size]
+  );
+  
+  const extraHouseCells = useMemo(
+    () => new Set(getExtraHouses(size, blockRows, blockCols, variant).flatMap(house => house.indices)),
+    [variant, size, blockRows, blockCols]
+  );
+  
+  const grid = (
     <div 
       className={`sudoku-grid size-${size} crt-glow`}
+      style={{ gridTemplateColumns: `repeat(${size}, 1fr)` }}
       role="grid"
       aria-label={`${size} by ${size} Sudoku puzzle`}
     >
@@ -50,12 +93,28 @@ export function SudokuGrid({
           size={size}
           blockRows={blockRows}
           blockCols={blockCols}
+          regions={variant?.regions}
+          inExtraHouse={extraHouseCells.has(index)}
+          cage={cageOutlines[index]}
           isSelected={selectedCell === index}
           showConflicts={showConflicts}
           showHighlights={showHighlights}
           onClick={handleCellClick(index)}
         />
       ))}
+      
+      {variant?.overlays && <VariantOverlay overlays={variant.overlays} size={size} />}
+      {chain && <ChainOverlay chain={chain} size={size} />}
+    </div>
+  );
+  
+  if (!variant?.outsideClues?.length) return grid;
+  
+  // Sandwich and Little Killer clues need a margin around the grid to sit in
+  return (
+    <div className="clue-frame">
+      {grid}
+      <OutsideClues clues={variant.outsideClues} size={size} />
     </div>
   );
 }
@@ -0,0 +1,164 @@
+/**
+ * VariantOverlay Component
+ * Draws thermometers, arrows, greater-than signs, Kropki dots and XV signs over the grid
+ */
+
+import { ConstraintOverlay } from '../types';
+
+interface VariantOverlayProps {
+  overlays: ConstraintOverlay[];
+  size: number;
+  draft?: ConstraintOverlay; // Overlay still being drawn in the editor
+}
+
+const BULB_RADIUS = 0.32;
+const CIRCLE_RADIUS = 0.38;
+const ARROW_HEAD = 0.22;
+const CHEVRON_DEPTH = 0.07;
+const CHEVRON_WIDTH = 0.13;
+const DOT_RADIUS = 0.1;
+
+/**
+ * Centre of a cell, in cell units
+ */
+function getCellCentre(cell: number, size: number): { x: number; y: number } {
+  return { x: (cell % size) + 0.5, y: Math.floor(cell / size) + 0.5 };
+}
+
+/**
+ * Points of an SVG polyline
+ */
+function toPoints(points: { x: number; y: number }[]): string {
+  return points.map(point => `${point.x},${point.y}`).join(' ');
+}
+
+/**
+ * Bulb and tube through the cell centres
+ */
+function renderThermo(cells: number[], size: number, key: string, className: string) {
+  const points = cells.map(cell => getCellCentre(cell, size));
+  return (
+    <g key={key} className={`thermo ${className}`}>
+      <circle cx={points[0].x} cy={points[0].y} r={BULB_RADIUS} />
+      {points.length > 1 && <polyline points={toPoints(points)} />}
+    </g>
+  );
+}
+
+/**
+ * Circle with a line leaving its edge and a head on the last cell
+ */
+function renderArrow(cells: number[], size: number, key: string, className: string) {
+  const points = cells.map(cell => getCellCentre(cell, size));
+  const circle = points[0];
+  if (points.length < 2) {
+    return <circle key={key} className={`arrow-circle ${className}`} cx={circle.x} cy={circle.y} r={CIRCLE_RADIUS} />;
+  }
+
+  // The line starts on the circle's edge, heading for the first path cell
+  const first = points[1];
+  const length = Math.hypot(first.x - circle.x, first.y - circle.y);
+  const start = {
+    x: circle.x + ((first.x - circle.x) / length) * CIRCLE_RADIUS,
+    y: circle.y + ((first.y - circle.y) / length) * CIRCLE_RADIUS,
+  };
+
+  const tip = points[points.length - 1];
+  const before = points[points.length - 2];
+  const angle = Math.atan2(tip.y - before.y, tip.x - before.x);
+  const barb = (turn: number) => ({
+    x: tip.x - ARROW_HEAD * Math.cos(angle + turn),
+    y: tip.y - ARROW_HEAD * Math.sin(angle + turn),
+  });
+
+  return (
+    <g key={key} className={`arrow ${className}`}>
+      <circle className="arrow-circle" cx={circle.x} cy={circle.y} r={CIRCLE_RADIUS} />
+      <polyline points={toPoints([start, ...points.slice(1)])} />
+      <polyline points={toPoints([barb(Math.PI / 6), tip, barb(-Math.PI / 6)])} />
+    </g>
+  );
+}
+
+/**
+ * Chevron on the shared edge, its tip pointing at the smaller digit
+ */
+function renderGreater(cells: number[], size: number, key: string, className: string) {
+  if (cells.length < 2) return null;
+  const larger = getCellCentre(cells[0], size);
+  const smaller = getCellCentre(cells[1], size);
+  const dx = smaller.x - larger.x;
+  const dy = smaller.y - larger.y;
+  const middle = { x: (larger.x + smaller.x) / 2, y: (larger.y + smaller.y) / 2 };
+
+  return (
+    <polyline
+      key={key}
+      className={`greater-sign ${className}`}
+      points={toPoints([
+        { x: middle.x - dx * CHEVRON_DEPTH - dy * CHEVRON_WIDTH, y: middle.y - dy * CHEVRON_DEPTH + dx * CHEVRON_WIDTH },
+        { x: middle.x + dx * CHEVRON_DEPTH, y: middle.y + dy * CHEVRON_DEPTH },
+        { x: middle.x - dx * CHEVRON_DEPTH + dy * CHEVRON_WIDTH, y: middle.y - dy * CHEVRON_DEPTH - dx * CHEVRON_WIDTH },
+      ])}
+    />
+  );
+}
+
+/**
+ * Middle of the edge two neighbouring cells share
+ */
+function getEdgeMiddle(cells: number[], size: number): { x: number; y: number } {
+  const a = getCellCentre(cells[0], size);
+  const b = getCellCentre(cells[1], size);
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+}
+
+/**
+ * Shape for one overlay; `className` marks the draft
+ */
+function renderOverlay(overlay: ConstraintOverlay, size: number, key: string, className = '') {
+  switch (overlay.type) {
+    case 'thermo':
+      return renderThermo(overlay.cells, size, key, className);
+    case 'arrow':
+      return renderArrow(overlay.cells, size, key, className);
+    case 'greater':
+      return renderGreater(overlay.cells, size, key, className);
+    case 'kropki': {
+      const middle = getEdgeMiddle(overlay.cells, size);
+      return (
+        <circle
+          key={key}
+          className={`kropki-dot ${overlay.color} ${className}`}
+          cx={middle.x}
+          cy={middle.y}
+          r={DOT_RADIUS}
+        />
+      );
+    }
+    case 'xv': {
+      const middle = getEdgeMiddle(overlay.cells, size);
+      return (
+        <text key={key} className={`xv-sign ${className}`} x={middle.x} y={middle.y}>
+          {overlay.sum === 10 ? 'X' : 'V'}
+        </text>
+      );
+    }
+  }
+}
+
+export function VariantOverlay({ overlays, size, draft }: VariantOverlayProps) {
+  if (overlays.length === 0 && !draft) return null;
+
+  return (
+    <svg
+      className="variant-overlay"
+      viewBox={`0 0 ${size} ${size}`}
+      preserveAspectRatio="none"
+      aria-hidden="true"
+    >
+      {overlays.map((overlay, i) => renderOverlay(overlay, size, `overlay-${i}`))}
+      {draft && renderOverlay(draft, size, 'draft', 'draft')}
+    </svg>
+  );
+}
@@ -4,12 +4,13 @@
  */
 
 import { useEffect, useState } from 'react';
-import { Difficulty } from '../types';
+import { Difficulty, PuzzleRating } from '../types';
 
 interface VictoryModalProps {
   isOpen: boolean;
   time: number;
   difficulty: Difficulty;
+  rating?: PuzzleRating;
   size: number;
   isNewRecord: boolean;
   solverTimeMs?: number;
@@ -22,6 +23,7 @@ export function VictoryModal({
   isOpen,
   time,
   difficulty,
+  rating,
   size,
   isNewRecord,
   solverTimeMs,
@@ -118,6 +120,15 @@ export function VictoryModal({
               <span className="victory-stat-value">{difficulty}</span>
             </div>
             
+            {rating && (
+              <div className="victory-stat">
+                <span className="victory-stat-label">Rating</span>
+                <span className="victory-stat-value" title={`${rating.steps} steps, ${rating.bottlenecks} without a single`}>
+                  {rating.score.toFixed(1)} • {rating.hardestTechnique}
+                </span>
+              </div>
+            )}
+            
             <div className="victory-stat">
               <span className="victory-stat-label">Grid Size</span>
               <span className="victory-stat-value">{size}×{size}</span>
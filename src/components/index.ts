@@ -1,15 +1,23 @@
 // Components barrel export
 export { SudokuCell } from './SudokuCell';
 export { SudokuGrid } from './SudokuGrid';
+export { MultiGrid } from './MultiGrid';
+export { ChainOverlay, ChainNotation } from './ChainOverlay';
+export { VariantOverlay } from './VariantOverlay';
+export { OutsideClues } from './OutsideClues';
 export { NumberPad } from './NumberPad';
 export { Timer } from './Timer';
 export { GameControls } from './GameControls';
+export { HistoryTree } from './HistoryTree';
 export { NewGameModal } from './NewGameModal';
+export { GenerationStatus } from './GenerationStatus';
 export { CustomPuzzleModal } from './CustomPuzzleModal';
 export { VictoryModal } from './VictoryModal';
 export { HintDisplay } from './HintDisplay';
 export { SolverSteps } from './SolverSteps';
 export { SavedGamesModal } from './SavedGamesModal';
+export { LibraryModal } from './LibraryModal';
+export { DailyCalendar } from './DailyCalendar';
 export { SettingsModal } from './SettingsModal';
 export { StatsModal } from './StatsModal';
 export { HelpModal } from './HelpModal';
@@ -3,16 +3,29 @@
  * Handles game logic, history, conflicts, and game state
  */
 
-import { Cell, GameState, HistoryEntry, Puzzle } from '../types';
-import { getPeers, solvePuzzle } from '../solver';
+import {
+  Cell,
+  CellChange,
+  GameState,
+  GridLayout,
+  HintResult,
+  HistoryEntry,
+  HistoryNode,
+  Puzzle,
+  PuzzleVariant,
+  SavedGame,
+} from '../types';
+import { getActiveCells, getPeers, solvePuzzle, findRuleViolations } from '../solver';
 
 /**
- * Initialize cells from puzzle
+ * Initialize cells from puzzle. Canvas cells outside every grid of a layout
+ * count as given, so they can never be edited.
  */
 export function initializeCells(puzzle: Puzzle): Cell[] {
-  return puzzle.cells.map((value) => ({
+  const active = getActiveCells(puzzle.size, puzzle);
+  return puzzle.cells.map((value, index) => ({
     value,
-    given: value !== 0,
+    given: value !== 0 || !active[index],
     pencilMarks: new Set<number>(),
     isConflict: false,
     isHighlighted: false,
@@ -20,6 +33,13 @@ export function initializeCells(puzzle: Puzzle): Cell[] {
   }));
 }
 
+/**
+ * The undo tree of a new game: only the starting position
+ */
+function createHistory(): HistoryNode[] {
+  return [{ id: 0, parent: null, entry: null, children: [], redoChild: null }];
+}
+
 /**
  * Create initial game state
  */
@@ -27,8 +47,8 @@ export function createGameState(puzzle: Puzzle): GameState {
   return {
     puzzle,
     cells: initializeCells(puzzle),
-    history: [],
-    historyIndex: -1,
+    history: createHistory(),
+    currentNode: 0,
     selectedCell: null,
     isPencilMode: false,
     isComplete: false,
@@ -39,20 +59,51 @@ export function createGameState(puzzle: Puzzle): GameState {
 }
 
 /**
- * Find all conflicts in the grid
+ * Create a game state that picks up a shared game where it was left
+ */
+export function restoreGameState(puzzle: Puzzle, values: number[], pencilMarks: Set<number>[]): GameState {
+  const state = createGameState(puzzle);
+  const cells = state.cells.map((cell, index) =>
+    cell.given ? cell : { ...cell, value: values[index], pencilMarks: new Set(pencilMarks[index]) }
+  );
+  return { ...state, cells: updateConflicts({ ...state, cells }) };
+}
+
+/**
+ * Create a game state that picks up a saved game, with its undo tree and
+ * checkpoints when it was saved with them
+ */
+export function restoreSavedGame(savedGame: SavedGame): GameState {
+  const state = createGameState(savedGame.puzzle);
+  state.cells = savedGame.cells.map(cell => ({
+    ...cell,
+    pencilMarks: new Set(cell.pencilMarks),
+  }));
+  if (savedGame.history && savedGame.currentNode !== undefined) {
+    state.history = savedGame.history;
+    state.currentNode = savedGame.currentNode;
+  }
+  state.elapsedTime = savedGame.elapsedTime;
+  state.startTime = Date.now() - savedGame.elapsedTime;
+  return state;
+}
+
+/**
+ * Find all conflicts in the grid, including broken variant rules such as a wrong cage sum
  */
 export function findConflicts(
   cells: Cell[],
   size: number,
   blockRows: number,
-  blockCols: number
+  blockCols: number,
+  variant?: PuzzleVariant
 ): Set<number> {
   const conflicts = new Set<number>();
   
   for (let i = 0; i < cells.length; i++) {
     if (cells[i].value === 0) continue;
     
-    const peers = getPeers(i, size, blockRows, blockCols);
+    const peers = getPeers(i, size, blockRows, blockCols, variant);
     for (const peer of peers) {
       if (cells[peer].value === cells[i].value) {
         conflicts.add(i);
@@ -61,6 +112,11 @@ export function findConflicts(
     }
   }
   
+  const values = cells.map(cell => cell.value);
+  for (const cell of findRuleViolations(values, size, variant)) {
+    conflicts.add(cell);
+  }
+  
   return conflicts;
 }
 
@@ -69,7 +125,7 @@ export function findConflicts(
  */
 export function updateConflicts(state: GameState): Cell[] {
   const { cells, puzzle } = state;
-  const conflicts = findConflicts(cells, puzzle.size, puzzle.blockRows, puzzle.blockCols);
+  const conflicts = findConflicts(cells, puzzle.size, puzzle.blockRows, puzzle.blockCols, puzzle);
   
   return cells.map((cell, index) => ({
     ...cell,
@@ -82,14 +138,15 @@ export function updateConflicts(state: GameState): Cell[] {
  */
 export function checkCompletion(state: GameState): boolean {
   const { cells, puzzle } = state;
+  const active = getActiveCells(puzzle.size, puzzle);
   
   // Check if all cells are filled
-  if (cells.some(cell => cell.value === 0)) {
+  if (cells.some((cell, index) => cell.value === 0 && active[index])) {
     return false;
   }
   
   // Check for conflicts
-  const conflicts = findConflicts(cells, puzzle.size, puzzle.blockRows, puzzle.blockCols);
+  const conflicts = findConflicts(cells, puzzle.size, puzzle.blockRows, puzzle.blockCols, puzzle);
   if (conflicts.size > 0) {
     return false;
   }
@@ -102,6 +159,76 @@ export function checkCompletion(state: GameState): boolean {
   return true;
 }
 
+/**
+ * Record the cells that differ between two grids as one history entry
+ */
+function diffCells(before: Cell[], after: Cell[]): HistoryEntry {
+  const changes: CellChange[] = [];
+  for (let i = 0; i < before.length; i++) {
+    const previous = before[i];
+    const next = after[i];
+    if (
+      previous.value !== next.value ||
+      previous.pencilMarks.size !== next.pencilMarks.size ||
+      [...previous.pencilMarks].some(mark => !next.pencilMarks.has(mark))
+    ) {
+      changes.push({
+        cellIndex: i,
+        previousValue: previous.value,
+        previousPencilMarks: Array.from(previous.pencilMarks),
+        newValue: next.value,
+        newPencilMarks: Array.from(next.pencilMarks),
+      });
+    }
+  }
+  return { changes };
+}
+
+/**
+ * Move to new cells as a single undoable step, a new branch of the undo tree
+ * from the current position. An edit that changes nothing is not recorded.
+ */
+function commitCells(state: GameState, newCells: Cell[]): GameState {
+  const entry = diffCells(state.cells, newCells);
+  if (entry.changes.length === 0) {
+    return state;
+  }
+  
+  // Moves undone before this one stay in the tree as a sibling branch
+  const id = state.history.length;
+  const parent = state.history[state.currentNode];
+  const newHistory = [...state.history];
+  newHistory[parent.id] = { ...parent, children: [...parent.children, id], redoChild: id };
+  newHistory.push({ id, parent: parent.id, entry, children: [], redoChild: null });
+  
+  const newState: GameState = {
+    ...state,
+    cells: newCells,
+    history: newHistory,
+    currentNode: id,
+  };
+  
+  newState.cells = updateConflicts(newState);
+  newState.isComplete = checkCompletion(newState);
+  
+  return newState;
+}
+
+/**
+ * Put one side of a history entry back on the grid
+ */
+function applyEntry(cells: Cell[], entry: HistoryEntry, side: 'previous' | 'new'): Cell[] {
+  const newCells = [...cells];
+  for (const change of entry.changes) {
+    newCells[change.cellIndex] = {
+      ...newCells[change.cellIndex],
+      value: side === 'previous' ? change.previousValue : change.newValue,
+      pencilMarks: new Set(side === 'previous' ? change.previousPencilMarks : change.newPencilMarks),
+    };
+  }
+  return newCells;
+}
+
 /**
  * Set a cell value with history tracking
  */
@@ -117,16 +244,6 @@ export function setCellValue(
     return state;
   }
   
-  // Create history entry
-  const historyEntry: HistoryEntry = {
-    cellIndex,
-    previousValue: cell.value,
-    previousPencilMarks: Array.from(cell.pencilMarks),
-    newValue: value,
-    newPencilMarks: [],
-  };
-  
-  // Update cells
   const newCells = state.cells.map((c, i) => {
     if (i === cellIndex) {
       return {
@@ -138,24 +255,7 @@ export function setCellValue(
     return c;
   });
   
-  // Truncate future history if we're in the middle
-  const newHistory = state.history.slice(0, state.historyIndex + 1);
-  newHistory.push(historyEntry);
-  
-  const newState: GameState = {
-    ...state,
-    cells: newCells,
-    history: newHistory,
-    historyIndex: newHistory.length - 1,
-  };
-  
-  // Update conflicts
-  newState.cells = updateConflicts(newState);
-  
-  // Check completion
-  newState.isComplete = checkCompletion(newState);
-  
-  return newState;
+  return commitCells(state, newCells);
 }
 
 /**
@@ -180,16 +280,6 @@ export function togglePencilMark(
     newPencilMarks.add(value);
   }
   
-  // Create history entry
-  const historyEntry: HistoryEntry = {
-    cellIndex,
-    previousValue: 0,
-    previousPencilMarks: Array.from(cell.pencilMarks),
-    newValue: 0,
-    newPencilMarks: Array.from(newPencilMarks),
-  };
-  
-  // Update cells
   const newCells = state.cells.map((c, i) => {
     if (i === cellIndex) {
       return {
@@ -200,15 +290,7 @@ export function togglePencilMark(
     return c;
   });
   
-  const newHistory = state.history.slice(0, state.historyIndex + 1);
-  newHistory.push(historyEntry);
-  
-  return {
-    ...state,
-    cells: newCells,
-    history: newHistory,
-    historyIndex: newHistory.length - 1,
-  };
+  return commitCells(state, newCells);
 }
 
 /**
@@ -221,15 +303,6 @@ export function clearCell(state: GameState, cellIndex: number): GameState {
     return state;
   }
   
-  // Create history entry
-  const historyEntry: HistoryEntry = {
-    cellIndex,
-    previousValue: cell.value,
-    previousPencilMarks: Array.from(cell.pencilMarks),
-    newValue: 0,
-    newPencilMarks: [],
-  };
-  
   const newCells = state.cells.map((c, i) => {
     if (i === cellIndex) {
       return {
@@ -241,80 +314,112 @@ export function clearCell(state: GameState, cellIndex: number): GameState {
     return c;
   });
   
-  const newHistory = state.history.slice(0, state.historyIndex + 1);
-  newHistory.push(historyEntry);
+  return commitCells(state, newCells);
+}
+
+/**
+ * Undo last action, with every cell it touched
+ */
+export function undo(state: GameState): GameState {
+  const node = state.history[state.currentNode];
+  if (node.parent === null) {
+    return state;
+  }
+  
+  // Redo comes back down the branch just left
+  const newHistory = [...state.history];
+  newHistory[node.parent] = { ...newHistory[node.parent], redoChild: node.id };
   
   const newState: GameState = {
     ...state,
-    cells: newCells,
+    cells: applyEntry(state.cells, node.entry!, 'previous'),
     history: newHistory,
-    historyIndex: newHistory.length - 1,
-    isComplete: false,
+    currentNode: node.parent,
   };
   
   newState.cells = updateConflicts(newState);
+  newState.isComplete = checkCompletion(newState);
   
   return newState;
 }
 
 /**
- * Undo last action
+ * Redo last undone action, with every cell it touched
  */
-export function undo(state: GameState): GameState {
-  if (state.historyIndex < 0) {
+export function redo(state: GameState): GameState {
+  const next = state.history[state.currentNode].redoChild;
+  if (next === null) {
     return state;
   }
   
-  const entry = state.history[state.historyIndex];
-  
-  const newCells = state.cells.map((c, i) => {
-    if (i === entry.cellIndex) {
-      return {
-        ...c,
-        value: entry.previousValue,
-        pencilMarks: new Set(entry.previousPencilMarks),
-      };
-    }
-    return c;
-  });
-  
   const newState: GameState = {
     ...state,
-    cells: newCells,
-    historyIndex: state.historyIndex - 1,
-    isComplete: false,
+    cells: applyEntry(state.cells, state.history[next].entry!, 'new'),
+    currentNode: next,
   };
   
   newState.cells = updateConflicts(newState);
+  newState.isComplete = checkCompletion(newState);
   
   return newState;
 }
 
 /**
- * Redo last undone action
+ * Whether there is a move to undo
  */
-export function redo(state: GameState): GameState {
-  if (state.historyIndex >= state.history.length - 1) {
+export function canUndo(state: GameState): boolean {
+  return state.history[state.currentNode].parent !== null;
+}
+
+/**
+ * Whether there is an undone move to redo
+ */
+export function canRedo(state: GameState): boolean {
+  return state.history[state.currentNode].redoChild !== null;
+}
+
+/**
+ * Ids from a node up to the root of the undo tree
+ */
+function getPathToRoot(history: HistoryNode[], id: number): number[] {
+  const path: number[] = [];
+  for (let node: number | null = id; node !== null; node = history[node].parent) {
+    path.push(node);
+  }
+  return path;
+}
+
+/**
+ * Move to any position in the undo tree, such as a checkpoint: undo back to
+ * where its branch meets the current one, then redo down to it
+ */
+export function jumpToNode(state: GameState, nodeId: number): GameState {
+  if (nodeId === state.currentNode || !state.history[nodeId]) {
     return state;
   }
   
-  const entry = state.history[state.historyIndex + 1];
+  const from = getPathToRoot(state.history, state.currentNode);
+  const to = getPathToRoot(state.history, nodeId);
+  const meet = from.find(id => to.includes(id))!;
   
-  const newCells = state.cells.map((c, i) => {
-    if (i === entry.cellIndex) {
-      return {
-        ...c,
-        value: entry.newValue,
-        pencilMarks: new Set(entry.newPencilMarks),
-      };
-    }
-    return c;
-  });
+  let cells = state.cells;
+  for (const id of from.slice(0, from.indexOf(meet))) {
+    cells = applyEntry(cells, state.history[id].entry!, 'previous');
+  }
+  
+  // Redo from anywhere on the way down follows the way taken
+  const newHistory = [...state.history];
+  for (const id of to.slice(0, to.indexOf(meet)).reverse()) {
+    const node = state.history[id];
+    cells = applyEntry(cells, node.entry!, 'new');
+    newHistory[node.parent!] = { ...newHistory[node.parent!], redoChild: id };
+  }
   
   const newState: GameState = {
     ...state,
-    cells: newCells,
-    historyIndex: state.historyIndex + 1,
+    cells,
+    history: newHistory,
+    currentNode: nodeId,
   };
   
   newState.cells = updateConflicts(newState);
@@ -323,6 +428,27 @@ export function redo(state: GameState): GameState {
   return newState;
 }
 
+/**
+ * Bookmark a position of the undo tree, the current one by default.
+ * An empty name removes the bookmark.
+ */
+export function setCheckpoint(state: GameState, name: string, nodeId: number = state.currentNode): GameState {
+  const newHistory = [...state.history];
+  newHistory[nodeId] = { ...newHistory[nodeId], checkpoint: name.trim() || undefined };
+  
+  return {
+    ...state,
+    history: newHistory,
+  };
+}
+
+/**
+ * Positions the player bookmarked, oldest first
+ */
+export function getCheckpoints(state: GameState): HistoryNode[] {
+  return state.history.filter(node => node.checkpoint);
+}
+
 /**
  * Auto-solve the puzzle
  */
@@ -333,7 +459,8 @@ export function autoSolve(state: GameState): { state: GameState; timeMs: number
     puzzle.cells,
     puzzle.size,
     puzzle.blockRows,
-    puzzle.blockCols
+    puzzle.blockCols,
+    puzzle
   );
   
   if (!result.solved) {
@@ -358,7 +485,7 @@ export function autoSolve(state: GameState): { state: GameState; timeMs: number
 }
 
 /**
- * Fill all pencil marks with valid candidates
+ * Fill all pencil marks with valid candidates, as one undoable step
  */
 export function fillAllPencilMarks(state: GameState): GameState {
   const { cells, puzzle } = state;
@@ -375,7 +502,7 @@ export function fillAllPencilMarks(state: GameState): GameState {
     }
     
     // Remove candidates based on peers
-    const peers = getPeers(index, size, blockRows, blockCols);
+    const peers = getPeers(index, size, blockRows, blockCols, puzzle);
     for (const peer of peers) {
       candidates.delete(cells[peer].value);
     }
@@ -386,10 +513,7 @@ export function fillAllPencilMarks(state: GameState): GameState {
     };
   });
   
-  return {
-    ...state,
-    cells: newCells,
-  };
+  return commitCells(state, newCells);
 }
 
 /**
@@ -401,10 +525,7 @@ export function clearAllPencilMarks(state: GameState): GameState {
     pencilMarks: new Set<number>(),
   }));
   
-  return {
-    ...state,
-    cells: newCells,
-  };
+  return commitCells(state, newCells);
 }
 
 /**
@@ -454,30 +575,43 @@ export function selectCell(state: GameState, cellIndex: number | null): GameStat
 }
 
 /**
- * Get navigation target based on arrow key
+ * Get navigation target based on arrow key. On a multi-grid layout the
+ * move runs across the whole canvas and skips the gaps between grids.
  */
 export function getNavigationTarget(
   currentIndex: number | null,
   direction: 'up' | 'down' | 'left' | 'right',
-  size: number
+  size: number,
+  layout?: GridLayout
 ): number {
   if (currentIndex === null) {
     return 0;
   }
   
-  const row = Math.floor(currentIndex / size);
-  const col = currentIndex % size;
-  
-  switch (direction) {
-    case 'up':
-      return ((row - 1 + size) % size) * size + col;
-    case 'down':
-      return ((row + 1) % size) * size + col;
-    case 'left':
-      return row * size + ((col - 1 + size) % size);
-    case 'right':
-      return row * size + ((col + 1) % size);
-  }
+  const width = layout?.width ?? size;
+  const height = layout?.height ?? size;
+  const active = getActiveCells(size, { layout });
+  let row = Math.floor(currentIndex / width);
+  let col = currentIndex % width;
+  
+  do {
+    switch (direction) {
+      case 'up':
+        row = (row - 1 + height) % height;
+        break;
+      case 'down':
+        row = (row + 1) % height;
+        break;
+      case 'left':
+        col = (col - 1 + width) % width;
+        break;
+      case 'right':
+        col = (col + 1) % width;
+        break;
+    }
+  } while (!active[row * width + col]);
+  
+  return row * width + col;
 }
 
 /**
@@ -487,8 +621,8 @@ export function resetGame(state: GameState): GameState {
   return {
     ...state,
     cells: initializeCells(state.puzzle),
-    history: [],
-    historyIndex: -1,
+    history: createHistory(),
+    currentNode: 0,
     selectedCell: null,
     isPencilMode: false,
     isComplete: false,
@@ -560,18 +694,9 @@ export function setCellValueSmart(
   }
   
   const { size, blockRows, blockCols } = state.puzzle;
-  const peers = getPeers(cellIndex, size, blockRows, blockCols);
-  
-  // Create history entry for main cell
-  const historyEntry: HistoryEntry = {
-    cellIndex,
-    previousValue: cell.value,
-    previousPencilMarks: Array.from(cell.pencilMarks),
-    newValue: value,
-    newPencilMarks: [],
-  };
+  const peers = getPeers(cellIndex, size, blockRows, blockCols, state.puzzle);
   
-  // Update cells: set value and remove pencil marks from peers
+  // Update cells: set value and remove pencil marks from peers, undone together
   const newCells = state.cells.map((c, i) => {
     if (i === cellIndex) {
       return {
@@ -594,18 +719,32 @@ export function setCellValueSmart(
     return c;
   });
   
-  const newHistory = state.history.slice(0, state.historyIndex + 1);
-  newHistory.push(historyEntry);
-  
-  const newState: GameState = {
-    ...state,
-    cells: newCells,
-    history: newHistory,
-    historyIndex: newHistory.length - 1,
-  };
+  return commitCells(state, newCells);
+}
+
+/**
+ * Apply a hint as one undoable step: place its digit, or strike its
+ * eliminated candidates from the cells that have pencil marks
+ */
+export function applyHint(state: GameState, hint: HintResult, smart: boolean): GameState {
+  if (hint.action === 'place') {
+    if (hint.cells.length !== 1) {
+      return state;
+    }
+    const setter = smart ? setCellValueSmart : setCellValue;
+    return setter(state, hint.cells[0], hint.values[0]);
+  }
   
-  newState.cells = updateConflicts(newState);
-  newState.isComplete = checkCompletion(newState);
+  const newCells = [...state.cells];
+  for (const { cell, values } of hint.eliminatedCandidates ?? []) {
+    const marks = newCells[cell].pencilMarks;
+    if (values.some(value => marks.has(value))) {
+      newCells[cell] = {
+        ...newCells[cell],
+        pencilMarks: new Set([...marks].filter(mark => !values.includes(mark))),
+      };
+    }
+  }
   
-  return newState;
+  return commitCells(state, newCells);
 }
@@ -0,0 +1,149 @@
+/**
+ * Async Solver API
+ * Promise-based generation, solving and rating on a Web Worker.
+ * Falls back to running synchronously where workers are unavailable (Vitest, SSR).
+ */
+
+import { Puzzle, PuzzleConfig, PuzzleRating, Difficulty, Symmetry, SolverResult } from '../types';
+import {
+  CheckProgress,
+  PuzzleCheck,
+  runSolverTask,
+  SolverTask,
+  SolverTaskProgress,
+  SolverTaskResult,
+  SolverWorkerMessage,
+} from './workerTasks';
+import { TechniqueProfile, GenerationProgress } from './generator';
+import { VariantOptions } from './variantGenerator';
+
+export interface AsyncTaskOptions<P = GenerationProgress> {
+  signal?: AbortSignal;
+  onProgress?: (progress: P) => void;
+}
+
+/**
+ * Error used to reject a task that was cancelled through its AbortSignal
+ */
+function createAbortError(): Error {
+  const error = new Error('Solver task was cancelled');
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * Whether a rejection came from cancelling the task
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * Run a task on a fresh worker, terminating it when the task ends or is cancelled.
+ * A worker per task lets cancellation stop work mid-way.
+ * The task decides which kind of progress it reports.
+ */
+function runTask<P extends SolverTaskProgress>(
+  task: SolverTask,
+  options: AsyncTaskOptions<P> = {}
+): Promise<SolverTaskResult> {
+  const { signal } = options;
+  const onProgress = options.onProgress as ((progress: SolverTaskProgress) => void) | undefined;
+  
+  if (signal?.aborted) {
+    return Promise.reject(createAbortError());
+  }
+  
+  if (typeof Worker === 'undefined') {
+    try {
+      return Promise.resolve(runSolverTask(task, onProgress));
+    } catch (error) {
+      return Promise.reject(error);
+    }
+  }
+  
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./solverWorker.ts', import.meta.url), { type: 'module' });
+    
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+    
+    const handleAbort = () => {
+      finish();
+      reject(createAbortError());
+    };
+    
+    worker.onmessage = (event: MessageEvent<SolverWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+        return;
+      }
+      
+      finish();
+      if (message.type === 'result') {
+        resolve(message.result);
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+    
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'Solver worker failed'));
+    };
+    
+    signal?.addEventListener('abort', handleAbort);
+    worker.postMessage(task);
+  });
+}
+
+/**
+ * Generate a puzzle off the main thread.
+ * With a profile, resolves to null if nothing matched within the time budget.
+ * Variant rules take precedence over a profile.
+ */
+export async function generatePuzzleAsync(
+  config: PuzzleConfig,
+  difficulty: Difficulty,
+  symmetry: Symmetry = 'rotational',
+  profile?: TechniqueProfile,
+  variant?: VariantOptions,
+  options: AsyncTaskOptions = {}
+): Promise<Puzzle | null> {
+  const task: SolverTask = { type: 'generate', config, difficulty, symmetry, profile, variant };
+  return (await runTask(task, options)) as Puzzle | null;
+}
+
+/**
+ * Solve a puzzle step by step off the main thread
+ */
+export async function solveAsync(puzzle: Puzzle, options: AsyncTaskOptions = {}): Promise<SolverResult> {
+  return (await runTask({ type: 'solve', puzzle }, options)) as SolverResult;
+}
+
+/**
+ * Rate a puzzle off the main thread
+ */
+export async function rateAsync(puzzle: Puzzle, options: AsyncTaskOptions = {}): Promise<PuzzleRating> {
+  return (await runTask({ type: 'rate', puzzle }, options)) as PuzzleRating;
+}
+
+/**
+ * Validate a puzzle from outside off the main thread, solving and rating it if it is sound
+ */
+export async function checkPuzzleAsync(puzzle: Puzzle, options: AsyncTaskOptions = {}): Promise<PuzzleCheck> {
+  return (await runTask({ type: 'check', puzzle }, options)) as PuzzleCheck;
+}
+
+/**
+ * Validate many puzzles from outside on one worker, in order, reporting how many are done
+ */
+export async function checkPuzzlesAsync(
+  puzzles: Puzzle[],
+  options: AsyncTaskOptions<CheckProgress> = {}
+): Promise<PuzzleCheck[]> {
+  return (await runTask({ type: 'checkAll', puzzles }, options)) as PuzzleCheck[];
+}
@@ -0,0 +1,172 @@
+/**
+ * Constraint Solver for Sudoku Variants
+ * Backtracking search with singles propagation and most-constrained-cell ordering,
+ * for rules the DLX exact cover cannot express (cage sums and other non-house constraints)
+ */
+
+import { PuzzleVariant } from '../types';
+import { getHouses, getPeerTable, getRuleChecks, RuleCheck } from './variants';
+import { getActiveCells } from './layouts';
+
+export interface ConstraintSolveOptions {
+  maxSolutions?: number;
+  random?: () => number; // Shuffles the digit order, turning the solver into a solution generator
+  maxNodes?: number; // Give up after this many search nodes
+}
+
+export interface ConstraintSolveResult {
+  solutions: number[][];
+  complete: boolean; // False when the node budget ran out before the search finished
+  nodes: number;
+  timeMs: number;
+}
+
+/**
+ * Find up to `maxSolutions` solutions of a variant puzzle
+ */
+export function solveWithConstraints(
+  puzzle: number[],
+  size: number,
+  blockRows: number,
+  blockCols: number,
+  variant?: PuzzleVariant,
+  options: ConstraintSolveOptions = {}
+): ConstraintSolveResult {
+  const { maxSolutions = 2, random, maxNodes = Infinity } = options;
+  const startTime = performance.now();
+  const peers = getPeerTable(size, blockRows, blockCols, variant);
+  const houses = getHouses(size, blockRows, blockCols, variant).map(house => house.indices);
+  const checks = getRuleChecks(size, variant);
+  const active = getActiveCells(size, variant); // Canvas cells outside every grid of a layout stay empty
+  const values = [...puzzle];
+  const solutions: number[][] = [];
+  let nodes = 0;
+  let exhausted = false;
+
+  // Rule checks touching each cell
+  const checksByCell: RuleCheck[][] = Array.from({ length: values.length }, () => []);
+  for (const check of checks) {
+    for (const cell of check.cells) checksByCell[cell].push(check);
+  }
+
+  const digits = Array.from({ length: size }, (_, i) => i + 1);
+  const fullMask = digits.reduce((mask, digit) => mask | (1 << digit), 0);
+
+  const isConsistent = (cell: number): boolean =>
+    checksByCell[cell].every(check => check.isSatisfiable(values));
+
+  // Bitmask of the digits an empty cell can take right now
+  const getCandidateMask = (cell: number): number => {
+    let allowed = fullMask;
+    for (const peer of peers[cell]) {
+      if (values[peer] !== 0) allowed &= ~(1 << values[peer]);
+    }
+
+    // Rules that can say which digits fit narrow the mask before any trial placement
+    const trialChecks: RuleCheck[] = [];
+    for (const check of checksByCell[cell]) {
+      if (check.allowedDigits) {
+        allowed &= check.allowedDigits(values, cell);
+      } else {
+        trialChecks.push(check);
+      }
+    }
+
+    if (trialChecks.length > 0) {
+      for (const digit of digits) {
+        if (!(allowed & (1 << digit))) continue;
+        values[cell] = digit;
+        if (!trialChecks.every(check => check.isSatisfiable(values))) allowed &= ~(1 << digit);
+        values[cell] = 0;
+      }
+    }
+    return allowed;
+  };
+
+  const toDigits = (mask: number): number[] => digits.filter(digit => mask & (1 << digit));
+
+  const shuffle = (items: number[]): number[] => {
+    if (!random) return items;
+    for (let i = items.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [items[i], items[j]] = [items[j], items[i]];
+    }
+    return items;
+  };
+
+  /**
+   * Pick the next cell and the digits to try there: a hidden single in some house,
+   * else the cell with the fewest candidates. Null means a contradiction.
+   */
+  const chooseBranch = (masks: number[]): { cell: number; digits: number[] } | null => {
+    let bestCell = -1;
+    let bestCount = Infinity;
+
+    for (let cell = 0; cell < values.length; cell++) {
+      if (values[cell] !== 0 || !active[cell]) continue;
+      const count = toDigits(masks[cell]).length;
+      if (count === 0) return null;
+      if (count < bestCount) {
+        bestCell = cell;
+        bestCount = count;
+      }
+    }
+    if (bestCount === 1) return { cell: bestCell, digits: toDigits(masks[bestCell]) };
+
+    for (const house of houses) {
+      let placed = 0;
+      for (const cell of house) {
+        if (values[cell] !== 0) placed |= 1 << values[cell];
+      }
+
+      for (const digit of digits) {
+        if (placed & (1 << digit)) continue;
+        let place = -1;
+        let places = 0;
+        for (const cell of house) {
+          if (values[cell] === 0 && masks[cell] & (1 << digit)) {
+            place = cell;
+            places++;
+          }
+        }
+        if (places === 0) return null;
+        if (places === 1) return { cell: place, digits: [digit] };
+      }
+    }
+
+    return { cell: bestCell, digits: toDigits(masks[bestCell]) };
+  };
+
+  const search = (): boolean => {
+    if (++nodes > maxNodes) {
+      exhausted = true;
+      return true;
+    }
+
+    const masks = values.map((value, cell) => (value === 0 && active[cell] ? getCandidateMask(cell) : 0));
+    if (values.every((value, cell) => value !== 0 || !active[cell])) {
+      solutions.push([...values]);
+      return solutions.length >= maxSolutions;
+    }
+
+    const branch = chooseBranch(masks);
+    if (!branch) return false;
+
+    for (const digit of shuffle(branch.digits)) {
+      values[branch.cell] = digit;
+      if (search()) return true;
+    }
+    values[branch.cell] = 0;
+    return false;
+  };
+
+  // Givens must agree with each other before searching
+  const givensValid = values.every((value, cell) =>
+    value === 0 || (!peers[cell].some(peer => values[peer] === value) && isConsistent(cell))
+  );
+  if (givensValid) {
+    search();
+  }
+
+  return { solutions, complete: !exhausted, nodes, timeMs: performance.now() - startTime };
+}
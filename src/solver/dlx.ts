@@ -4,6 +4,10 @@
  * Performance target: solve 9x9 puzzles in under 50ms
  */
 
+import { PuzzleVariant } from '../types';
+import { solveWithConstraints } from './constraintSolver';
+import { getChessPeerPairs, getExtraHouses, getNeighbourPairs, needsConstraintSolver } from './variants';
+
 interface DLXNode {
   left: DLXNode;
   right: DLXNode;
@@ -19,6 +23,9 @@ interface ColumnNode extends DLXNode {
   name: string;
 }
 
+// First node budget of a random fill, per cell
+const FILL_NODES_PER_CELL = 4;
+
 export class DLXSolver {
   private header: ColumnNode;
   private columns: ColumnNode[];
@@ -26,15 +33,50 @@ export class DLXSolver {
   private solutionCount = 0;
   private maxSolutions = 2; // For uniqueness checking
   private startTime = 0;
+  private random?: () => number; // Set while filling a random grid
+  private nodes = 0;
+  private maxNodes = Infinity; // Give up after this many search nodes
+  private exhausted = false;
   
   private size: number;
   private blockRows: number;
   private blockCols: number;
+  private regions?: number[]; // Jigsaw regions take the place of boxes
+  private extraHouses: number[][]; // Diagonals and windows, one column per digit each
+  private extraHousesByCell: number[][];
+  // Secondary columns, covered at most once, of every candidate row: each stands for
+  // two placements that exclude each other (anti-knight, anti-king, non-consecutive)
+  private exclusionsByRow: number[][];
+  private exclusionCount: number;
   
-  constructor(size: number, blockRows: number, blockCols: number) {
+  constructor(size: number, blockRows: number, blockCols: number, variant?: PuzzleVariant) {
     this.size = size;
     this.blockRows = blockRows;
     this.blockCols = blockCols;
+    this.regions = variant?.regions;
+    this.extraHouses = getExtraHouses(size, blockRows, blockCols, variant).map(house => house.indices);
+    this.extraHousesByCell = Array.from({ length: size * size }, () => []);
+    this.extraHouses.forEach((cells, house) => cells.forEach(cell => this.extraHousesByCell[cell].push(house)));
+    
+    this.exclusionsByRow = Array.from({ length: size * size * size }, () => []);
+    this.exclusionCount = 0;
+    const exclude = (cellA: number, numA: number, cellB: number, numB: number) => {
+      this.exclusionsByRow[cellA * size + numA - 1].push(this.exclusionCount);
+      this.exclusionsByRow[cellB * size + numB - 1].push(this.exclusionCount);
+      this.exclusionCount++;
+    };
+    for (const [a, b] of getChessPeerPairs(size, variant)) {
+      for (let num = 1; num <= size; num++) exclude(a, num, b, num);
+    }
+    if (variant?.nonConsecutive) {
+      for (const [a, b] of getNeighbourPairs(size)) {
+        for (let num = 1; num < size; num++) {
+          exclude(a, num, b, num + 1);
+          exclude(a, num + 1, b, num);
+        }
+      }
+    }
+    
     this.columns = [];
     this.header = this.createHeader();
   }
@@ -59,7 +101,7 @@ export class DLXSolver {
   
   private createHeader(): ColumnNode {
     const n = this.size;
-    const numConstraints = 4 * n * n;
+    const numConstraints = 4 * n * n + this.extraHouses.length * n;
     
     const header = this.createColumnNode(-1, 'header');
     this.columns = [header];
@@ -75,6 +117,11 @@ export class DLXSolver {
       prev = col;
     }
     
+    // Secondary columns stay out of the header list: they need not be covered, only never twice
+    for (let i = 0; i < this.exclusionCount; i++) {
+      this.columns.push(this.createColumnNode(numConstraints + i, `exclusion(${i})`));
+    }
+    
     return header;
   }
   
@@ -84,10 +131,12 @@ export class DLXSolver {
     if (id < nn) return `cell(${Math.floor(id / n)},${id % n})`;
     if (id < 2 * nn) return `row(${Math.floor((id - nn) / n)},${(id - nn) % n + 1})`;
     if (id < 3 * nn) return `col(${Math.floor((id - 2 * nn) / n)},${(id - 2 * nn) % n + 1})`;
+    if (id >= 4 * nn) return `extra(${Math.floor((id - 4 * nn) / n)},${(id - 4 * nn) % n + 1})`;
     return `box(${Math.floor((id - 3 * nn) / n)},${(id - 3 * nn) % n + 1})`;
   }
   
   private getBox(row: number, col: number): number {
+    if (this.regions) return this.regions[row * this.size + col];
     return Math.floor(row / this.blockRows) * (this.size / this.blockCols) + Math.floor(col / this.blockCols);
   }
   
@@ -100,7 +149,10 @@ export class DLXSolver {
       cellIdx,                    // Cell constraint
       n * n + row * n + num - 1,  // Row constraint
       2 * n * n + col * n + num - 1, // Column constraint
-      3 * n * n + box * n + num - 1  // Box constraint
+      3 * n * n + box * n + num - 1, // Box constraint
+      ...this.extraHousesByCell[cellIdx].map(house => 4 * n * n + house * n + num - 1), // Extra house constraints
+      ...this.exclusionsByRow[cellIdx * n + num - 1]
+        .map(exclusion => 4 * n * n + this.extraHouses.length * n + exclusion), // Exclusion constraints
     ];
   }
   
@@ -191,16 +243,23 @@ export class DLXSolver {
   }
   
   private search(depth: number, partialSolution: number[]): boolean {
+    if (++this.nodes > this.maxNodes) {
+      this.exhausted = true;
+      return true;
+    }
+    
     if (this.header.right === this.header) {
-      this.solution.push([...partialSolution]);
+      // Only the first is ever read, so counting many keeps no more
+      if (this.solution.length === 0) this.solution.push([...partialSolution]);
       this.solutionCount++;
       return this.solutionCount >= this.maxSolutions;
     }
     
-    // Choose column with minimum size (MRV heuristic)
+    // Choose column with minimum size (MRV heuristic); a forced column cannot be beaten,
+    // which saves scanning the thousands of columns of a 25×25 grid
     let minCol = this.header.right as ColumnNode;
     let node = minCol.right as ColumnNode;
-    while (node !== this.header) {
+    while (node !== this.header && minCol.size > 1) {
       if (node.size < minCol.size) minCol = node;
       node = node.right as ColumnNode;
     }
@@ -209,8 +268,7 @@ export class DLXSolver {
     
     this.cover(minCol);
     
-    let row = minCol.down;
-    while (row !== minCol) {
+    for (const row of this.getRowOrder(minCol)) {
       partialSolution.push(row.row);
       
       let node = row.right;
@@ -230,60 +288,188 @@ export class DLXSolver {
         this.uncover(node.column);
         node = node.left;
       }
-      
-      row = row.down;
     }
     
     this.uncover(minCol);
     return false;
   }
   
+  /**
+   * Rows of a column in the order to try them: shuffled while filling a random grid
+   */
+  private getRowOrder(col: ColumnNode): DLXNode[] {
+    const rows: DLXNode[] = [];
+    for (let row = col.down; row !== col; row = row.down) {
+      rows.push(row);
+    }
+    
+    if (this.random) {
+      for (let i = rows.length - 1; i > 0; i--) {
+        const j = Math.floor(this.random() * (i + 1));
+        [rows[i], rows[j]] = [rows[j], rows[i]];
+      }
+    }
+    return rows;
+  }
+  
   public solve(puzzle: number[], findAll = false): { solved: boolean; solution: number[]; solutionCount: number; timeMs: number } {
     this.startTime = performance.now();
+    this.run(puzzle, findAll ? 1000 : 2);
+    
+    const timeMs = performance.now() - this.startTime;
+    
+    if (this.solution.length === 0) {
+      return { solved: false, solution: [], solutionCount: 0, timeMs };
+    }
+    
+    return { solved: true, solution: this.toGrid(puzzle, this.solution[0]), solutionCount: this.solutionCount, timeMs };
+  }
+  
+  /**
+   * Number of solutions, counting no further than `limit`
+   */
+  public countSolutions(puzzle: number[], limit = Infinity): number {
+    this.run(puzzle, limit);
+    return this.solutionCount;
+  }
+  
+  /**
+   * Every solution, found one at a time as the caller asks for the next.
+   * The solver holds the search state, so it can't be used for anything
+   * else until the iteration is finished or abandoned.
+   */
+  public *solutions(puzzle: number[]): Generator<number[], void, undefined> {
+    this.header = this.createHeader();
+    this.buildMatrix(puzzle);
+    
+    for (const rows of this.enumerate([])) {
+      yield this.toGrid(puzzle, rows);
+    }
+  }
+  
+  /**
+   * Search a freshly built matrix, keeping up to `maxSolutions` solutions
+   */
+  private run(puzzle: number[], maxSolutions: number): void {
     this.solution = [];
     this.solutionCount = 0;
-    this.maxSolutions = findAll ? 1000 : 2;
+    this.maxSolutions = maxSolutions;
+    this.nodes = 0;
+    this.exhausted = false;
     
     // Rebuild for fresh solve
     this.header = this.createHeader();
     this.buildMatrix(puzzle);
     
     this.search(0, []);
+  }
+  
+  /**
+   * The search without a solution limit, yielding the rows of each solution
+   * and leaving the matrix as it was once exhausted
+   */
+  private *enumerate(partialSolution: number[]): Generator<number[], void, undefined> {
+    if (this.header.right === this.header) {
+      yield [...partialSolution];
+      return;
+    }
     
-    const timeMs = performance.now() - this.startTime;
+    let minCol = this.header.right as ColumnNode;
+    let node = minCol.right as ColumnNode;
+    while (node !== this.header && minCol.size > 1) {
+      if (node.size < minCol.size) minCol = node;
+      node = node.right as ColumnNode;
+    }
     
-    if (this.solution.length === 0) {
-      return { solved: false, solution: [], solutionCount: 0, timeMs };
+    if (minCol.size === 0) return;
+    
+    this.cover(minCol);
+    
+    for (let row = minCol.down; row !== minCol; row = row.down) {
+      partialSolution.push(row.row);
+      for (let node = row.right; node !== row; node = node.right) {
+        this.cover(node.column);
+      }
+      
+      yield* this.enumerate(partialSolution);
+      
+      partialSolution.pop();
+      for (let node = row.left; node !== row; node = node.left) {
+        this.uncover(node.column);
+      }
     }
     
-    // Convert solution rows to grid
+    this.uncover(minCol);
+  }
+  
+  /**
+   * Convert solution rows to grid
+   */
+  private toGrid(puzzle: number[], rows: number[]): number[] {
     const n = this.size;
     const result = [...puzzle];
-    for (const rowId of this.solution[0]) {
+    for (const rowId of rows) {
       const cellIdx = Math.floor(rowId / n);
       const num = (rowId % n) + 1;
       result[cellIdx] = num;
     }
-    
-    return { solved: true, solution: result, solutionCount: this.solutionCount, timeMs };
+    return result;
+  }
+  
+  /**
+   * A random complete grid: the empty grid solved with every choice shuffled.
+   * An unlucky early choice can cost a long search, so it restarts with a
+   * fresh shuffle and a doubled node budget instead of digging itself out.
+   * Empty if no grid fits the rules at all.
+   */
+  public fill(random: () => number): number[] {
+    const empty = new Array(this.size * this.size).fill(0);
+    this.random = random;
+    try {
+      for (let budget = empty.length * FILL_NODES_PER_CELL; ; budget *= 2) {
+        this.maxNodes = budget;
+        // The first grid found will do; looking on for a second only burns the budget
+        this.run(empty, 1);
+        if (!this.exhausted) return this.solution.length > 0 ? this.toGrid(empty, this.solution[0]) : [];
+      }
+    } finally {
+      this.random = undefined;
+      this.maxNodes = Infinity;
+    }
   }
   
-  public hasUniqueSolution(puzzle: number[]): boolean {
-    const result = this.solve(puzzle);
-    return result.solved && result.solutionCount === 1;
+  /**
+   * Whether the puzzle has exactly one solution; a search cut short by the
+   * node budget counts as not proven unique
+   */
+  public hasUniqueSolution(puzzle: number[], maxNodes = Infinity): boolean {
+    this.maxNodes = maxNodes;
+    try {
+      const result = this.solve(puzzle);
+      return !this.exhausted && result.solved && result.solutionCount === 1;
+    } finally {
+      this.maxNodes = Infinity;
+    }
   }
 }
 
 /**
- * Fast solver wrapper for quick access
+ * Fast solver wrapper for quick access.
+ * Variants with rules beyond houses go to the constraint solver.
  */
 export function solvePuzzle(
   puzzle: number[],
   size: number = 9,
   blockRows: number = 3,
-  blockCols: number = 3
+  blockCols: number = 3,
+  variant?: PuzzleVariant
 ): { solved: boolean; solution: number[]; timeMs: number } {
-  const solver = new DLXSolver(size, blockRows, blockCols);
+  if (needsConstraintSolver(variant)) {
+    const result = solveWithConstraints(puzzle, size, blockRows, blockCols, variant, { maxSolutions: 1 });
+    return { solved: result.solutions.length > 0, solution: result.solutions[0] ?? [], timeMs: result.timeMs };
+  }
+  
+  const solver = new DLXSolver(size, blockRows, blockCols, variant);
   const result = solver.solve(puzzle);
   return { solved: result.solved, solution: result.solution, timeMs: result.timeMs };
 }
@@ -292,8 +478,70 @@ export function hasUniqueSolution(
   puzzle: number[],
   size: number = 9,
   blockRows: number = 3,
-  blockCols: number = 3
+  blockCols: number = 3,
+  variant?: PuzzleVariant,
+  maxNodes?: number
 ): boolean {
-  const solver = new DLXSolver(size, blockRows, blockCols);
-  return solver.hasUniqueSolution(puzzle);
+  // Either way, a search cut short by the node budget counts as not proven unique
+  if (needsConstraintSolver(variant)) {
+    const result = solveWithConstraints(puzzle, size, blockRows, blockCols, variant, { maxNodes });
+    return result.complete && result.solutions.length === 1;
+  }
+  
+  const solver = new DLXSolver(size, blockRows, blockCols, variant);
+  return solver.hasUniqueSolution(puzzle, maxNodes);
+}
+
+/**
+ * Up to `limit` solutions of a puzzle, in the order the search finds them
+ */
+export function findSolutions(
+  puzzle: number[],
+  size: number = 9,
+  blockRows: number = 3,
+  blockCols: number = 3,
+  variant?: PuzzleVariant,
+  limit: number = 2
+): number[][] {
+  if (needsConstraintSolver(variant)) {
+    return solveWithConstraints(puzzle, size, blockRows, blockCols, variant, { maxSolutions: limit }).solutions;
+  }
+  
+  const solutions: number[][] = [];
+  if (limit <= 0) return solutions;
+  for (const solution of new DLXSolver(size, blockRows, blockCols, variant).solutions(puzzle)) {
+    solutions.push(solution);
+    if (solutions.length >= limit) break;
+  }
+  return solutions;
+}
+
+/**
+ * Number of solutions of a puzzle, counting no further than `limit`
+ */
+export function countSolutions(
+  puzzle: number[],
+  size: number = 9,
+  blockRows: number = 3,
+  blockCols: number = 3,
+  variant?: PuzzleVariant,
+  limit: number = 2
+): number {
+  if (needsConstraintSolver(variant)) {
+    return findSolutions(puzzle, size, blockRows, blockCols, variant, limit).length;
+  }
+  
+  const solver = new DLXSolver(size, blockRows, blockCols, variant);
+  return solver.countSolutions(puzzle, limit);
+}
+
+/**
+ * Cells where two solutions of the same puzzle disagree, with the digit each puts there
+ */
+export function diffSolutions(a: number[], b: number[]): { cell: number; values: [number, number] }[] {
+  const diff: { cell: number; values: [number, number] }[] = [];
+  a.forEach((value, cell) => {
+    if (value !== b[cell]) diff.push({ cell, values: [value, b[cell]] });
+  });
+  return diff;
 }
@@ -4,14 +4,49 @@
  * Guarantees unique solutions
  */
 
-import { Puzzle, Difficulty, Symmetry, PuzzleConfig, DIFFICULTY_SETTINGS, SUPPORTED_SIZES } from '../types';
-import { DLXSolver, hasUniqueSolution } from './dlx';
+import { Cage, ConstraintOverlay, OutsideClue, Puzzle, PuzzleVariant, PuzzleRating, TechniqueType, Difficulty, Symmetry, PuzzleConfig, DIFFICULTY_SETTINGS, CLASSIC_SIZES, SUPPORTED_SIZES } from '../types';
+import { DLXSolver, hasUniqueSolution, solvePuzzle } from './dlx';
 import { solveWithSteps } from './humanSolver';
+import { DIFFICULTY_RATINGS, TECHNIQUE_WEIGHTS } from './rating';
+import { isValidRegionMap } from './variants';
+import { createLayout, getActiveCells, getCellCount, isLayoutName, LAYOUT_NAMES } from './layouts';
+import { BitReader, BitWriter, bitsFor, packShareCode, ShareCodeError, unpackShareCode } from './shareCode';
+
+/**
+ * Techniques a generated puzzle must or must not need
+ */
+export interface TechniqueProfile {
+  require?: TechniqueType[]; // The puzzle must need every one of these (see needsTechnique)
+  forbid?: TechniqueType[]; // The puzzle must be solvable without any of these
+  minScore?: number;
+  maxScore?: number;
+}
+
+export interface GenerationProgress {
+  attempt: number;
+  elapsedMs: number;
+  givens: number;
+  fraction: number; // Share of the time budget used (0 - 1)
+}
+
+export interface ProfileGenerationOptions {
+  symmetry?: Symmetry;
+  seed?: number;
+  difficulty?: Difficulty; // Givens range to aim for; Custom allows the widest range
+  timeBudgetMs?: number;
+  onProgress?: (progress: GenerationProgress) => void;
+}
+
+const DEFAULT_TIME_BUDGET_MS = 5000;
+
+// Search nodes per cell a uniqueness check may take while removing givens.
+// Sparse grids of 20×20 and up can take seconds to prove; those cells stay given.
+const UNIQUENESS_NODES_PER_CELL = 5;
 
 /**
  * Seeded random number generator for reproducible puzzles
  */
-class SeededRandom {
+export class SeededRandom {
   private seed: number;
 
   constructor(seed?: number) {
@@ -42,7 +77,8 @@ class SeededRandom {
 }
 
 /**
- * Generate a complete valid Sudoku solution
+ * Generate a complete valid Sudoku solution.
+ * A shuffled DLX search stays fast up to 25×25, where plain backtracking stalls.
  */
 function generateSolution(
   size: number,
@@ -50,64 +86,7 @@ function generateSolution(
   blockCols: number,
   rng: SeededRandom
 ): number[] {
-  const grid = new Array(size * size).fill(0);
-  
-  // Fill the grid using backtracking with randomization
-  function fillGrid(index: number): boolean {
-    if (index >= size * size) return true;
-    
-    const row = Math.floor(index / size);
-    const col = index % size;
-    
-    const candidates = rng.shuffle(Array.from({ length: size }, (_, i) => i + 1));
-    
-    for (const num of candidates) {
-      if (isValidPlacement(grid, row, col, num, size, blockRows, blockCols)) {
-        grid[index] = num;
-        if (fillGrid(index + 1)) return true;
-        grid[index] = 0;
-      }
-    }
-    
-    return false;
-  }
-  
-  fillGrid(0);
-  return grid;
-}
-
-/**
- * Check if placing a number is valid
- */
-function isValidPlacement(
-  grid: number[],
-  row: number,
-  col: number,
-  num: number,
-  size: number,
-  blockRows: number,
-  blockCols: number
-): boolean {
-  // Check row
-  for (let c = 0; c < size; c++) {
-    if (grid[row * size + c] === num) return false;
-  }
-  
-  // Check column
-  for (let r = 0; r < size; r++) {
-    if (grid[r * size + col] === num) return false;
-  }
-  
-  // Check box
-  const boxStartRow = Math.floor(row / blockRows) * blockRows;
-  const boxStartCol = Math.floor(col / blockCols) * blockCols;
-  for (let r = boxStartRow; r < boxStartRow + blockRows; r++) {
-    for (let c = boxStartCol; c < boxStartCol + blockCols; c++) {
-      if (grid[r * size + c] === num) return false;
-    }
-  }
-  
-  return true;
+  return new DLXSolver(size, blockRows, blockCols).fill(() => rng.next());
 }
 
 /**
@@ -148,71 +127,48 @@ function getSymmetricCells(
 }
 
 /**
- * Calculate difficulty score based on techniques needed
+ * Shuffled groups of cells to remove together so the puzzle keeps its symmetry
  */
-function assessDifficulty(
-  puzzle: number[],
-  size: number,
-  blockRows: number,
-  blockCols: number
-): { difficulty: Difficulty; score: number } {
-  const result = solveWithSteps(puzzle, size, blockRows, blockCols);
-  
-  if (!result.solved) {
-    return { difficulty: 'Expert', score: 100 };
+export function getRemovalOrder(size: number, symmetry: Symmetry, rng: SeededRandom): number[][] {
+  const cells = rng.shuffle(Array.from({ length: size * size }, (_, i) => i));
+  if (symmetry === 'none') {
+    return cells.map(cell => [cell]);
   }
   
-  let score = 0;
-  const techniqueCounts: Record<string, number> = {};
+  const processed = new Set<number>();
+  const groupedCells: number[][] = [];
   
-  for (const step of result.techniques) {
-    techniqueCounts[step.type] = (techniqueCounts[step.type] || 0) + 1;
-    
-    switch (step.type) {
-      case 'Single Candidate':
-        score += 1;
-        break;
-      case 'Hidden Single':
-        score += 2;
-        break;
-      case 'Naked Pair':
-        score += 4;
-        break;
-      case 'Hidden Pair':
-        score += 5;
-        break;
-      case 'Pointing Pair':
-        score += 4;
-        break;
-      case 'X-Wing':
-        score += 8;
-        break;
-      default:
-        score += 10;
-    }
-  }
-  
-  const hasAdvanced = techniqueCounts['X-Wing'] > 0;
-  const hasIntermediate = (techniqueCounts['Naked Pair'] || 0) + (techniqueCounts['Hidden Pair'] || 0) > 0;
-  
-  let difficulty: Difficulty;
-  if (hasAdvanced || score > 150) {
-    difficulty = 'Expert';
-  } else if (hasIntermediate || score > 80) {
-    difficulty = 'Hard';
-  } else if (score > 40) {
-    difficulty = 'Medium';
-  } else {
-    difficulty = 'Easy';
-  }
-  
-  return { difficulty, score };
+  for (const cell of cells) {
+    if (!processed.has(cell)) {
+      const symmetricGroup = getSymmetricCells(cell, size, symmetry);
+      groupedCells.push(symmetricGroup);
+      for (const c of symmetricGroup) {
+        processed.add(c);
+      }
+    }
+  }
+  
+  return rng.shuffle(groupedCells);
+}
+
+/**
+ * Rate a puzzle with the human solver
+ */
+export function ratePuzzle(
+  puzzle: number[],
+  size: number = 9,
+  blockRows: number = 3,
+  blockCols: number = 3,
+  uniquenessKnown: boolean = true,
+  variant?: PuzzleVariant
+): PuzzleRating {
+  return solveWithSteps(puzzle, size, blockRows, blockCols, uniquenessKnown, [], variant).rating!;
 }
 
 /**
  * Adjust givens count based on grid size
  */
-function getGivensRange(size: number, difficulty: Difficulty): { min: number; max: number } {
+export function getGivensRange(size: number, difficulty: Difficulty): { min: number; max: number } {
   const baseSettings = DIFFICULTY_SETTINGS[difficulty];
   const ratio = size / 9;
   const sizeFactor = ratio * ratio;
@@ -249,27 +205,9 @@ export function generatePuzzle(
   const targetCount = targetGivens ?? rng.nextInt(givensRange.min, givensRange.max);
   
   // Get cells to potentially remove
-  let cellsToTry = rng.shuffle(Array.from({ length: totalCells }, (_, i) => i));
+  const cellsToTry = getRemovalOrder(size, symmetry, rng).flat();
   const removedCells = new Set<number>();
   
-  // Adjust based on symmetry
-  if (symmetry !== 'none') {
-    const processed = new Set<number>();
-    const groupedCells: number[][] = [];
-    
-    for (const cell of cellsToTry) {
-      if (!processed.has(cell)) {
-        const symmetricGroup = getSymmetricCells(cell, size, symmetry);
-        groupedCells.push(symmetricGroup);
-        for (const c of symmetricGroup) {
-          processed.add(c);
-        }
-      }
-    }
-    
-    cellsToTry = rng.shuffle(groupedCells).flat();
-  }
-  
   // Remove cells while maintaining uniqueness
   for (const cellIndex of cellsToTry) {
     if (removedCells.has(cellIndex)) continue;
@@ -294,7 +232,7 @@ export function generatePuzzle(
     }
     
     // Check uniqueness
-    if (hasUniqueSolution(puzzle, size, blockRows, blockCols)) {
+    if (hasUniqueSolution(puzzle, size, blockRows, blockCols, undefined, totalCells * UNIQUENESS_NODES_PER_CELL)) {
       for (const c of cellsToRemove) {
         removedCells.add(c);
       }
@@ -306,37 +244,172 @@ export function generatePuzzle(
     }
   }
   
-  // Assess final difficulty
-  const assessment = assessDifficulty(puzzle, size, blockRows, blockCols);
+  // Rate the final puzzle; uniqueness was checked at every removal
+  const rating = ratePuzzle(puzzle, size, blockRows, blockCols);
   
   return {
     size,
     blockRows,
     blockCols,
     cells: puzzle,
-    difficulty: assessment.difficulty,
+    difficulty: rating.difficulty,
     symmetry,
     seed: actualSeed,
     solution,
+    rating,
+    unique: true,
   };
 }
 
 /**
- * Generate a puzzle targeting specific difficulty
+ * Whether a puzzle needs a technique: the techniques lighter than it, less the
+ * forbidden ones, get stuck without it. A technique that merely shows up on the
+ * solve path, where a simpler one would also have done, is not needed.
+ */
+export function needsTechnique(
+  puzzle: number[],
+  size: number,
+  blockRows: number,
+  blockCols: number,
+  type: TechniqueType,
+  forbid: TechniqueType[] = []
+): boolean {
+  const weight = TECHNIQUE_WEIGHTS[type];
+  const notLighter = (Object.keys(TECHNIQUE_WEIGHTS) as TechniqueType[])
+    .filter(other => TECHNIQUE_WEIGHTS[other] >= weight);
+  return !solveWithSteps(puzzle, size, blockRows, blockCols, true, [...forbid, ...notLighter]).solved;
+}
+
+/**
+ * Generate a puzzle that needs a given technique profile.
+ * Cells are removed one symmetric group at a time, and the human solver vetoes
+ * any removal that would need a forbidden technique or overshoot the score.
+ */
+function* steerGeneration(
+  config: PuzzleConfig,
+  profile: TechniqueProfile,
+  options: ProfileGenerationOptions
+): Generator<GenerationProgress, Puzzle | null> {
+  const { size, blockRows, blockCols } = config;
+  const { symmetry = 'rotational', timeBudgetMs = DEFAULT_TIME_BUDGET_MS } = options;
+  const { require = [], forbid = [], minScore = 0, maxScore = Infinity } = profile;
+  const givens = getGivensRange(size, options.difficulty ?? 'Custom');
+  const rng = new SeededRandom(options.seed);
+  const actualSeed = rng.getSeed();
+  const startTime = performance.now();
+  
+  for (let attempt = 1; ; attempt++) {
+    const solution = generateSolution(size, blockRows, blockCols, rng);
+    const puzzle = [...solution];
+    let givensLeft = size * size;
+    
+    for (const group of getRemovalOrder(size, symmetry, rng)) {
+      const elapsedMs = performance.now() - startTime;
+      if (elapsedMs > timeBudgetMs) return null;
+      yield { attempt, elapsedMs, givens: givensLeft, fraction: Math.min(1, elapsedMs / timeBudgetMs) };
+      
+      if (givensLeft - group.length < givens.min) continue;
+      
+      for (const c of group) puzzle[c] = 0;
+      
+      const result = hasUniqueSolution(puzzle, size, blockRows, blockCols, undefined, size * size * UNIQUENESS_NODES_PER_CELL)
+        ? solveWithSteps(puzzle, size, blockRows, blockCols, true, forbid)
+        : null;
+      
+      if (!result?.solved || result.rating!.score > maxScore) {
+        for (const c of group) puzzle[c] = solution[c];
+        continue;
+      }
+      givensLeft -= group.length;
+      
+      const used = new Set(result.techniques.map(step => step.type));
+      const matches = givensLeft <= givens.max &&
+        result.rating!.score >= minScore &&
+        require.every(type => used.has(type) && needsTechnique(puzzle, size, blockRows, blockCols, type, forbid));
+      
+      if (matches) {
+        const rating = ratePuzzle(puzzle, size, blockRows, blockCols);
+        return {
+          size,
+          blockRows,
+          blockCols,
+          cells: puzzle,
+          difficulty: rating.difficulty,
+          symmetry,
+          seed: actualSeed,
+          solution,
+          rating,
+          unique: true,
+        };
+      }
+    }
+  }
+}
+
+/**
+ * Generate a puzzle matching a technique profile within a time budget.
+ * Returns null if the budget runs out first.
+ */
+export function generatePuzzleWithProfile(
+  config: PuzzleConfig,
+  profile: TechniqueProfile,
+  options: ProfileGenerationOptions = {}
+): Puzzle | null {
+  const generation = steerGeneration(config, profile, options);
+  
+  for (let next = generation.next(); ; next = generation.next()) {
+    if (next.done) return next.value;
+    options.onProgress?.(next.value);
+  }
+}
+
+/**
+ * Technique profile that lands a puzzle in a difficulty bucket
+ */
+export function getDifficultyProfile(difficulty: Difficulty): TechniqueProfile {
+  const order = Object.keys(DIFFICULTY_RATINGS) as (keyof typeof DIFFICULTY_RATINGS)[];
+  const index = order.indexOf(difficulty as keyof typeof DIFFICULTY_RATINGS);
+  if (index === -1) return {};
+  
+  const next = order[index + 1];
+  return {
+    minScore: DIFFICULTY_RATINGS[order[index]].min,
+    maxScore: next ? DIFFICULTY_RATINGS[next].min - 0.1 : undefined,
+  };
+}
+
+/**
+ * Generate a puzzle targeting specific difficulty.
+ * Steers removal towards the difficulty's rating range, falling back to the
+ * closest of a few plain attempts if the time budget runs out. The plain
+ * attempts get a budget of their own, which only large grids ever use up.
  */
 export function generatePuzzleWithDifficulty(
   config: PuzzleConfig,
   targetDifficulty: Difficulty,
   symmetry: Symmetry = 'rotational',
-  maxAttempts: number = 10
+  maxAttempts: number = 10,
+  options: ProfileGenerationOptions = {}
 ): Puzzle {
+  const steered = generatePuzzleWithProfile(config, getDifficultyProfile(targetDifficulty), {
+    symmetry,
+    difficulty: targetDifficulty,
+    ...options,
+  });
+  if (steered && steered.difficulty === targetDifficulty) {
+    return steered;
+  }
+  
   const difficultyOrder: Difficulty[] = ['Easy', 'Medium', 'Hard', 'Expert'];
   const targetIndex = difficultyOrder.indexOf(targetDifficulty);
   
-  let bestPuzzle: Puzzle | null = null;
-  let bestDiffDelta = Infinity;
+  let bestPuzzle: Puzzle | null = steered;
+  let bestDiffDelta = steered ? Math.abs(difficultyOrder.indexOf(steered.difficulty) - targetIndex) : Infinity;
+  const retryDeadline = performance.now() + (options.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS);
   
   for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    if (bestPuzzle && performance.now() > retryDeadline) break;
+    
     const puzzle = generatePuzzle(config, targetDifficulty, symmetry);
     const actualIndex = difficultyOrder.indexOf(puzzle.difficulty);
     const diffDelta = Math.abs(actualIndex - targetIndex);
@@ -355,11 +428,34 @@ export function generatePuzzleWithDifficulty(
   return bestPuzzle!;
 }
 
+// Daily difficulty by weekday, starting on Sunday
+const DAILY_DIFFICULTIES: Difficulty[] = ['Expert', 'Easy', 'Easy', 'Medium', 'Medium', 'Hard', 'Hard'];
+const DAILY_CONFIG: PuzzleConfig = { size: 9, blockRows: 3, blockCols: 3 };
+
+/**
+ * Derive the generator seed for a daily challenge date (YYYY-MM-DD)
+ */
+export function getDailySeed(date: string): number {
+  return parseInt(date.replace(/-/g, ''), 10);
+}
+
+/**
+ * Generate the daily challenge for a calendar date.
+ * Every player gets the same puzzle for the same date.
+ */
+export function generateDailyPuzzle(date: string): Puzzle {
+  const [year, month, day] = date.split('-').map(Number);
+  const weekday = new Date(year, month - 1, day).getDay();
+  
+  const puzzle = generatePuzzle(DAILY_CONFIG, DAILY_DIFFICULTIES[weekday], 'rotational', getDailySeed(date));
+  return { ...puzzle, daily: date };
+}
+
 /**
- * Get a random supported puzzle config
+ * Get a random puzzle config among the classic sizes
  */
 export function getRandomConfig(): PuzzleConfig {
-  const configs = SUPPORTED_SIZES;
+  const configs = SUPPORTED_SIZES.filter(config => CLASSIC_SIZES.includes(config.size));
   return configs[Math.floor(Math.random() * configs.length)];
 }
 
@@ -371,28 +467,514 @@ export function getConfigForSize(size: number): PuzzleConfig | null {
 }
 
 /**
- * Encode puzzle to shareable string
+ * Every box shape of at least 2×2 for a supported size, squarest first;
+ * wide boxes come before their tall twins
+ */
+export function getBoxShapes(size: number): PuzzleConfig[] {
+  if (!getConfigForSize(size)) return [];
+  
+  const shapes: PuzzleConfig[] = [];
+  for (let blockRows = 2; blockRows <= size / 2; blockRows++) {
+    if (size % blockRows === 0) shapes.push({ size, blockRows, blockCols: size / blockRows });
+  }
+  
+  const squareness = (shape: PuzzleConfig) => Math.abs(shape.blockRows - shape.blockCols);
+  return shapes.sort((a, b) => squareness(a) - squareness(b) || a.blockRows - b.blockRows);
+}
+
+// One-letter overlay codes for share links; dots and XV signs fold their colour or sum into the letter
+const OVERLAY_DECODERS: Record<string, (cells: number[]) => ConstraintOverlay> = {
+  t: cells => ({ type: 'thermo', cells }),
+  a: cells => ({ type: 'arrow', cells }),
+  g: cells => ({ type: 'greater', cells: cells as [number, number] }),
+  w: cells => ({ type: 'kropki', cells: cells as [number, number], color: 'white' }),
+  b: cells => ({ type: 'kropki', cells: cells as [number, number], color: 'black' }),
+  x: cells => ({ type: 'xv', cells: cells as [number, number], sum: 10 }),
+  v: cells => ({ type: 'xv', cells: cells as [number, number], sum: 5 }),
+};
+
+/**
+ * Share-link letter of an overlay
+ */
+function getOverlayCode(overlay: ConstraintOverlay): string {
+  switch (overlay.type) {
+    case 'thermo':
+      return 't';
+    case 'arrow':
+      return 'a';
+    case 'greater':
+      return 'g';
+    case 'kropki':
+      return overlay.color === 'white' ? 'w' : 'b';
+    case 'xv':
+      return overlay.sum === 10 ? 'x' : 'v';
+  }
+}
+
+// One-letter outside clue codes for share links
+const OUTSIDE_CLUE_TYPES: Record<string, OutsideClue['type']> = {
+  s: 'sandwich',
+  l: 'littleKiller',
+};
+
+// Overlays drawn along a line of touching cells; the rest mark the edge between two neighbours
+const LINE_OVERLAYS: ConstraintOverlay['type'][] = ['thermo', 'arrow'];
+const EDGE_OVERLAYS: ConstraintOverlay['type'][] = ['greater', 'kropki', 'xv'];
+
+// Share codes are framed by ./shareCode; this is the layout of the version 1 payload
+const SHARE_CODE_VERSION = 1;
+const SHARE_DIFFICULTIES: Difficulty[] = ['Easy', 'Medium', 'Hard', 'Expert', 'Custom'];
+const SHARE_SYMMETRIES: Symmetry[] = ['none', 'rotational', 'horizontal', 'vertical', 'diagonal'];
+const OVERLAY_CODES = Object.keys(OVERLAY_DECODERS);
+const OUTSIDE_CLUE_KINDS = Object.values(OUTSIDE_CLUE_TYPES);
+
+/**
+ * A game in progress carried by a share code, per canvas cell
+ */
+export interface SharedProgress {
+  values: number[]; // Givens included, as getCurrentValues returns them
+  pencilMarks: Set<number>[];
+}
+
+/**
+ * Encode puzzle to shareable string: bit-packed values of the cells in play,
+ * in URL-safe base64 with a version and checksum. Progress adds the player's
+ * values and pencil marks.
  */
-export function encodePuzzle(puzzle: Puzzle): string {
-  const data = {
-    s: puzzle.size,
-    br: puzzle.blockRows,
-    bc: puzzle.blockCols,
-    c: puzzle.cells.join(''),
-    d: puzzle.difficulty[0],
-    y: puzzle.symmetry[0],
-    sd: puzzle.seed,
+export function encodePuzzle(puzzle: Puzzle, progress?: SharedProgress): string {
+  const { size, cells } = puzzle;
+  const writer = new BitWriter();
+  const valueBits = bitsFor(size);
+  const cellBits = bitsFor(cells.length - 1);
+  const active = getActiveCells(size, puzzle);
+  const writeCells = (list: number[]) => {
+    writer.writeVarint(list.length);
+    list.forEach(cell => writer.write(cell, cellBits));
   };
   
-  return btoa(JSON.stringify(data));
+  writer.write(size, 5);
+  writer.write(puzzle.blockRows, 5);
+  writer.write(SHARE_DIFFICULTIES.indexOf(puzzle.difficulty), 3);
+  writer.write(SHARE_SYMMETRIES.indexOf(puzzle.symmetry), 3);
+  
+  // The layout decides which cells are in play, so it comes before them
+  writer.writeFlag(puzzle.layout !== undefined);
+  if (puzzle.layout) writer.write(LAYOUT_NAMES.indexOf(puzzle.layout.name), 2);
+  cells.forEach((value, cell) => {
+    if (active[cell]) writer.write(value, valueBits);
+  });
+  
+  const hasSeed = puzzle.seed !== undefined && Number.isSafeInteger(puzzle.seed) && puzzle.seed >= 0;
+  writer.writeFlag(hasSeed);
+  if (hasSeed) writer.writeVarint(puzzle.seed!);
+  
+  // Player values for the cells without a given, then pencil marks for those still empty
+  writer.writeFlag(progress !== undefined);
+  if (progress) {
+    cells.forEach((value, cell) => {
+      if (active[cell] && value === 0) writer.write(progress.values[cell], valueBits);
+    });
+    cells.forEach((_, cell) => {
+      if (!active[cell] || progress.values[cell] !== 0) return;
+      const marks = progress.pencilMarks[cell];
+      writer.writeFlag(marks.size > 0);
+      if (marks.size > 0) writer.write([...marks].reduce((mask, digit) => mask | (1 << (digit - 1)), 0), size);
+    });
+  }
+  
+  writer.writeFlag(puzzle.cages !== undefined);
+  if (puzzle.cages) {
+    writer.writeVarint(puzzle.cages.length);
+    for (const cage of puzzle.cages) {
+      writer.writeVarint(cage.sum);
+      writeCells(cage.cells);
+    }
+  }
+  
+  writer.writeFlag(puzzle.regions !== undefined);
+  puzzle.regions?.forEach(region => writer.write(region, bitsFor(size - 1)));
+  
+  [puzzle.diagonals, puzzle.windows, puzzle.kropkiNegative, puzzle.antiKnight, puzzle.antiKing, puzzle.nonConsecutive]
+    .forEach(rule => writer.writeFlag(rule === true));
+  
+  writer.writeFlag(puzzle.overlays !== undefined);
+  if (puzzle.overlays) {
+    writer.writeVarint(puzzle.overlays.length);
+    for (const overlay of puzzle.overlays) {
+      writer.write(OVERLAY_CODES.indexOf(getOverlayCode(overlay)), 3);
+      writeCells(overlay.cells);
+    }
+  }
+  
+  writer.writeFlag(puzzle.outsideClues !== undefined);
+  if (puzzle.outsideClues) {
+    writer.writeVarint(puzzle.outsideClues.length);
+    for (const clue of puzzle.outsideClues) {
+      writer.write(OUTSIDE_CLUE_KINDS.indexOf(clue.type), 1);
+      writer.writeVarint(clue.sum);
+      writeCells(clue.cells);
+    }
+  }
+  
+  return packShareCode(SHARE_CODE_VERSION, writer.toBytes());
+}
+
+/**
+ * Check that size and box dimensions describe a grid we can play
+ */
+function hasValidShape(size: unknown, blockRows: unknown, blockCols: unknown): boolean {
+  if (!Number.isInteger(size) || !Number.isInteger(blockRows) || !Number.isInteger(blockCols)) {
+    return false;
+  }
+  
+  return (
+    getConfigForSize(size as number) !== null &&
+    (blockRows as number) > 0 &&
+    (blockCols as number) > 0 &&
+    (blockRows as number) * (blockCols as number) === size
+  );
+}
+
+/**
+ * Check that killer cages are disjoint groups of cells with reachable sums
+ */
+function validateCages(cages: Cage[], size: number): string | null {
+  if (!Array.isArray(cages)) {
+    return 'Cages must be a list';
+  }
+  
+  const seen = new Set<number>();
+  for (const cage of cages) {
+    const cells = Array.isArray(cage?.cells) ? cage.cells : [];
+    if (cells.length === 0 || cells.length > size || cells.some(c => !Number.isInteger(c) || c < 0 || c >= size * size)) {
+      return `Every cage needs between 1 and ${size} cells inside the grid`;
+    }
+    if (cells.some(c => seen.has(c))) {
+      return 'Cages may not overlap';
+    }
+    cells.forEach(c => seen.add(c));
+    
+    const n = cells.length;
+    const min = (n * (n + 1)) / 2;
+    const max = (n * (2 * size - n + 1)) / 2;
+    if (!Number.isInteger(cage.sum) || cage.sum < min || cage.sum > max) {
+      return `A ${n}-cell cage cannot add up to ${cage.sum}`;
+    }
+  }
+  
+  return null;
+}
+
+/**
+ * Check that thermometers and arrows run through touching cells, and that
+ * greater-than signs, Kropki dots and XV signs sit between two orthogonal neighbours
+ */
+function validateOverlays(overlays: ConstraintOverlay[], size: number): string | null {
+  if (!Array.isArray(overlays)) {
+    return 'Overlays must be a list';
+  }
+  
+  for (const overlay of overlays) {
+    const cells = Array.isArray(overlay?.cells) ? overlay.cells : [];
+    const isEdge = EDGE_OVERLAYS.includes(overlay?.type);
+    if (!isEdge && !LINE_OVERLAYS.includes(overlay?.type)) {
+      return `Unknown overlay type ${overlay?.type}`;
+    }
+    if (overlay.type === 'kropki' && overlay.color !== 'white' && overlay.color !== 'black') {
+      return 'Kropki dots must be white or black';
+    }
+    if (overlay.type === 'xv' && overlay.sum !== 5 && overlay.sum !== 10) {
+      return 'XV signs must add up to 5 or 10';
+    }
+    if (cells.length < 2 || cells.some(c => !Number.isInteger(c) || c < 0 || c >= size * size)) {
+      return 'Every overlay needs at least two cells inside the grid';
+    }
+    if (new Set(cells).size !== cells.length) {
+      return 'An overlay may not visit a cell twice';
+    }
+    
+    if (isEdge && cells.length !== 2) {
+      return 'Signs and dots join exactly two cells';
+    }
+    
+    const touching = cells.slice(1).every((cell, i) => {
+      const rows = Math.abs(Math.floor(cell / size) - Math.floor(cells[i] / size));
+      const cols = Math.abs((cell % size) - (cells[i] % size));
+      return isEdge ? rows + cols === 1 : Math.max(rows, cols) === 1;
+    });
+    if (!touching) {
+      return isEdge
+        ? 'Signs and dots must sit between two neighbouring cells'
+        : 'Each cell of a thermometer or arrow must touch the one before it';
+    }
+  }
+  
+  return null;
+}
+
+/**
+ * Check that sandwich clues cover a whole row or column and Little Killer
+ * clues a whole diagonal, each listed from the clue inward, with reachable sums
+ */
+function validateOutsideClues(clues: OutsideClue[], size: number): string | null {
+  if (!Array.isArray(clues)) {
+    return 'Outside clues must be a list';
+  }
+  
+  const isInside = (row: number, col: number) => row >= 0 && row < size && col >= 0 && col < size;
+  for (const clue of clues) {
+    const cells = Array.isArray(clue?.cells) ? clue.cells : [];
+    if (clue?.type !== 'sandwich' && clue?.type !== 'littleKiller') {
+      return `Unknown outside clue type ${clue?.type}`;
+    }
+    if (cells.length < 2 || cells.some(c => !Number.isInteger(c) || c < 0 || c >= size * size)) {
+      return 'Every outside clue needs at least two cells inside the grid';
+    }
+    
+    // Every step must go the same way, starting and ending at the edge of the grid
+    const row = Math.floor(cells[0] / size);
+    const col = cells[0] % size;
+    const dr = Math.floor(cells[1] / size) - row;
+    const dc = (cells[1] % size) - col;
+    const isDiagonal = Math.abs(dr) === 1 && Math.abs(dc) === 1;
+    const isStraight = Math.abs(dr) + Math.abs(dc) === 1;
+    const isLine = cells.every((cell, i) => isInside(row + i * dr, col + i * dc) && cell === (row + i * dr) * size + col + i * dc);
+    const last = cells.length;
+    const isWhole = !isInside(row - dr, col - dc) && !isInside(row + last * dr, col + last * dc);
+    
+    if (clue.type === 'sandwich' && !(isStraight && isLine && isWhole)) {
+      return 'A sandwich clue must cover a whole row or column';
+    }
+    if (clue.type === 'littleKiller' && !(isDiagonal && isLine && isWhole)) {
+      return 'A Little Killer clue must run along a whole diagonal';
+    }
+    
+    // Digits may repeat along a diagonal; a sandwich holds at most 2..size-1
+    const max = clue.type === 'sandwich' ? (size * (size - 1)) / 2 - 1 : cells.length * size;
+    const min = clue.type === 'sandwich' ? 0 : cells.length;
+    if (!Number.isInteger(clue.sum) || clue.sum < min || clue.sum > max) {
+      return `An outside clue of ${clue.sum} cannot be met`;
+    }
+  }
+  
+  return null;
+}
+
+/**
+ * Validate a puzzle received from outside the app (share links, imports).
+ * Returns a user-facing error message, or null if the puzzle is playable.
+ */
+export function validatePuzzle(puzzle: Puzzle): string | null {
+  const { size, blockRows, blockCols, cells } = puzzle;
+  
+  if (!hasValidShape(size, blockRows, blockCols)) {
+    return `Unsupported grid shape ${size}×${size} with ${blockRows}×${blockCols} boxes`;
+  }
+  
+  if (puzzle.layout && !isLayoutName(puzzle.layout.name)) {
+    return `Unknown layout ${puzzle.layout.name}`;
+  }
+  
+  const cellCount = getCellCount(size, puzzle);
+  if (!Array.isArray(cells) || cells.length !== cellCount) {
+    return `Expected ${cellCount} cells, got ${Array.isArray(cells) ? cells.length : 0}`;
+  }
+  
+  if (cells.some(v => !Number.isInteger(v) || v < 0 || v > size)) {
+    return `Cell values must be between 0 and ${size}`;
+  }
+  
+  const active = getActiveCells(size, puzzle);
+  if (cells.some((v, i) => v !== 0 && !active[i])) {
+    return 'Cells outside the grids must stay empty';
+  }
+  
+  const cageError = puzzle.cages ? validateCages(puzzle.cages, size) : null;
+  if (cageError) {
+    return cageError;
+  }
+  
+  if (puzzle.regions && !isValidRegionMap(puzzle.regions, size)) {
+    return `Regions must split the grid into ${size} connected groups of ${size} cells`;
+  }
+  
+  const overlayError = puzzle.overlays ? validateOverlays(puzzle.overlays, size) : null;
+  if (overlayError) {
+    return overlayError;
+  }
+  
+  const outsideClueError = puzzle.outsideClues ? validateOutsideClues(puzzle.outsideClues, size) : null;
+  if (outsideClueError) {
+    return outsideClueError;
+  }
+  
+  if (!hasUniqueSolution(cells, size, blockRows, blockCols, puzzle)) {
+    return 'Puzzle does not have a unique solution';
+  }
+  
+  return null;
+}
+
+/**
+ * Whether uniqueness techniques may be used: only on a puzzle proven to have
+ * one solution, whatever its difficulty label says
+ */
+export function isUniquenessKnown(puzzle: Puzzle): boolean {
+  return puzzle.unique === true;
+}
+
+/**
+ * Decode a shared puzzle, with the progress the link carries if any.
+ * Throws a ShareCodeError saying what is wrong with a code that cannot be read.
+ */
+export function decodeSharedGame(encoded: string): { puzzle: Puzzle; progress?: SharedProgress } {
+  // Links from before share codes were versioned hold base64 JSON, which starts '{"'
+  if (encoded.startsWith('ey')) {
+    const puzzle = decodeLegacyPuzzle(encoded);
+    if (!puzzle) throw new ShareCodeError('invalid', 'Shared puzzle link is corrupt');
+    return { puzzle };
+  }
+  
+  const { version, payload } = unpackShareCode(encoded);
+  if (version !== SHARE_CODE_VERSION) {
+    throw new ShareCodeError('version', `Share code version ${version} is not supported`);
+  }
+  
+  const invalid = (message: string) => new ShareCodeError('invalid', message);
+  const reader = new BitReader(payload);
+  const size = reader.read(5);
+  const blockRows = reader.read(5);
+  const blockCols = size / blockRows;
+  
+  // Never build a solver for dimensions we do not support
+  if (!hasValidShape(size, blockRows, blockCols)) {
+    throw invalid(`Unsupported grid shape ${size}×${size} with ${blockRows}×${blockCols} boxes`);
+  }
+  
+  const difficulty = SHARE_DIFFICULTIES[reader.read(3)];
+  const symmetry = SHARE_SYMMETRIES[reader.read(3)];
+  if (!difficulty || !symmetry) {
+    throw invalid('Unknown difficulty or symmetry');
+  }
+  
+  const valueBits = bitsFor(size);
+  const variant: PuzzleVariant = {};
+  if (reader.readFlag()) {
+    const name = LAYOUT_NAMES[reader.read(2)];
+    if (!name) throw invalid('Unknown layout');
+    if (blockRows !== blockCols) throw invalid(`A ${name} layout needs square boxes`);
+    variant.layout = createLayout(name, size, blockRows, blockCols);
+  }
+  
+  const active = getActiveCells(size, variant);
+  const cellBits = bitsFor(active.length - 1);
+  const readCells = () => Array.from({ length: reader.readVarint() }, () => reader.read(cellBits));
+  const cells = active.map(isActive => (isActive ? reader.read(valueBits) : 0));
+  if (cells.some(value => value > size)) {
+    throw invalid(`Cell values must be between 0 and ${size}`);
+  }
+  
+  const seed = reader.readFlag() ? reader.readVarint() : undefined;
+  
+  let progress: SharedProgress | undefined;
+  if (reader.readFlag()) {
+    const values = cells.map((value, cell) => (active[cell] && value === 0 ? reader.read(valueBits) : value));
+    if (values.some(value => value > size)) {
+      throw invalid(`Cell values must be between 0 and ${size}`);
+    }
+    const pencilMarks = values.map((value, cell) => {
+      const marks = new Set<number>();
+      if (!active[cell] || value !== 0 || !reader.readFlag()) return marks;
+      const mask = reader.read(size);
+      for (let digit = 1; digit <= size; digit++) {
+        if (mask & (1 << (digit - 1))) marks.add(digit);
+      }
+      return marks;
+    });
+    progress = { values, pencilMarks };
+  }
+  
+  if (reader.readFlag()) {
+    variant.cages = Array.from({ length: reader.readVarint() }, () => {
+      const sum = reader.readVarint();
+      return { sum, cells: readCells() };
+    });
+  }
+  if (reader.readFlag()) {
+    variant.regions = Array.from({ length: size * size }, () => reader.read(bitsFor(size - 1)));
+  }
+  if (reader.readFlag()) variant.diagonals = true;
+  if (reader.readFlag()) variant.windows = true;
+  if (reader.readFlag()) variant.kropkiNegative = true;
+  if (reader.readFlag()) variant.antiKnight = true;
+  if (reader.readFlag()) variant.antiKing = true;
+  if (reader.readFlag()) variant.nonConsecutive = true;
+  if (reader.readFlag()) {
+    variant.overlays = Array.from({ length: reader.readVarint() }, () => {
+      const decoder = OVERLAY_DECODERS[OVERLAY_CODES[reader.read(3)]];
+      if (!decoder) throw invalid('Unknown overlay type');
+      return decoder(readCells());
+    });
+  }
+  if (reader.readFlag()) {
+    variant.outsideClues = Array.from({ length: reader.readVarint() }, () => {
+      const type = OUTSIDE_CLUE_KINDS[reader.read(1)];
+      const sum = reader.readVarint();
+      return { type, sum, cells: readCells() };
+    });
+  }
+  
+  const variantError =
+    (variant.cages && validateCages(variant.cages, size)) ||
+    (variant.regions && !isValidRegionMap(variant.regions, size) &&
+      `Regions must split the grid into ${size} connected groups of ${size} cells`) ||
+    (variant.overlays && validateOverlays(variant.overlays, size)) ||
+    (variant.outsideClues && validateOutsideClues(variant.outsideClues, size));
+  if (variantError) {
+    throw invalid(variantError);
+  }
+  
+  // Regenerate solution; the code's difficulty label proves nothing about uniqueness
+  const result = solvePuzzle(cells, size, blockRows, blockCols, variant);
+  const unique = hasUniqueSolution(cells, size, blockRows, blockCols, variant);
+  
+  return {
+    puzzle: {
+      size,
+      blockRows,
+      blockCols,
+      cells,
+      difficulty,
+      symmetry,
+      seed,
+      solution: result.solution,
+      rating: ratePuzzle(cells, size, blockRows, blockCols, unique, variant),
+      unique,
+      ...variant,
+    },
+    progress,
+  };
+}
+
+/**
+ * Decode puzzle from shareable string, throwing a ShareCodeError if it cannot be read
+ */
+export function decodePuzzle(encoded: string): Puzzle {
+  return decodeSharedGame(encoded).puzzle;
 }
 
 /**
- * Decode puzzle from shareable string
+ * Decode puzzle from a share string of the JSON format used before versioned codes
  */
-export function decodePuzzle(encoded: string): Puzzle | null {
+function decodeLegacyPuzzle(encoded: string): Puzzle | null {
   try {
-    const data = JSON.parse(atob(encoded));
+    // '+' turns into a space when links are pasted unescaped into a query string
+    const data = JSON.parse(atob(encoded.replace(/ /g, '+')));
+    
+    // Never build a solver for dimensions we do not support
+    if (!hasValidShape(data.s, data.br, data.bc)) {
+      return null;
+    }
     
     const difficultyMap: Record<string, Difficulty> = {
       E: 'Easy',
@@ -411,20 +993,59 @@ export function decodePuzzle(encoded: string): Puzzle | null {
     };
     
     const cells = data.c.split('').map((c: string) => parseInt(c, 36) || 0);
+    const variant: PuzzleVariant = {};
+    if (Array.isArray(data.k)) {
+      variant.cages = data.k.map(([sum, ...cageCells]: number[]) => ({ sum, cells: cageCells }));
+      if (validateCages(variant.cages!, data.s)) return null;
+    }
+    if (typeof data.r === 'string') {
+      variant.regions = data.r.split('').map((c: string) => parseInt(c, 36));
+      if (!isValidRegionMap(variant.regions!, data.s)) return null;
+    }
+    if (data.x) variant.diagonals = true;
+    if (data.w) variant.windows = true;
+    if (Array.isArray(data.o)) {
+      const decoders = data.o.map(([code]: [string]) => OVERLAY_DECODERS[code]);
+      if (decoders.some((decoder: unknown) => typeof decoder !== 'function')) return null;
+      variant.overlays = data.o.map(([, ...overlayCells]: [string, ...number[]], i: number) => decoders[i](overlayCells));
+      if (validateOverlays(variant.overlays!, data.s)) return null;
+    }
+    if (data.kn) variant.kropkiNegative = true;
+    if (data.an) variant.antiKnight = true;
+    if (data.ak) variant.antiKing = true;
+    if (data.nc) variant.nonConsecutive = true;
+    if (Array.isArray(data.oc)) {
+      const types = data.oc.map(([code]: [string]) => OUTSIDE_CLUE_TYPES[code]);
+      if (types.some((type: unknown) => type === undefined)) return null;
+      variant.outsideClues = data.oc.map(([, sum, ...clueCells]: [string, number, ...number[]], i: number) => ({
+        type: types[i],
+        cells: clueCells,
+        sum,
+      }));
+      if (validateOutsideClues(variant.outsideClues!, data.s)) return null;
+    }
+    if (data.l !== undefined) {
+      if (!isLayoutName(data.l)) return null;
+      variant.layout = createLayout(data.l, data.s, data.br, data.bc);
+    }
     
     // Regenerate solution
-    const solver = new DLXSolver(data.s, data.br, data.bc);
-    const result = solver.solve(cells);
+    const result = solvePuzzle(cells, data.s, data.br, data.bc, variant);
+    const unique = hasUniqueSolution(cells, data.s, data.br, data.bc, variant);
+    const difficulty = difficultyMap[data.d] || 'Medium';
     
     return {
       size: data.s,
       blockRows: data.br,
       blockCols: data.bc,
       cells,
-      difficulty: difficultyMap[data.d] || 'Medium',
+      difficulty,
       symmetry: symmetryMap[data.y] || 'rotational',
       seed: data.sd,
       solution: result.solution,
+      rating: ratePuzzle(cells, data.s, data.br, data.bc, unique, variant),
+      unique,
+      ...variant,
     };
   } catch {
     return null;
@@ -443,6 +1064,17 @@ export function exportPuzzleJson(puzzle: Puzzle): string {
     difficulty: puzzle.difficulty,
     symmetry: puzzle.symmetry,
     seed: puzzle.seed,
+    cages: puzzle.cages,
+    regions: puzzle.regions,
+    diagonals: puzzle.diagonals,
+    windows: puzzle.windows,
+    overlays: puzzle.overlays,
+    kropkiNegative: puzzle.kropkiNegative,
+    antiKnight: puzzle.antiKnight,
+    antiKing: puzzle.antiKing,
+    nonConsecutive: puzzle.nonConsecutive,
+    outsideClues: puzzle.outsideClues,
+    layout: puzzle.layout?.name,
   }, null, 2);
 }
 
@@ -457,18 +1089,52 @@ export function importPuzzleJson(json: string): Puzzle | null {
       return null;
     }
     
-    const solver = new DLXSolver(data.size, data.blockRows || 3, data.blockCols || 3);
-    const result = solver.solve(data.cells);
+    const blockRows = data.blockRows || 3;
+    const blockCols = data.blockCols || 3;
+    const variant: PuzzleVariant = {};
+    if (data.cages) {
+      if (validateCages(data.cages, data.size)) return null;
+      variant.cages = data.cages;
+    }
+    if (data.regions) {
+      if (!isValidRegionMap(data.regions, data.size)) return null;
+      variant.regions = data.regions;
+    }
+    if (data.diagonals) variant.diagonals = true;
+    if (data.windows) variant.windows = true;
+    if (data.overlays) {
+      if (validateOverlays(data.overlays, data.size)) return null;
+      variant.overlays = data.overlays;
+    }
+    if (data.kropkiNegative) variant.kropkiNegative = true;
+    if (data.antiKnight) variant.antiKnight = true;
+    if (data.antiKing) variant.antiKing = true;
+    if (data.nonConsecutive) variant.nonConsecutive = true;
+    if (data.outsideClues) {
+      if (validateOutsideClues(data.outsideClues, data.size)) return null;
+      variant.outsideClues = data.outsideClues;
+    }
+    if (data.layout) {
+      if (!isLayoutName(data.layout)) return null;
+      variant.layout = createLayout(data.layout, data.size, blockRows, blockCols);
+    }
+    
+    const result = solvePuzzle(data.cells, data.size, blockRows, blockCols, variant);
+    const unique = hasUniqueSolution(data.cells, data.size, blockRows, blockCols, variant);
+    const difficulty: Difficulty = data.difficulty || 'Medium';
     
     return {
       size: data.size,
-      blockRows: data.blockRows || 3,
-      blockCols: data.blockCols || 3,
+      blockRows,
+      blockCols,
       cells: data.cells,
-      difficulty: data.difficulty || 'Medium',
+      difficulty,
       symmetry: data.symmetry || 'none',
       seed: data.seed,
       solution: result.solution,
+      rating: ratePuzzle(data.cells, data.size, blockRows, blockCols, unique, variant),
+      unique,
+      ...variant,
     };
   } catch {
     return null;
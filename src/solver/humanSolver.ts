@@ -3,14 +3,52 @@
  * Uses constraint propagation and logical techniques
  */
 
-import { TechniqueType, SolveStep, SolverResult, HintResult } from '../types';
+import {
+  TechniqueType,
+  SolveStep,
+  SolverResult,
+  HintResult,
+  ChainNode,
+  ChainLinkType,
+  PuzzleVariant,
+  Cage,
+  OutsideClue,
+} from '../types';
+import { rateSteps, TECHNIQUE_WEIGHTS } from './rating';
+import {
+  DigitRange,
+  House,
+  PairRule,
+  RangeOverlay,
+  getBoxIndex,
+  getHouses,
+  getOutsideClueMasks,
+  getOverlayRange,
+  getPairMask,
+  getPairRules,
+  getPeers,
+  isClassic,
+} from './variants';
+import { getActiveCells } from './layouts';
+
+/**
+ * A house with, per digit, a bitmask of the positions in `indices` that can still hold it
+ */
+interface CandidateUnit extends House {
+  positions: number[];
+}
 
 export interface CandidateGrid {
   size: number;
+  width: number; // Cells per row of the canvas: `size`, or more for multi-grid layouts
   blockRows: number;
   blockCols: number;
   values: number[];
-  candidates: Set<number>[];
+  candidates: number[]; // Bit v is set while v can still go in the cell
+  units: CandidateUnit[]; // Rows, columns, boxes and extra houses, in getHouses order
+  cellUnits: { unit: CandidateUnit; bit: number }[][]; // The units of each cell and its position bit in them
+  cellBoxes: number[];
+  variant?: PuzzleVariant;
 }
 
 /**
@@ -20,35 +58,50 @@ export function initializeCandidates(
   puzzle: number[],
   size: number,
   blockRows: number,
-  blockCols: number
+  blockCols: number,
+  variant?: PuzzleVariant
 ): CandidateGrid {
-  const candidates: Set<number>[] = [];
-  const allCandidates = new Set(Array.from({ length: size }, (_, i) => i + 1));
+  const allCandidates = (1 << (size + 1)) - 2;
+  const active = getActiveCells(size, variant);
+  const candidates = puzzle.map((value, i) => (value === 0 && active[i] ? allCandidates : 0));
 
+  // Remove initial constraints
   for (let i = 0; i < puzzle.length; i++) {
-    if (puzzle[i] === 0) {
-      candidates.push(new Set(allCandidates));
-    } else {
-      candidates.push(new Set());
+    if (puzzle[i] !== 0) {
+      for (const peer of getPeers(i, size, blockRows, blockCols, variant)) {
+        candidates[peer] &= ~(1 << puzzle[i]);
+      }
     }
   }
 
-  const grid: CandidateGrid = {
+  // From here on setCandidates keeps the position masks in step
+  const units: CandidateUnit[] = getHouses(size, blockRows, blockCols, variant).map(house => ({
+    ...house,
+    positions: new Array(size + 1).fill(0),
+  }));
+  const cellUnits: { unit: CandidateUnit; bit: number }[][] = puzzle.map(() => []);
+  for (const unit of units) {
+    unit.indices.forEach((cell, position) => {
+      const bit = 1 << position;
+      cellUnits[cell].push({ unit, bit });
+      for (const num of getBits(candidates[cell])) {
+        unit.positions[num] |= bit;
+      }
+    });
+  }
+
+  return {
     size,
+    width: variant?.layout?.width ?? size,
     blockRows,
     blockCols,
     values: [...puzzle],
     candidates,
+    units,
+    cellUnits,
+    cellBoxes: puzzle.map((_, i) => getBoxIndex(i, size, blockRows, blockCols, variant)),
+    variant,
   };
-
-  // Remove initial constraints
-  for (let i = 0; i < puzzle.length; i++) {
-    if (puzzle[i] !== 0) {
-      eliminateFromPeers(grid, i, puzzle[i]);
-    }
-  }
-
-  return grid;
 }
 
 /**
@@ -69,44 +122,62 @@ export function getBox(row: number, col: number, blockRows: number, blockCols: n
 }
 
 /**
- * Get all peer indices for a cell (same row, column, or box)
+ * Set bits of a mask, lowest first: the digits of a candidate mask or the positions of a unit mask
  */
-export function getPeers(index: number, size: number, blockRows: number, blockCols: number): number[] {
-  const { row, col } = getCellPosition(index, size);
-  const peers = new Set<number>();
-
-  // Row peers
-  for (let c = 0; c < size; c++) {
-    const idx = row * size + c;
-    if (idx !== index) peers.add(idx);
+function getBits(mask: number): number[] {
+  const bits: number[] = [];
+  for (let rest = mask; rest !== 0; rest &= rest - 1) {
+    bits.push(31 - Math.clz32(rest & -rest));
   }
+  return bits;
+}
 
-  // Column peers
-  for (let r = 0; r < size; r++) {
-    const idx = r * size + col;
-    if (idx !== index) peers.add(idx);
-  }
+/**
+ * Number of set bits in a mask
+ */
+function countBits(mask: number): number {
+  let count = 0;
+  for (let rest = mask; rest !== 0; rest &= rest - 1) count++;
+  return count;
+}
 
-  // Box peers
-  const boxStartRow = Math.floor(row / blockRows) * blockRows;
-  const boxStartCol = Math.floor(col / blockCols) * blockCols;
-  for (let r = boxStartRow; r < boxStartRow + blockRows; r++) {
-    for (let c = boxStartCol; c < boxStartCol + blockCols; c++) {
-      const idx = r * size + c;
-      if (idx !== index) peers.add(idx);
+/**
+ * Replace the candidates of a cell, keeping the position masks of its units in step
+ */
+function setCandidates(grid: CandidateGrid, index: number, mask: number): void {
+  const changed = grid.candidates[index] ^ mask;
+  if (changed === 0) return;
+
+  grid.candidates[index] = mask;
+  for (let rest = changed; rest !== 0; rest &= rest - 1) {
+    const num = 31 - Math.clz32(rest & -rest);
+    for (const { unit, bit } of grid.cellUnits[index]) {
+      unit.positions[num] ^= bit;
     }
   }
+}
+
+/**
+ * Whether a cell still has `num` as a candidate
+ */
+function hasCandidate(grid: CandidateGrid, index: number, num: number): boolean {
+  return (grid.candidates[index] & (1 << num)) !== 0;
+}
 
-  return Array.from(peers);
+/**
+ * Remove one candidate from a cell
+ */
+function eliminate(grid: CandidateGrid, index: number, num: number): void {
+  setCandidates(grid, index, grid.candidates[index] & ~(1 << num));
 }
 
 /**
  * Eliminate a value from all peers of a cell
  */
 function eliminateFromPeers(grid: CandidateGrid, index: number, value: number): void {
-  const peers = getPeers(index, grid.size, grid.blockRows, grid.blockCols);
+  const peers = getPeers(index, grid.size, grid.blockRows, grid.blockCols, grid.variant);
   for (const peer of peers) {
-    grid.candidates[peer].delete(value);
+    eliminate(grid, peer, value);
   }
 }
 
@@ -115,49 +186,87 @@ function eliminateFromPeers(grid: CandidateGrid, index: number, value: number):
  */
 function placeValue(grid: CandidateGrid, index: number, value: number): void {
   grid.values[index] = value;
-  grid.candidates[index].clear();
+  setCandidates(grid, index, 0);
   eliminateFromPeers(grid, index, value);
 }
 
 /**
- * Get row indices
+ * Get the cells of a unit that can still hold `num`
  */
-function getRowIndices(row: number, size: number): number[] {
-  return Array.from({ length: size }, (_, i) => row * size + i);
+function getUnitCells(unit: CandidateUnit, num: number): number[] {
+  return getBits(unit.positions[num]).map(position => unit.indices[position]);
 }
 
 /**
- * Get column indices
+ * Get every box (or jigsaw region) of a single grid, which follow its rows and columns in the units
  */
-function getColIndices(col: number, size: number): number[] {
-  return Array.from({ length: size }, (_, i) => i * size + col);
+function getGridBoxes(grid: CandidateGrid): CandidateUnit[] {
+  return grid.units.slice(2 * grid.size, 3 * grid.size);
 }
 
 /**
- * Get box indices
+ * Get cell name for explanations
  */
-function getBoxIndices(boxIdx: number, size: number, blockRows: number, blockCols: number): number[] {
-  const boxesPerRow = size / blockCols;
-  const boxRow = Math.floor(boxIdx / boxesPerRow);
-  const boxCol = boxIdx % boxesPerRow;
-  const startRow = boxRow * blockRows;
-  const startCol = boxCol * blockCols;
-  
-  const indices: number[] = [];
-  for (let r = startRow; r < startRow + blockRows; r++) {
-    for (let c = startCol; c < startCol + blockCols; c++) {
-      indices.push(r * size + c);
-    }
+function getCellName(index: number, size: number): string {
+  const { row, col } = getCellPosition(index, size);
+  return `R${row + 1}C${col + 1}`;
+}
+
+/**
+ * Get sorted candidates of a cell
+ */
+function getCandidates(grid: CandidateGrid, index: number): number[] {
+  return getBits(grid.candidates[index]);
+}
+
+/**
+ * Get the box (or region) index containing a cell
+ */
+function getCellBox(grid: CandidateGrid, index: number): number {
+  return grid.cellBoxes[index];
+}
+
+/**
+ * Check whether two different cells share a row, column, box, or a group added by the variant
+ */
+function sees(grid: CandidateGrid, a: number, b: number): boolean {
+  if (a === b) return false;
+  const { size } = grid;
+  if (Math.floor(a / size) === Math.floor(b / size) || a % size === b % size || getCellBox(grid, a) === getCellBox(grid, b)) {
+    return true;
   }
-  return indices;
+  return !isClassic(grid.variant) && getPeers(a, grid.size, grid.blockRows, grid.blockCols, grid.variant).includes(b);
 }
 
 /**
- * Get cell name for explanations
+ * All k-element combinations of items, in order
  */
-function getCellName(index: number, size: number): string {
-  const { row, col } = getCellPosition(index, size);
-  return `R${row + 1}C${col + 1}`;
+function combinations<T>(items: T[], k: number): T[][] {
+  const result: T[][] = [];
+  const combo: T[] = [];
+
+  const pick = (start: number) => {
+    if (combo.length === k) {
+      result.push([...combo]);
+      return;
+    }
+    for (let i = start; i <= items.length - (k - combo.length); i++) {
+      combo.push(items[i]);
+      pick(i + 1);
+      combo.pop();
+    }
+  };
+
+  pick(0);
+  return result;
+}
+
+/**
+ * Join numbers for explanations: "1, 4 and 7"
+ */
+function formatList(items: (number | string)[]): string {
+  if (items.length <= 1) return items.join('');
+  return `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
 }
 
 /**
@@ -165,14 +274,15 @@ function getCellName(index: number, size: number): string {
  */
 function findNakedSingle(grid: CandidateGrid): SolveStep | null {
   for (let i = 0; i < grid.values.length; i++) {
-    if (grid.values[i] === 0 && grid.candidates[i].size === 1) {
-      const value = Array.from(grid.candidates[i])[0];
+    const mask = grid.candidates[i];
+    if (grid.values[i] === 0 && mask !== 0 && (mask & (mask - 1)) === 0) {
+      const value = getBits(mask)[0];
       return {
         step: 0,
         type: 'Single Candidate',
         cells: [i],
         values: [value],
-        explanation: `Cell ${getCellName(i, grid.size)} has only one candidate: ${value}`,
+        explanation: `Cell ${getCellName(i, grid.width)} has only one candidate: ${value}`,
       };
     }
   }
@@ -183,47 +293,26 @@ function findNakedSingle(grid: CandidateGrid): SolveStep | null {
  * Find hidden single: value that can only go in one cell in a unit
  */
 function findHiddenSingle(grid: CandidateGrid): SolveStep | null {
-  const { size, blockRows, blockCols } = grid;
-  const numBoxes = (size / blockRows) * (size / blockCols);
-
-  // Check rows
-  for (let row = 0; row < size; row++) {
-    const indices = getRowIndices(row, size);
-    const step = findHiddenSingleInUnit(grid, indices, `row ${row + 1}`);
-    if (step) return step;
-  }
-
-  // Check columns
-  for (let col = 0; col < size; col++) {
-    const indices = getColIndices(col, size);
-    const step = findHiddenSingleInUnit(grid, indices, `column ${col + 1}`);
-    if (step) return step;
-  }
-
-  // Check boxes
-  for (let box = 0; box < numBoxes; box++) {
-    const indices = getBoxIndices(box, size, blockRows, blockCols);
-    const step = findHiddenSingleInUnit(grid, indices, `box ${box + 1}`);
+  for (const unit of grid.units) {
+    const step = findHiddenSingleInUnit(grid, unit);
     if (step) return step;
   }
 
   return null;
 }
 
-function findHiddenSingleInUnit(grid: CandidateGrid, indices: number[], unitName: string): SolveStep | null {
+function findHiddenSingleInUnit(grid: CandidateGrid, unit: CandidateUnit): SolveStep | null {
   for (let num = 1; num <= grid.size; num++) {
-    const possibleCells = indices.filter(
-      i => grid.values[i] === 0 && grid.candidates[i].has(num)
-    );
+    const positions = unit.positions[num];
     
-    if (possibleCells.length === 1) {
-      const cellIdx = possibleCells[0];
+    if (positions !== 0 && (positions & (positions - 1)) === 0) {
+      const cellIdx = unit.indices[getBits(positions)[0]];
       return {
         step: 0,
         type: 'Hidden Single',
         cells: [cellIdx],
         values: [num],
-        explanation: `${num} can only go in ${getCellName(cellIdx, grid.size)} in ${unitName}`,
+        explanation: `${num} can only go in ${getCellName(cellIdx, grid.width)} in ${unit.name}`,
       };
     }
   }
@@ -234,28 +323,24 @@ function findHiddenSingleInUnit(grid: CandidateGrid, indices: number[], unitName
  * Find naked pair: two cells in a unit with same two candidates
  */
 function findNakedPair(grid: CandidateGrid): SolveStep | null {
-  const { size, blockRows, blockCols } = grid;
-  const numBoxes = (size / blockRows) * (size / blockCols);
-
   const checkUnit = (indices: number[], unitName: string): SolveStep | null => {
     const cellsWithTwoCandidates = indices.filter(
-      i => grid.values[i] === 0 && grid.candidates[i].size === 2
+      i => grid.values[i] === 0 && countBits(grid.candidates[i]) === 2
     );
 
     for (let i = 0; i < cellsWithTwoCandidates.length; i++) {
       for (let j = i + 1; j < cellsWithTwoCandidates.length; j++) {
         const cell1 = cellsWithTwoCandidates[i];
         const cell2 = cellsWithTwoCandidates[j];
-        const cands1 = Array.from(grid.candidates[cell1]);
-        const cands2 = Array.from(grid.candidates[cell2]);
+        const pair = grid.candidates[cell1];
 
-        if (cands1.length === 2 && cands1[0] === cands2[0] && cands1[1] === cands2[1]) {
+        if (pair === grid.candidates[cell2]) {
           // Found a pair, check if it eliminates anything
           const eliminations: { cell: number; values: number[] }[] = [];
           
           for (const idx of indices) {
             if (idx !== cell1 && idx !== cell2 && grid.values[idx] === 0) {
-              const elims = cands1.filter(v => grid.candidates[idx].has(v));
+              const elims = getBits(grid.candidates[idx] & pair);
               if (elims.length > 0) {
                 eliminations.push({ cell: idx, values: elims });
               }
@@ -263,13 +348,14 @@ function findNakedPair(grid: CandidateGrid): SolveStep | null {
           }
 
           if (eliminations.length > 0) {
+            const cands = getBits(pair);
             return {
               step: 0,
               type: 'Naked Pair',
               cells: [cell1, cell2],
-              values: cands1,
+              values: cands,
               eliminatedCandidates: eliminations,
-              explanation: `Cells ${getCellName(cell1, grid.size)} and ${getCellName(cell2, grid.size)} form a naked pair {${cands1.join(', ')}} in ${unitName}, eliminating these values from other cells`,
+              explanation: `Cells ${getCellName(cell1, grid.width)} and ${getCellName(cell2, grid.width)} form a naked pair {${cands.join(', ')}} in ${unitName}, eliminating these values from other cells`,
             };
           }
         }
@@ -278,19 +364,8 @@ function findNakedPair(grid: CandidateGrid): SolveStep | null {
     return null;
   };
 
-  // Check all units
-  for (let row = 0; row < size; row++) {
-    const step = checkUnit(getRowIndices(row, size), `row ${row + 1}`);
-    if (step) return step;
-  }
-  
-  for (let col = 0; col < size; col++) {
-    const step = checkUnit(getColIndices(col, size), `column ${col + 1}`);
-    if (step) return step;
-  }
-  
-  for (let box = 0; box < numBoxes; box++) {
-    const step = checkUnit(getBoxIndices(box, size, blockRows, blockCols), `box ${box + 1}`);
+  for (const unit of grid.units) {
+    const step = checkUnit(unit.indices, unit.name);
     if (step) return step;
   }
 
@@ -301,38 +376,29 @@ function findNakedPair(grid: CandidateGrid): SolveStep | null {
  * Find hidden pair: two values that only appear in two cells in a unit
  */
 function findHiddenPair(grid: CandidateGrid): SolveStep | null {
-  const { size, blockRows, blockCols } = grid;
-  const numBoxes = (size / blockRows) * (size / blockCols);
+  const { size } = grid;
 
-  const checkUnit = (indices: number[], unitName: string): SolveStep | null => {
-    // Find which cells each value can go in
-    const valueCells: Map<number, number[]> = new Map();
+  const checkUnit = (unit: CandidateUnit): SolveStep | null => {
+    // Values with exactly two places in the unit
+    const values: number[] = [];
     for (let num = 1; num <= size; num++) {
-      const cells = indices.filter(
-        i => grid.values[i] === 0 && grid.candidates[i].has(num)
-      );
-      if (cells.length === 2) {
-        valueCells.set(num, cells);
+      if (countBits(unit.positions[num]) === 2) {
+        values.push(num);
       }
     }
 
     // Find pairs of values that share the same two cells
-    const values = Array.from(valueCells.keys());
     for (let i = 0; i < values.length; i++) {
       for (let j = i + 1; j < values.length; j++) {
-        const cells1 = valueCells.get(values[i])!;
-        const cells2 = valueCells.get(values[j])!;
-        
-        if (cells1[0] === cells2[0] && cells1[1] === cells2[1]) {
-          const pairCells = cells1;
+        if (unit.positions[values[i]] === unit.positions[values[j]]) {
+          const pairCells = getUnitCells(unit, values[i]);
           const pairValues = [values[i], values[j]];
+          const pairMask = (1 << values[i]) | (1 << values[j]);
           
           // Check if there are other candidates to eliminate
           const eliminations: { cell: number; values: number[] }[] = [];
           for (const cell of pairCells) {
-            const otherCands = Array.from(grid.candidates[cell]).filter(
-              v => !pairValues.includes(v)
-            );
+            const otherCands = getBits(grid.candidates[cell] & ~pairMask);
             if (otherCands.length > 0) {
               eliminations.push({ cell, values: otherCands });
             }
@@ -345,7 +411,7 @@ function findHiddenPair(grid: CandidateGrid): SolveStep | null {
               cells: pairCells,
               values: pairValues,
               eliminatedCandidates: eliminations,
-              explanation: `Values {${pairValues.join(', ')}} can only go in ${getCellName(pairCells[0], size)} and ${getCellName(pairCells[1], size)} in ${unitName}, so other candidates in these cells can be eliminated`,
+              explanation: `Values {${pairValues.join(', ')}} can only go in ${getCellName(pairCells[0], grid.width)} and ${getCellName(pairCells[1], grid.width)} in ${unit.name}, so other candidates in these cells can be eliminated`,
             };
           }
         }
@@ -354,143 +420,125 @@ function findHiddenPair(grid: CandidateGrid): SolveStep | null {
     return null;
   };
 
-  for (let row = 0; row < size; row++) {
-    const step = checkUnit(getRowIndices(row, size), `row ${row + 1}`);
-    if (step) return step;
-  }
-  
-  for (let col = 0; col < size; col++) {
-    const step = checkUnit(getColIndices(col, size), `column ${col + 1}`);
-    if (step) return step;
-  }
-  
-  for (let box = 0; box < numBoxes; box++) {
-    const step = checkUnit(getBoxIndices(box, size, blockRows, blockCols), `box ${box + 1}`);
+  for (const unit of grid.units) {
+    const step = checkUnit(unit);
     if (step) return step;
   }
 
   return null;
 }
 
+type FishOrientation = 'row' | 'col';
+
+interface FishLine {
+  line: number;
+  cells: number[];
+  covers: number; // Positions of the candidates along the line, which are the cover lines they fall in
+}
+
+const FISH_NAMES: Record<number, { basic: TechniqueType; finned: TechniqueType }> = {
+  2: { basic: 'X-Wing', finned: 'Finned X-Wing' },
+  3: { basic: 'Swordfish', finned: 'Finned Swordfish' },
+  4: { basic: 'Jellyfish', finned: 'Finned Jellyfish' },
+};
+
+/**
+ * Collect the base lines of one orientation that hold `num` between min and max times
+ */
+function getFishLines(
+  grid: CandidateGrid,
+  num: number,
+  orientation: FishOrientation,
+  minCount: number,
+  maxCount: number
+): FishLine[] {
+  const { size } = grid;
+  const lines: FishLine[] = [];
+
+  for (let line = 0; line < size; line++) {
+    // Rows come first in the units, then columns
+    const unit = grid.units[orientation === 'row' ? line : size + line];
+    const covers = unit.positions[num];
+    const count = countBits(covers);
+    if (count >= minCount && count <= maxCount) {
+      lines.push({ line, cells: getUnitCells(unit, num), covers });
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Get the cells of a cover line (a column for row-based fish, a row for column-based fish)
+ * that hold `num`, leaving out the base lines in `baseMask`
+ */
+function getCoverCells(
+  grid: CandidateGrid,
+  cover: number,
+  orientation: FishOrientation,
+  num: number,
+  baseMask: number
+): number[] {
+  const unit = grid.units[orientation === 'row' ? grid.size + cover : cover];
+  return getBits(unit.positions[num] & ~baseMask).map(position => unit.indices[position]);
+}
+
 /**
- * Find X-Wing pattern
+ * Find a basic fish (X-Wing, Swordfish, Jellyfish): `order` base lines whose
+ * candidates for a value lie in exactly `order` cover lines
  */
-function findXWing(grid: CandidateGrid): SolveStep | null {
+function findFish(grid: CandidateGrid, order: number): SolveStep | null {
   const { size } = grid;
+  const name = FISH_NAMES[order].basic;
 
   for (let num = 1; num <= size; num++) {
-    // Check rows for X-Wing
-    const rowsWith2Cells: { row: number; cols: number[] }[] = [];
-    
-    for (let row = 0; row < size; row++) {
-      const cols = [];
-      for (let col = 0; col < size; col++) {
-        const idx = row * size + col;
-        if (grid.values[idx] === 0 && grid.candidates[idx].has(num)) {
-          cols.push(col);
-        }
-      }
-      if (cols.length === 2) {
-        rowsWith2Cells.push({ row, cols });
-      }
-    }
+    for (const orientation of ['row', 'col'] as FishOrientation[]) {
+      const lines = getFishLines(grid, num, orientation, 2, order);
 
-    // Find two rows with same column positions
-    for (let i = 0; i < rowsWith2Cells.length; i++) {
-      for (let j = i + 1; j < rowsWith2Cells.length; j++) {
-        const r1 = rowsWith2Cells[i];
-        const r2 = rowsWith2Cells[j];
-        
-        if (r1.cols[0] === r2.cols[0] && r1.cols[1] === r2.cols[1]) {
-          // Found X-Wing, check for eliminations in columns
-          const eliminations: { cell: number; values: number[] }[] = [];
-          
-          for (const col of r1.cols) {
-            for (let row = 0; row < size; row++) {
-              if (row !== r1.row && row !== r2.row) {
-                const idx = row * size + col;
-                if (grid.values[idx] === 0 && grid.candidates[idx].has(num)) {
-                  eliminations.push({ cell: idx, values: [num] });
-                }
-              }
-            }
-          }
+      for (const base of combinations(lines, order)) {
+        const coverMask = base.reduce((mask, l) => mask | l.covers, 0);
+        if (countBits(coverMask) !== order) continue;
 
-          if (eliminations.length > 0) {
-            const cells = [
-              r1.row * size + r1.cols[0],
-              r1.row * size + r1.cols[1],
-              r2.row * size + r2.cols[0],
-              r2.row * size + r2.cols[1],
-            ];
-            
-            return {
-              step: 0,
-              type: 'X-Wing',
-              cells,
-              values: [num],
-              eliminatedCandidates: eliminations,
-              explanation: `X-Wing on ${num} in rows ${r1.row + 1} and ${r2.row + 1}, columns ${r1.cols[0] + 1} and ${r1.cols[1] + 1}. Eliminating ${num} from other cells in these columns.`,
-            };
+        const covers = getBits(coverMask);
+        const baseLines = base.map(l => l.line);
+        const baseMask = baseLines.reduce((mask, line) => mask | (1 << line), 0);
+        const eliminations: { cell: number; values: number[] }[] = [];
+
+        for (const cover of covers) {
+          for (const idx of getCoverCells(grid, cover, orientation, num, baseMask)) {
+            eliminations.push({ cell: idx, values: [num] });
           }
         }
-      }
-    }
 
-    // Check columns for X-Wing (similar logic, swapped)
-    const colsWith2Cells: { col: number; rows: number[] }[] = [];
-    
-    for (let col = 0; col < size; col++) {
-      const rows = [];
-      for (let row = 0; row < size; row++) {
-        const idx = row * size + col;
-        if (grid.values[idx] === 0 && grid.candidates[idx].has(num)) {
-          rows.push(row);
+        if (eliminations.length > 0) {
+          const [baseName, coverName] = orientation === 'row' ? ['rows', 'columns'] : ['columns', 'rows'];
+
+          return {
+            step: 0,
+            type: name,
+            cells: base.flatMap(l => l.cells),
+            values: [num],
+            eliminatedCandidates: eliminations,
+            explanation: `${name} on ${num} in ${baseName} ${formatList(baseLines.map(l => l + 1))}, ${coverName} ${formatList(covers.map(c => c + 1))}. Eliminating ${num} from other cells in these ${coverName}.`,
+          };
         }
       }
-      if (rows.length === 2) {
-        colsWith2Cells.push({ col, rows });
-      }
     }
+  }
 
-    for (let i = 0; i < colsWith2Cells.length; i++) {
-      for (let j = i + 1; j < colsWith2Cells.length; j++) {
-        const c1 = colsWith2Cells[i];
-        const c2 = colsWith2Cells[j];
-        
-        if (c1.rows[0] === c2.rows[0] && c1.rows[1] === c2.rows[1]) {
-          const eliminations: { cell: number; values: number[] }[] = [];
-          
-          for (const row of c1.rows) {
-            for (let col = 0; col < size; col++) {
-              if (col !== c1.col && col !== c2.col) {
-                const idx = row * size + col;
-                if (grid.values[idx] === 0 && grid.candidates[idx].has(num)) {
-                  eliminations.push({ cell: idx, values: [num] });
-                }
-              }
-            }
-          }
+  return null;
+}
 
-          if (eliminations.length > 0) {
-            const cells = [
-              c1.rows[0] * size + c1.col,
-              c1.rows[1] * size + c1.col,
-              c1.rows[0] * size + c2.col,
-              c1.rows[1] * size + c2.col,
-            ];
-            
-            return {
-              step: 0,
-              type: 'X-Wing',
-              cells,
-              values: [num],
-              eliminatedCandidates: eliminations,
-              explanation: `X-Wing on ${num} in columns ${c1.col + 1} and ${c2.col + 1}, rows ${c1.rows[0] + 1} and ${c1.rows[1] + 1}. Eliminating ${num} from other cells in these rows.`,
-            };
-          }
-        }
-      }
+/**
+ * Find a finned fish: a fish that only fails because some extra candidates
+ * (the fins) sit in a single box. Either the fish holds or a fin is true,
+ * so cells in the cover lines that also see every fin can be eliminated.
+ */
+function findFinnedFish(grid: CandidateGrid, order: number): SolveStep | null {
+  for (let num = 1; num <= grid.size; num++) {
+    for (const orientation of ['row', 'col'] as FishOrientation[]) {
+      const step = findFinnedFishOn(grid, order, num, orientation);
+      if (step) return step;
     }
   }
 
@@ -498,68 +546,177 @@ function findXWing(grid: CandidateGrid): SolveStep | null {
 }
 
 /**
- * Find pointing pair: candidates in a box that are confined to one row/column
+ * Search the base lines of one digit and orientation for a finned fish, depth-first
+ * in combination order, carrying the masks of the covers reached and the lines chosen
  */
-function findPointingPair(grid: CandidateGrid): SolveStep | null {
+function findFinnedFishOn(
+  grid: CandidateGrid,
+  order: number,
+  num: number,
+  orientation: FishOrientation
+): SolveStep | null {
   const { size, blockRows, blockCols } = grid;
-  const numBoxes = (size / blockRows) * (size / blockCols);
+  const name = FISH_NAMES[order].finned;
+
+  // Fins share a box, so a base line holds at most one box-width of them; a region can span the line
+  const finSpan = grid.variant?.regions ? size : orientation === 'row' ? blockCols : blockRows;
+  const lines = getFishLines(grid, num, orientation, 1, order + finSpan);
+  const coverOf = (idx: number) => (orientation === 'row' ? idx % size : Math.floor(idx / size));
+  const lineOf = (idx: number) => (orientation === 'row' ? Math.floor(idx / size) : idx % size);
+  const boxes = getGridBoxes(grid);
+  const boxCovers = boxes.map(box => box.indices.reduce((mask, i) => mask | (1 << coverOf(i)), 0));
+  const boxLines = boxes.map(box => getUnitCells(box, num).reduce((mask, i) => mask | (1 << lineOf(i)), 0));
+
+  // A fin box leaves every cover outside the lines it spans required, and can only
+  // lose the digit off the base lines; adding base lines never helps with either
+  const viable = (covers: number, baseMask: number) =>
+    boxes.some((_, box) => (boxLines[box] & ~baseMask) !== 0 && countBits(covers & ~boxCovers[box]) <= order);
+
+  // A box holding base cells can be the fin box if, besides the above, the digit
+  // sits in it off the base lines in a line some base cell covers
+  const canBeFinBox = (box: number, covers: number, baseMask: number) =>
+    (boxLines[box] & baseMask) !== 0 &&
+    (boxLines[box] & ~baseMask) !== 0 &&
+    countBits(covers & ~boxCovers[box]) <= order &&
+    getUnitCells(boxes[box], num).some(i => !(baseMask & (1 << lineOf(i))) && (covers & (1 << coverOf(i))));
+
+  const checkBase = (base: FishLine[], allCovers: number, baseMask: number): SolveStep | null => {
+    if (countBits(allCovers) <= order || !boxes.some((_, box) => canBeFinBox(box, allCovers, baseMask))) return null;
+
+    const baseCells = base.flatMap(l => l.cells);
+    const baseLines = base.map(l => l.line);
+
+    // Fin boxes in the order the base cells reach them
+    const finBoxes: number[] = [];
+    for (const idx of baseCells) {
+      const box = getCellBox(grid, idx);
+      if (!finBoxes.includes(box) && canBeFinBox(box, allCovers, baseMask)) finBoxes.push(box);
+    }
 
-  for (let box = 0; box < numBoxes; box++) {
-    const boxIndices = getBoxIndices(box, size, blockRows, blockCols);
-    
-    for (let num = 1; num <= size; num++) {
-      const cellsWithNum = boxIndices.filter(
-        i => grid.values[i] === 0 && grid.candidates[i].has(num)
-      );
-      
-      if (cellsWithNum.length < 2 || cellsWithNum.length > blockRows) continue;
+    for (const finBox of finBoxes) {
+      // Candidates outside the fin box must all be covered
+      const required = baseCells
+        .filter(i => getCellBox(grid, i) !== finBox)
+        .reduce((mask, i) => mask | (1 << coverOf(i)), 0);
+      const requiredCount = countBits(required);
+      if (requiredCount > order) continue;
+
+      const optional: number[] = [];
+      for (const idx of baseCells) {
+        const cover = coverOf(idx);
+        if (getCellBox(grid, idx) === finBox && !(required & (1 << cover)) && !optional.includes(cover)) {
+          optional.push(cover);
+        }
+      }
+
+      for (const extra of combinations(optional, order - requiredCount)) {
+        const coverMask = extra.reduce((mask, cover) => mask | (1 << cover), required);
+        const covers = getBits(coverMask);
+        const fins = baseCells.filter(i => !(coverMask & (1 << coverOf(i))));
+        if (fins.length === 0) continue;
 
-      // Check if all in same row
-      const rows = cellsWithNum.map(i => Math.floor(i / size));
-      if (new Set(rows).size === 1) {
-        const row = rows[0];
         const eliminations: { cell: number; values: number[] }[] = [];
-        
-        for (let col = 0; col < size; col++) {
-          const idx = row * size + col;
-          if (!boxIndices.includes(idx) && grid.values[idx] === 0 && grid.candidates[idx].has(num)) {
-            eliminations.push({ cell: idx, values: [num] });
+        for (const cover of covers) {
+          for (const idx of getCoverCells(grid, cover, orientation, num, baseMask)) {
+            if (getCellBox(grid, idx) === finBox) {
+              eliminations.push({ cell: idx, values: [num] });
+            }
           }
         }
 
         if (eliminations.length > 0) {
+          const [baseName, coverName] = orientation === 'row' ? ['rows', 'columns'] : ['columns', 'rows'];
+          const finNames = fins.map(i => getCellName(i, size));
+
           return {
             step: 0,
-            type: 'Pointing Pair',
-            cells: cellsWithNum,
+            type: name,
+            cells: baseCells,
             values: [num],
             eliminatedCandidates: eliminations,
-            explanation: `In box ${box + 1}, ${num} is confined to row ${row + 1}. Eliminating ${num} from other cells in this row.`,
+            explanation: `${name} on ${num} in ${baseName} ${formatList(baseLines.map(l => l + 1))}, ${coverName} ${formatList(covers.map(c => c + 1))}, with fin${fins.length > 1 ? 's' : ''} ${formatList(finNames)} in ${boxes[finBox].name}. Either the fish holds or a fin is ${num}, so ${num} can be eliminated from cells in these ${coverName} that see the fin${fins.length > 1 ? 's' : ''}.`,
           };
         }
       }
+    }
 
-      // Check if all in same column
-      const cols = cellsWithNum.map(i => i % size);
-      if (new Set(cols).size === 1) {
-        const col = cols[0];
-        const eliminations: { cell: number; values: number[] }[] = [];
-        
-        for (let row = 0; row < size; row++) {
-          const idx = row * size + col;
-          if (!boxIndices.includes(idx) && grid.values[idx] === 0 && grid.candidates[idx].has(num)) {
-            eliminations.push({ cell: idx, values: [num] });
-          }
-        }
+    return null;
+  };
+
+  const base: FishLine[] = [];
+  const search = (start: number, covers: number, baseMask: number): SolveStep | null => {
+    if (base.length === order) return checkBase(base, covers, baseMask);
 
+    for (let i = start; i <= lines.length - (order - base.length); i++) {
+      const nextCovers = covers | lines[i].covers;
+      const nextBaseMask = baseMask | (1 << lines[i].line);
+      if (!viable(nextCovers, nextBaseMask)) continue;
+
+      base.push(lines[i]);
+      const step = search(i + 1, nextCovers, nextBaseMask);
+      base.pop();
+      if (step) return step;
+    }
+
+    return null;
+  };
+
+  return search(0, 0, 0);
+}
+
+/**
+ * Collect eliminations of `value` from empty cells that see every cell in `sources`
+ */
+function getCommonPeerEliminations(
+  grid: CandidateGrid,
+  sources: number[],
+  value: number
+): { cell: number; values: number[] }[] {
+  const eliminations: { cell: number; values: number[] }[] = [];
+
+  for (let idx = 0; idx < grid.values.length; idx++) {
+    if (grid.values[idx] !== 0 || !hasCandidate(grid, idx, value) || sources.includes(idx)) continue;
+    if (sources.every(source => sees(grid, idx, source))) {
+      eliminations.push({ cell: idx, values: [value] });
+    }
+  }
+
+  return eliminations;
+}
+
+/**
+ * Find XY-Wing: a bivalue pivot {x, y} seeing pincers {x, z} and {y, z}.
+ * One pincer must be z, so z is eliminated from cells seeing both pincers.
+ */
+function findXYWing(grid: CandidateGrid): SolveStep | null {
+  const { size } = grid;
+  const bivalue = grid.values
+    .map((_, i) => i)
+    .filter(i => grid.values[i] === 0 && countBits(grid.candidates[i]) === 2);
+
+  for (const pivot of bivalue) {
+    const [x, y] = getCandidates(grid, pivot);
+    const wings = bivalue.filter(i => sees(grid, pivot, i));
+
+    for (const pincer1 of wings) {
+      const cands1 = getCandidates(grid, pincer1);
+      if (!cands1.includes(x) || cands1.includes(y)) continue;
+      const z = cands1.find(v => v !== x)!;
+
+      for (const pincer2 of wings) {
+        if (pincer2 === pincer1) continue;
+        const cands2 = getCandidates(grid, pincer2);
+        if (!cands2.includes(y) || !cands2.includes(z)) continue;
+
+        const eliminations = getCommonPeerEliminations(grid, [pincer1, pincer2], z);
         if (eliminations.length > 0) {
           return {
             step: 0,
-            type: 'Pointing Pair',
-            cells: cellsWithNum,
-            values: [num],
+            type: 'XY-Wing',
+            cells: [pivot, pincer1, pincer2],
+            values: [x, y, z],
             eliminatedCandidates: eliminations,
-            explanation: `In box ${box + 1}, ${num} is confined to column ${col + 1}. Eliminating ${num} from other cells in this column.`,
+            explanation: `XY-Wing with pivot ${getCellName(pivot, size)} {${x}, ${y}} and pincers ${getCellName(pincer1, size)} {${cands1.join(', ')}} and ${getCellName(pincer2, size)} {${cands2.join(', ')}}. Whichever value the pivot takes, one pincer must be ${z}, so ${z} can be eliminated from cells that see both pincers.`,
           };
         }
       }
@@ -570,55 +727,1300 @@ function findPointingPair(grid: CandidateGrid): SolveStep | null {
 }
 
 /**
- * Apply a solve step to the grid
+ * Find XYZ-Wing: a pivot {x, y, z} seeing pincers {x, z} and {y, z}.
+ * One of the three must be z, so z is eliminated from cells seeing all three.
  */
-function applyStep(grid: CandidateGrid, step: SolveStep): void {
-  if (step.type === 'Single Candidate' || step.type === 'Hidden Single') {
-    placeValue(grid, step.cells[0], step.values[0]);
-  } else if (step.eliminatedCandidates) {
-    for (const elim of step.eliminatedCandidates) {
-      for (const val of elim.values) {
-        grid.candidates[elim.cell].delete(val);
+function findXYZWing(grid: CandidateGrid): SolveStep | null {
+  const { size } = grid;
+
+  for (let pivot = 0; pivot < grid.values.length; pivot++) {
+    if (grid.values[pivot] !== 0 || countBits(grid.candidates[pivot]) !== 3) continue;
+    const pivotCands = getCandidates(grid, pivot);
+
+    const wings = grid.values
+      .map((_, i) => i)
+      .filter(i =>
+        grid.values[i] === 0 &&
+        countBits(grid.candidates[i]) === 2 &&
+        (grid.candidates[i] & ~grid.candidates[pivot]) === 0 &&
+        sees(grid, pivot, i)
+      );
+
+    for (let i = 0; i < wings.length; i++) {
+      for (let j = i + 1; j < wings.length; j++) {
+        const cands1 = getCandidates(grid, wings[i]);
+        const cands2 = getCandidates(grid, wings[j]);
+        const shared = cands1.filter(v => cands2.includes(v));
+        if (shared.length !== 1) continue;
+
+        const z = shared[0];
+        const eliminations = getCommonPeerEliminations(grid, [pivot, wings[i], wings[j]], z);
+        if (eliminations.length > 0) {
+          return {
+            step: 0,
+            type: 'XYZ-Wing',
+            cells: [pivot, wings[i], wings[j]],
+            values: pivotCands,
+            eliminatedCandidates: eliminations,
+            explanation: `XYZ-Wing with pivot ${getCellName(pivot, size)} {${pivotCands.join(', ')}} and pincers ${getCellName(wings[i], size)} {${cands1.join(', ')}} and ${getCellName(wings[j], size)} {${cands2.join(', ')}}. One of the three cells must be ${z}, so ${z} can be eliminated from cells that see all of them.`,
+          };
+        }
       }
     }
   }
+
+  return null;
 }
 
 /**
- * Check if puzzle is solved
+ * Find W-Wing: two identical bivalue cells {x, y} joined by a strong link on x.
+ * One of the two cells must be y, so y is eliminated from cells seeing both.
  */
-function isSolved(grid: CandidateGrid): boolean {
-  return grid.values.every(v => v !== 0);
+function findWWing(grid: CandidateGrid): SolveStep | null {
+  const { size } = grid;
+  const units = grid.units;
+  const bivalue = grid.values
+    .map((_, i) => i)
+    .filter(i => grid.values[i] === 0 && countBits(grid.candidates[i]) === 2);
+
+  for (let i = 0; i < bivalue.length; i++) {
+    for (let j = i + 1; j < bivalue.length; j++) {
+      const cellA = bivalue[i];
+      const cellB = bivalue[j];
+      if (grid.candidates[cellA] !== grid.candidates[cellB] || sees(grid, cellA, cellB)) continue;
+      const candsA = getCandidates(grid, cellA);
+
+      for (const x of candsA) {
+        const y = candsA.find(v => v !== x)!;
+
+        for (const unit of units) {
+          if (countBits(unit.positions[x]) !== 2) continue;
+          const link = getUnitCells(unit, x);
+          if (link.includes(cellA) || link.includes(cellB)) continue;
+
+          const [p, q] = link;
+          const connected =
+            (sees(grid, p, cellA) && sees(grid, q, cellB)) ||
+            (sees(grid, p, cellB) && sees(grid, q, cellA));
+          if (!connected) continue;
+
+          const eliminations = getCommonPeerEliminations(grid, [cellA, cellB], y);
+          if (eliminations.length > 0) {
+            return {
+              step: 0,
+              type: 'W-Wing',
+              cells: [cellA, cellB, p, q],
+              values: [x, y],
+              eliminatedCandidates: eliminations,
+              explanation: `W-Wing: ${getCellName(cellA, size)} and ${getCellName(cellB, size)} both hold {${x}, ${y}}, and the strong link on ${x} in ${unit.name} (${getCellName(p, size)}-${getCellName(q, size)}) connects them. One of them must be ${y}, so ${y} can be eliminated from cells that see both.`,
+            };
+          }
+        }
+      }
+    }
+  }
+
+  return null;
 }
 
 /**
- * Human-style solver that produces step-by-step explanations
+ * Find every unique rectangle candidate: four empty cells on two rows, two columns
+ * and exactly two boxes that all still hold the pair {a, b}
  */
-export function solveWithSteps(
-  puzzle: number[],
-  size: number = 9,
-  blockRows: number = 3,
-  blockCols: number = 3
+function getUniqueRectangles(grid: CandidateGrid): { cells: number[]; pair: [number, number] }[] {
+  const { size } = grid;
+  const rectangles: { cells: number[]; pair: [number, number] }[] = [];
+
+  for (let r1 = 0; r1 < size; r1++) {
+    for (let r2 = r1 + 1; r2 < size; r2++) {
+      // Digits both rows still allow in each column; solved cells allow none
+      const columns = Array.from({ length: size }, (_, c) => grid.candidates[r1 * size + c] & grid.candidates[r2 * size + c]);
+
+      for (let c1 = 0; c1 < size; c1++) {
+        if (countBits(columns[c1]) < 2) continue;
+
+        for (let c2 = c1 + 1; c2 < size; c2++) {
+          const shared = columns[c1] & columns[c2];
+          if (countBits(shared) < 2) continue;
+
+          const cells = [r1 * size + c1, r1 * size + c2, r2 * size + c1, r2 * size + c2];
+          if (new Set(cells.map(i => getCellBox(grid, i))).size !== 2) continue;
+
+          for (const [a, b] of combinations(getBits(shared), 2)) {
+            rectangles.push({ cells, pair: [a, b] });
+          }
+        }
+      }
+    }
+  }
+
+  return rectangles;
+}
+
+/**
+ * Split a rectangle into floor cells holding exactly {a, b} and roof cells with extras
+ */
+function splitRectangle(grid: CandidateGrid, cells: number[]): { floor: number[]; roof: number[] } {
+  const floor = cells.filter(i => countBits(grid.candidates[i]) === 2);
+  const roof = cells.filter(i => countBits(grid.candidates[i]) > 2);
+  return { floor, roof };
+}
+
+/**
+ * Units (rows, columns, boxes) that contain all of the given cells
+ */
+function getSharedUnits(grid: CandidateGrid, cells: number[]): CandidateUnit[] {
+  return grid.cellUnits[cells[0]]
+    .map(({ unit }) => unit)
+    .filter(unit => cells.every(i => unit.indices.includes(i)));
+}
+
+/**
+ * Describe a rectangle for explanations
+ */
+function describeRectangle(cells: number[], pair: [number, number], size: number): string {
+  return `{${pair.join(', ')}} at ${formatList(cells.map(c => getCellName(c, size)))}`;
+}
+
+/**
+ * Find Unique Rectangle Type 1: three corners hold only {a, b}, so the fourth
+ * cannot be a or b without allowing two solutions.
+ */
+function findUniqueRectangleType1(grid: CandidateGrid): SolveStep | null {
+  const { size } = grid;
+
+  for (const { cells, pair } of getUniqueRectangles(grid)) {
+    const { floor, roof } = splitRectangle(grid, cells);
+    if (floor.length !== 3 || roof.length !== 1) continue;
+
+    const target = roof[0];
+    return {
+      step: 0,
+      type: 'Unique Rectangle Type 1',
+      cells,
+      values: pair,
+      eliminatedCandidates: [{ cell: target, values: pair }],
+      explanation: `Unique Rectangle ${describeRectangle(cells, pair, size)}. Three corners hold only ${pair[0]} and ${pair[1]}; if ${getCellName(target, size)} were either, the two values could be swapped for a second solution. Eliminating ${pair.join(' and ')} from ${getCellName(target, size)}.`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Find Unique Rectangle Type 2: both roof cells hold {a, b, c}, so one of them is c
+ * and c is eliminated from cells seeing both.
+ */
+function findUniqueRectangleType2(grid: CandidateGrid): SolveStep | null {
+  const { size } = grid;
+
+  for (const { cells, pair } of getUniqueRectangles(grid)) {
+    const { floor, roof } = splitRectangle(grid, cells);
+    if (floor.length !== 2 || roof.length !== 2 || getSharedUnits(grid, roof).length === 0) continue;
+
+    const extras = roof.map(i => getCandidates(grid, i).filter(v => !pair.includes(v)));
+    if (extras[0].length !== 1 || extras[1].length !== 1 || extras[0][0] !== extras[1][0]) continue;
+
+    const c = extras[0][0];
+    const eliminations = getCommonPeerEliminations(grid, roof, c).filter(elim => !cells.includes(elim.cell));
+    if (eliminations.length > 0) {
+      return {
+        step: 0,
+        type: 'Unique Rectangle Type 2',
+        cells,
+        values: [...pair, c],
+        eliminatedCandidates: eliminations,
+        explanation: `Unique Rectangle ${describeRectangle(cells, pair, size)}. To avoid a second solution, ${getCellName(roof[0], size)} or ${getCellName(roof[1], size)} must be ${c}, so ${c} can be eliminated from cells that see both.`,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find Unique Rectangle Type 3: the roof extras act as one virtual cell that
+ * forms a naked subset with other cells of a unit both roof cells share.
+ */
+function findUniqueRectangleType3(grid: CandidateGrid): SolveStep | null {
+  const { size } = grid;
+
+  for (const { cells, pair } of getUniqueRectangles(grid)) {
+    const { floor, roof } = splitRectangle(grid, cells);
+    if (floor.length !== 2 || roof.length !== 2) continue;
+
+    const pairMask = (1 << pair[0]) | (1 << pair[1]);
+    const extras = (grid.candidates[roof[0]] | grid.candidates[roof[1]]) & ~pairMask;
+    if (countBits(extras) < 2) continue;
+
+    for (const unit of getSharedUnits(grid, roof)) {
+      const others = unit.indices.filter(i => grid.values[i] === 0 && !roof.includes(i));
+
+      for (let n = 1; n <= 3; n++) {
+        for (const subset of combinations(others, n)) {
+          const digits = subset.reduce((mask, i) => mask | grid.candidates[i], extras);
+          if (countBits(digits) !== n + 1) continue;
+
+          const eliminations: { cell: number; values: number[] }[] = [];
+          for (const idx of others) {
+            if (subset.includes(idx)) continue;
+            const values = getBits(grid.candidates[idx] & digits);
+            if (values.length > 0) eliminations.push({ cell: idx, values });
+          }
+
+          if (eliminations.length > 0) {
+            const locked = getBits(digits);
+            return {
+              step: 0,
+              type: 'Unique Rectangle Type 3',
+              cells: [...cells, ...subset],
+              values: locked,
+              eliminatedCandidates: eliminations,
+              explanation: `Unique Rectangle ${describeRectangle(cells, pair, size)}. One of ${getCellName(roof[0], size)} and ${getCellName(roof[1], size)} must hold ${formatList(getBits(extras))}; together with ${formatList(subset.map(c => getCellName(c, size)))} they lock ${formatList(locked)} in ${unit.name}. Eliminating those values from the rest of ${unit.name}.`,
+            };
+          }
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find Unique Rectangle Type 4: a is confined to the two roof cells in a shared
+ * unit, so one of them is a and neither may be b.
+ */
+function findUniqueRectangleType4(grid: CandidateGrid): SolveStep | null {
+  const { size } = grid;
+
+  for (const { cells, pair } of getUniqueRectangles(grid)) {
+    const { floor, roof } = splitRectangle(grid, cells);
+    if (floor.length !== 2 || roof.length !== 2) continue;
+
+    for (const unit of getSharedUnits(grid, roof)) {
+      for (const a of pair) {
+        const b = pair.find(v => v !== a)!;
+        if (countBits(unit.positions[a]) !== 2) continue;
+        const places = getUnitCells(unit, a);
+        if (!roof.every(i => places.includes(i))) continue;
+
+        return {
+          step: 0,
+          type: 'Unique Rectangle Type 4',
+          cells,
+          values: pair,
+          eliminatedCandidates: roof.map(cell => ({ cell, values: [b] })),
+          explanation: `Unique Rectangle ${describeRectangle(cells, pair, size)}. In ${unit.name}, ${a} can only go in ${getCellName(roof[0], size)} or ${getCellName(roof[1], size)}, so one of them is ${a}. If either were ${b} the rectangle would have two solutions, so ${b} can be eliminated from both.`,
+        };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find BUG+1: every unsolved cell is bivalue except one with three candidates.
+ * Only the digit appearing three times in that cell's houses avoids a deadly pattern.
+ */
+function findBugPlusOne(grid: CandidateGrid): SolveStep | null {
+  const { size } = grid;
+  const empty = grid.values.map((_, i) => i).filter(i => grid.values[i] === 0);
+  const extra = empty.filter(i => countBits(grid.candidates[i]) !== 2);
+  if (extra.length !== 1 || countBits(grid.candidates[extra[0]]) !== 3) return null;
+
+  const cell = extra[0];
+  const units = grid.cellUnits[cell].map(({ unit }) => unit);
+
+  for (const value of getCandidates(grid, cell)) {
+    if (units.every(unit => countBits(unit.positions[value]) === 3)) {
+      return {
+        step: 0,
+        type: 'BUG+1',
+        cells: [cell],
+        values: [value],
+        explanation: `Bivalue Universal Grave + 1: every other unsolved cell has exactly two candidates, and ${value} appears three times in each house of ${getCellName(cell, size)}. Any other value would leave a puzzle with two solutions, so ${getCellName(cell, size)} must be ${value}.`,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Longest chain the chain techniques will search for, in candidates
+ */
+const MAX_CHAIN_NODES = 14;
+
+interface ChainLinks {
+  strong: Map<number, number[]>;
+  weak: (node: number) => number[];
+}
+
+/**
+ * Encode a candidate as a chain node id
+ */
+function toNode(grid: CandidateGrid, cell: number, value: number): number {
+  return cell * grid.size + value - 1;
+}
+
+/**
+ * Decode a chain node id back into its cell and value
+ */
+function fromNode(grid: CandidateGrid, node: number): { cell: number; value: number } {
+  return { cell: Math.floor(node / grid.size), value: (node % grid.size) + 1 };
+}
+
+/**
+ * Build the strong and weak links chains may use.
+ * `digit` restricts to single-digit chains; `bivalueOnly` keeps to bivalue cells (XY-Chains).
+ */
+function buildChainLinks(
+  grid: CandidateGrid,
+  options: { digit?: number; bivalueOnly?: boolean } = {}
+): ChainLinks {
+  const { size, blockRows, blockCols } = grid;
+  const { digit, bivalueOnly = false } = options;
+  const strong = new Map<number, number[]>();
+  const peers = grid.values.map((_, i) => getPeers(i, size, blockRows, blockCols, grid.variant));
+  const digits = digit ? [digit] : Array.from({ length: size }, (_, i) => i + 1);
+  const isBivalue = (cell: number) => grid.values[cell] === 0 && countBits(grid.candidates[cell]) === 2;
+
+  const addStrong = (a: number, b: number) => {
+    if (!strong.has(a)) strong.set(a, []);
+    if (!strong.has(b)) strong.set(b, []);
+    if (!strong.get(a)!.includes(b)) strong.get(a)!.push(b);
+    if (!strong.get(b)!.includes(a)) strong.get(b)!.push(a);
+  };
+
+  // Bivalue cells: one of the two candidates must be true
+  if (!digit) {
+    for (let cell = 0; cell < grid.values.length; cell++) {
+      if (!isBivalue(cell)) continue;
+      const [x, y] = getCandidates(grid, cell);
+      addStrong(toNode(grid, cell, x), toNode(grid, cell, y));
+    }
+  }
+
+  // Bilocal units: a digit with exactly two places in a house
+  if (!bivalueOnly) {
+    for (const unit of grid.units) {
+      for (const num of digits) {
+        if (countBits(unit.positions[num]) === 2) {
+          const cells = getUnitCells(unit, num);
+          addStrong(toNode(grid, cells[0], num), toNode(grid, cells[1], num));
+        }
+      }
+    }
+  }
+
+  const weak = (node: number): number[] => {
+    const { cell, value } = fromNode(grid, node);
+    const result: number[] = [];
+
+    // Two candidates of one cell cannot both be true
+    if (!digit && !bivalueOnly) {
+      for (const other of getCandidates(grid, cell)) {
+        if (other !== value) result.push(toNode(grid, cell, other));
+      }
+    }
+
+    // The same digit cannot be true in two cells that see each other
+    for (const peer of peers[cell]) {
+      if (grid.values[peer] !== 0 || !hasCandidate(grid, peer, value)) continue;
+      if (bivalueOnly && !isBivalue(peer)) continue;
+      result.push(toNode(grid, peer, value));
+    }
+
+    return result;
+  };
+
+  return { strong, weak };
+}
+
+/**
+ * Breadth-first search for the shortest alternating chain accepted by `evaluate`.
+ * Chains start and end on a strong link; strong and weak links alternate.
+ */
+function findShortestChain<T>(
+  links: ChainLinks,
+  minNodes: number,
+  evaluate: (path: number[]) => T | null
+): { path: number[]; result: T } | null {
+  let best: { path: number[]; result: T } | null = null;
+
+  // State = node * 2 + (1 if reached through a strong link)
+  const pathTo = (state: number, parent: Map<number, number>): number[] => {
+    const path: number[] = [];
+    for (let s = state; s !== -1; s = parent.get(s)!) path.unshift(s >> 1);
+    return path;
+  };
+
+  for (const start of links.strong.keys()) {
+    const parent = new Map<number, number>([[start * 2, -1]]);
+    let frontier = [start * 2];
+    let length = 1;
+    let found = false;
+
+    while (frontier.length > 0 && !found) {
+      const limit = best ? best.path.length - 1 : MAX_CHAIN_NODES;
+      if (length >= limit) break;
+      const next: number[] = [];
+
+      for (const state of frontier) {
+        const node = state >> 1;
+        const viaStrong = (state & 1) === 1;
+        const neighbours = viaStrong ? links.weak(node) : links.strong.get(node) ?? [];
+        const path = pathTo(state, parent);
+
+        for (const neighbour of neighbours) {
+          const key = neighbour * 2 + (viaStrong ? 0 : 1);
+          if (parent.has(key) || path.includes(neighbour)) continue;
+          parent.set(key, state);
+          next.push(key);
+
+          if (!viaStrong && path.length + 1 >= minNodes) {
+            const chain = [...path, neighbour];
+            const result = evaluate(chain);
+            if (result) {
+              best = { path: chain, result };
+              found = true;
+              break;
+            }
+          }
+        }
+        if (found) break;
+      }
+
+      frontier = next;
+      length++;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Turn a node path into chain nodes with alternating strong/weak links
+ */
+function toChain(grid: CandidateGrid, path: number[], closed: boolean): ChainNode[] {
+  return path.map((node, i) => {
+    const link: ChainLinkType = i % 2 === 0 ? 'strong' : 'weak';
+    const isLast = i === path.length - 1;
+    return { ...fromNode(grid, node), link: isLast && !closed ? undefined : link };
+  });
+}
+
+/**
+ * Eureka-style chain notation: "(5)R1C1 = (5)R1C7 - (5)R4C7 = (5)R4C2"
+ */
+function formatChain(chain: ChainNode[], size: number): string {
+  let text = '';
+  chain.forEach((node, i) => {
+    text += `(${node.value})${getCellName(node.cell, size)}`;
+    if (node.link && i < chain.length - 1) text += node.link === 'strong' ? ' = ' : ' - ';
+  });
+  const last = chain[chain.length - 1];
+  if (last?.link) {
+    text += `${last.link === 'strong' ? ' = ' : ' - '}(${chain[0].value})${getCellName(chain[0].cell, size)}`;
+  }
+  return text;
+}
+
+/**
+ * Eliminations implied by an open chain: one of its two endpoints must be true
+ */
+function getChainEliminations(
+  grid: CandidateGrid,
+  path: number[]
+): { cell: number; values: number[] }[] {
+  const start = fromNode(grid, path[0]);
+  const end = fromNode(grid, path[path.length - 1]);
+
+  // Both ends in one cell: every other candidate there goes
+  if (start.cell === end.cell) {
+    const values = getCandidates(grid, start.cell).filter(v => v !== start.value && v !== end.value);
+    return values.length > 0 ? [{ cell: start.cell, values }] : [];
+  }
+
+  // Same digit at both ends: cells seeing both ends lose it
+  if (start.value === end.value) {
+    return getCommonPeerEliminations(grid, [start.cell, end.cell], start.value);
+  }
+
+  // Different digits in cells that see each other: each end excludes the other's digit
+  if (!sees(grid, start.cell, end.cell)) return [];
+  const eliminations: { cell: number; values: number[] }[] = [];
+  if (hasCandidate(grid, start.cell, end.value)) {
+    eliminations.push({ cell: start.cell, values: [end.value] });
+  }
+  if (hasCandidate(grid, end.cell, start.value)) {
+    eliminations.push({ cell: end.cell, values: [start.value] });
+  }
+  return eliminations;
+}
+
+/**
+ * Find Simple Colouring: two-colour the strong links of one digit.
+ * Two same-coloured cells seeing each other make that colour false (wrap);
+ * a cell seeing both colours cannot hold the digit (trap).
+ */
+function findSimpleColouring(grid: CandidateGrid): SolveStep | null {
+  const { size } = grid;
+
+  for (let num = 1; num <= size; num++) {
+    const links = buildChainLinks(grid, { digit: num });
+    const colour = new Map<number, number>();
+
+    for (const root of links.strong.keys()) {
+      if (colour.has(root)) continue;
+
+      // Colour the cluster, giving up on it if the colouring contradicts itself
+      const cluster: number[] = [root];
+      colour.set(root, 0);
+      let consistent = true;
+      for (let i = 0; i < cluster.length; i++) {
+        for (const next of links.strong.get(cluster[i])!) {
+          if (!colour.has(next)) {
+            colour.set(next, 1 - colour.get(cluster[i])!);
+            cluster.push(next);
+          } else if (colour.get(next) === colour.get(cluster[i])) {
+            consistent = false;
+          }
+        }
+      }
+      if (!consistent || cluster.length < 3) continue;
+
+      const cells = cluster.map(node => fromNode(grid, node).cell);
+      const clusterLinks: ChainLinks = {
+        strong: new Map(cluster.map(node => [node, links.strong.get(node)!])),
+        weak: () => [],
+      };
+
+      // Path of strong links between two nodes of the cluster
+      const pathBetween = (from: number, to: number): number[] => {
+        const parent = new Map<number, number>([[from, -1]]);
+        const queue = [from];
+        for (let i = 0; i < queue.length && !parent.has(to); i++) {
+          for (const next of clusterLinks.strong.get(queue[i])!) {
+            if (!parent.has(next)) {
+              parent.set(next, queue[i]);
+              queue.push(next);
+            }
+          }
+        }
+        const path: number[] = [];
+        for (let node = to; node !== -1; node = parent.get(node)!) path.unshift(node);
+        return path;
+      };
+
+      const toStrongChain = (path: number[], closingLink?: ChainLinkType): ChainNode[] =>
+        path.map((node, i) => ({
+          ...fromNode(grid, node),
+          link: i < path.length - 1 ? 'strong' : closingLink,
+        }));
+
+      // Colour wrap
+      for (let i = 0; i < cluster.length; i++) {
+        for (let j = i + 1; j < cluster.length; j++) {
+          if (colour.get(cluster[i]) !== colour.get(cluster[j]) || !sees(grid, cells[i], cells[j])) continue;
+
+          const falseColour = colour.get(cluster[i]);
+          const falseCells = cells.filter((_, k) => colour.get(cluster[k]) === falseColour);
+          const chain = toStrongChain(pathBetween(cluster[i], cluster[j]), 'weak');
+          return {
+            step: 0,
+            type: 'Simple Colouring',
+            cells,
+            values: [num],
+            eliminatedCandidates: falseCells.map(cell => ({ cell, values: [num] })),
+            explanation: `Simple Colouring on ${num}: colouring the strong links ${formatChain(chain, size)} puts ${getCellName(cells[i], size)} and ${getCellName(cells[j], size)} in the same colour, but they see each other. That colour must be false, so ${num} can be eliminated from ${formatList(falseCells.map(c => getCellName(c, size)))}.`,
+            chain,
+          };
+        }
+      }
+
+      // Colour trap
+      for (let idx = 0; idx < grid.values.length; idx++) {
+        if (grid.values[idx] !== 0 || !hasCandidate(grid, idx, num) || cells.includes(idx)) continue;
+
+        const seen = cluster.filter((_, k) => sees(grid, idx, cells[k]));
+        const on = seen.find(node => colour.get(node) === 0);
+        const off = seen.find(node => colour.get(node) === 1);
+        if (on === undefined || off === undefined) continue;
+
+        const chain = toStrongChain(pathBetween(on, off));
+        const eliminations = getCommonPeerEliminations(grid, [fromNode(grid, on).cell, fromNode(grid, off).cell], num)
+          .filter(elim => !cells.includes(elim.cell));
+        return {
+          step: 0,
+          type: 'Simple Colouring',
+          cells,
+          values: [num],
+          eliminatedCandidates: eliminations,
+          explanation: `Simple Colouring on ${num}: ${formatChain(chain, size)} links two cells of opposite colour, so one of ${getCellName(chain[0].cell, size)} and ${getCellName(chain[chain.length - 1].cell, size)} must be ${num}. ${num} can be eliminated from ${formatList(eliminations.map(e => getCellName(e.cell, size)))}, which see both.`,
+          chain,
+        };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find X-Chain: a single-digit chain of alternating strong and weak links.
+ * One end must hold the digit, so cells seeing both ends lose it.
+ */
+function findXChain(grid: CandidateGrid): SolveStep | null {
+  const { size } = grid;
+  let best: SolveStep | null = null;
+
+  for (let num = 1; num <= size; num++) {
+    const links = buildChainLinks(grid, { digit: num });
+    const found = findShortestChain(links, 4, path => {
+      const eliminations = getChainEliminations(grid, path);
+      return eliminations.length > 0 ? eliminations : null;
+    });
+    if (!found || (best?.chain && best.chain.length <= found.path.length)) continue;
+
+    const chain = toChain(grid, found.path, false);
+    const ends = [chain[0].cell, chain[chain.length - 1].cell];
+    best = {
+      step: 0,
+      type: 'X-Chain',
+      cells: chain.map(node => node.cell),
+      values: [num],
+      eliminatedCandidates: found.result,
+      explanation: `X-Chain on ${num}: ${formatChain(chain, size)}. Either ${getCellName(ends[0], size)} or ${getCellName(ends[1], size)} must be ${num}, so ${num} can be eliminated from cells that see both.`,
+      chain,
+    };
+  }
+
+  return best;
+}
+
+/**
+ * Find X-Cycle: a closed single-digit loop of alternating strong and weak links.
+ * Every weak link in the loop then holds exactly one true end, so the digit is
+ * eliminated from the rest of each weak link's house.
+ */
+function findXCycle(grid: CandidateGrid): SolveStep | null {
+  const { size } = grid;
+  let best: SolveStep | null = null;
+
+  for (let num = 1; num <= size; num++) {
+    const links = buildChainLinks(grid, { digit: num });
+    const found = findShortestChain(links, 4, path => {
+      if (!links.weak(path[path.length - 1]).includes(path[0])) return null;
+
+      const cells = path.map(node => fromNode(grid, node).cell);
+      const eliminated = new Set<number>();
+      for (let i = 1; i < cells.length; i += 2) {
+        const [a, b] = [cells[i], cells[(i + 1) % cells.length]];
+        for (const elim of getCommonPeerEliminations(grid, [a, b], num)) {
+          if (!cells.includes(elim.cell)) eliminated.add(elim.cell);
+        }
+      }
+      return eliminated.size > 0 ? Array.from(eliminated).sort((a, b) => a - b) : null;
+    });
+    if (!found || (best?.chain && best.chain.length <= found.path.length)) continue;
+
+    const chain = toChain(grid, found.path, true);
+    best = {
+      step: 0,
+      type: 'X-Cycle',
+      cells: chain.map(node => node.cell),
+      values: [num],
+      eliminatedCandidates: found.result.map(cell => ({ cell, values: [num] })),
+      explanation: `X-Cycle on ${num}: ${formatChain(chain, size)} is a continuous loop, so each weak link holds exactly one ${num}. ${num} can be eliminated from ${formatList(found.result.map(c => getCellName(c, size)))}.`,
+      chain,
+    };
+  }
+
+  return best;
+}
+
+/**
+ * Find XY-Chain: a chain of bivalue cells, each linked to the next by a shared digit.
+ * If both ends carry the same digit, one of them must be it.
+ */
+function findXYChain(grid: CandidateGrid): SolveStep | null {
+  const { size } = grid;
+  const links = buildChainLinks(grid, { bivalueOnly: true });
+
+  // Three cells or more; two would just be a naked pair
+  const found = findShortestChain(links, 6, path => {
+    const start = fromNode(grid, path[0]);
+    const end = fromNode(grid, path[path.length - 1]);
+    if (start.value !== end.value) return null;
+    const eliminations = getChainEliminations(grid, path);
+    return eliminations.length > 0 ? eliminations : null;
+  });
+  if (!found) return null;
+
+  const chain = toChain(grid, found.path, false);
+  const cells = chain.filter((_, i) => i % 2 === 0).map(node => node.cell);
+  const value = chain[0].value;
+  return {
+    step: 0,
+    type: 'XY-Chain',
+    cells,
+    values: [value],
+    eliminatedCandidates: found.result,
+    explanation: `XY-Chain through ${formatList(cells.map(c => getCellName(c, size)))}: ${formatChain(chain, size)}. Either ${getCellName(cells[0], size)} or ${getCellName(cells[cells.length - 1], size)} must be ${value}, so ${value} can be eliminated from cells that see both.`,
+    chain,
+  };
+}
+
+/**
+ * Find AIC: an alternating inference chain mixing bivalue cells and bilocal digits.
+ * One of the two end candidates must be true.
+ */
+function findAIC(grid: CandidateGrid): SolveStep | null {
+  const { size } = grid;
+  const links = buildChainLinks(grid);
+
+  const found = findShortestChain(links, 4, path => {
+    const eliminations = getChainEliminations(grid, path);
+    return eliminations.length > 0 ? eliminations : null;
+  });
+  if (!found) return null;
+
+  const chain = toChain(grid, found.path, false);
+  const start = chain[0];
+  const end = chain[chain.length - 1];
+  return {
+    step: 0,
+    type: 'AIC',
+    cells: Array.from(new Set(chain.map(node => node.cell))),
+    values: Array.from(new Set(chain.map(node => node.value))).sort((a, b) => a - b),
+    eliminatedCandidates: found.result,
+    explanation: `Alternating Inference Chain: ${formatChain(chain, size)}. Either ${getCellName(start.cell, size)} is ${start.value} or ${getCellName(end.cell, size)} is ${end.value}, so ${formatList(found.result.map(e => `${e.values.join('/')} from ${getCellName(e.cell, size)}`))} can be eliminated.`,
+    chain,
+  };
+}
+
+/**
+ * Find pointing pair: candidates in a box that are confined to one row/column
+ */
+function findPointingPair(grid: CandidateGrid): SolveStep | null {
+  const { size } = grid;
+
+  for (const box of getGridBoxes(grid)) {
+    const boxIndices = box.indices;
+    
+    for (let num = 1; num <= size; num++) {
+      const cellsWithNum = getUnitCells(box, num);
+      
+      // Jigsaw regions can hold a whole row, so only the same-line check below bounds the count
+      if (cellsWithNum.length < 2) continue;
+
+      // Check if all in same row
+      const rows = cellsWithNum.map(i => Math.floor(i / size));
+      if (new Set(rows).size === 1) {
+        const row = rows[0];
+        const eliminations: { cell: number; values: number[] }[] = [];
+        
+        for (const idx of getUnitCells(grid.units[row], num)) {
+          if (!boxIndices.includes(idx)) {
+            eliminations.push({ cell: idx, values: [num] });
+          }
+        }
+
+        if (eliminations.length > 0) {
+          return {
+            step: 0,
+            type: 'Pointing Pair',
+            cells: cellsWithNum,
+            values: [num],
+            eliminatedCandidates: eliminations,
+            explanation: `In ${box.name}, ${num} is confined to row ${row + 1}. Eliminating ${num} from other cells in this row.`,
+          };
+        }
+      }
+
+      // Check if all in same column
+      const cols = cellsWithNum.map(i => i % size);
+      if (new Set(cols).size === 1) {
+        const col = cols[0];
+        const eliminations: { cell: number; values: number[] }[] = [];
+        
+        for (const idx of getUnitCells(grid.units[size + col], num)) {
+          if (!boxIndices.includes(idx)) {
+            eliminations.push({ cell: idx, values: [num] });
+          }
+        }
+
+        if (eliminations.length > 0) {
+          return {
+            step: 0,
+            type: 'Pointing Pair',
+            cells: cellsWithNum,
+            values: [num],
+            eliminatedCandidates: eliminations,
+            explanation: `In ${box.name}, ${num} is confined to column ${col + 1}. Eliminating ${num} from other cells in this column.`,
+          };
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+// Largest group of cells whose sum combinations are enumerated
+const MAX_SUM_CELLS = 6;
+
+// Largest group of innies or outies worth enumerating
+const MAX_INNIE_CELLS = 4;
+
+/**
+ * Assignments of distinct-where-seen digits to `cells` that add up to `target`.
+ * Returns the digits each cell can take in some assignment and the digit sets used,
+ * or null when there are too many cells to enumerate.
+ */
+function getSumCombinations(
+  grid: CandidateGrid,
+  cells: number[],
+  target: number
+): { supported: Set<number>[]; combos: number[][] } | null {
+  if (cells.length === 0 || cells.length > MAX_SUM_CELLS) return null;
+
+  const supported = cells.map(() => new Set<number>());
+  const combos = new Map<string, number[]>();
+  const chosen: number[] = [];
+  const remainingMax = (from: number) =>
+    cells.slice(from).reduce((sum, cell) => sum + 31 - Math.clz32(grid.candidates[cell]), 0);
+
+  const pick = (position: number, total: number) => {
+    if (position === cells.length) {
+      if (total !== target) return;
+      chosen.forEach((value, i) => supported[i].add(value));
+      const combo = [...chosen].sort((a, b) => a - b);
+      combos.set(combo.join(','), combo);
+      return;
+    }
+    if (total + remainingMax(position) < target) return;
+
+    for (const value of getCandidates(grid, cells[position])) {
+      if (total + value > target) continue;
+      const clashes = chosen.some((other, i) => other === value && sees(grid, cells[i], cells[position]));
+      if (clashes) continue;
+      chosen.push(value);
+      pick(position + 1, total + value);
+      chosen.pop();
+    }
+  };
+
+  pick(0, 0);
+  return { supported, combos: Array.from(combos.values()) };
+}
+
+/**
+ * Candidates of `cells` that no combination adding up to `target` can use
+ */
+function getSumEliminations(
+  grid: CandidateGrid,
+  cells: number[],
+  target: number
+): { eliminations: { cell: number; values: number[] }[]; combos: number[][] } | null {
+  const result = getSumCombinations(grid, cells, target);
+  if (!result) return null;
+
+  const eliminations = cells
+    .map((cell, i) => ({
+      cell,
+      values: getCandidates(grid, cell).filter(value => !result.supported[i].has(value)),
+    }))
+    .filter(elimination => elimination.values.length > 0);
+
+  return { eliminations, combos: result.combos };
+}
+
+/**
+ * Describe the digit sets that fit a sum: "1+8, 2+7 or 3+6"
+ */
+function formatCombos(combos: number[][]): string {
+  const shown = combos.slice(0, 4).map(combo => combo.join('+'));
+  if (combos.length > 4) shown.push(`${combos.length - 4} more`);
+  if (shown.length <= 1) return shown.join('') || 'nothing';
+  return `${shown.slice(0, -1).join(', ')} or ${shown[shown.length - 1]}`;
+}
+
+/**
+ * The cells of a cage still to be filled, and what they must add up to
+ */
+function getOpenCage(grid: CandidateGrid, cage: Cage): { cells: number[]; target: number } {
+  const cells = cage.cells.filter(cell => grid.values[cell] === 0);
+  const filled = cage.cells.reduce((sum, cell) => sum + grid.values[cell], 0);
+  return { cells, target: cage.sum - filled };
+}
+
+/**
+ * Find cage combination: candidates that fit no set of digits adding up to the cage sum
+ */
+function findCageCombination(grid: CandidateGrid): SolveStep | null {
+  for (const cage of grid.variant?.cages ?? []) {
+    const { cells, target } = getOpenCage(grid, cage);
+    const found = getSumEliminations(grid, cells, target);
+    if (!found || found.eliminations.length === 0) continue;
+
+    const anchor = getCellName(Math.min(...cage.cells), grid.size);
+    return {
+      step: 0,
+      type: 'Cage Combination',
+      cells,
+      values: Array.from(new Set(found.combos.flat())).sort((a, b) => a - b),
+      eliminatedCandidates: found.eliminations,
+      explanation: `The ${cage.sum} cage at ${anchor} needs ${cells.length} more digit${cells.length > 1 ? 's' : ''} adding up to ${target}: only ${formatCombos(found.combos)} fit, so ${formatList(found.eliminations.map(e => `${e.values.join('/')} from ${getCellName(e.cell, grid.size)}`))} can be eliminated.`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Find innies and outies: the digits of a house add up to a known total, so
+ * cells left over by the cages inside it (innies) or sticking out of the cages
+ * covering it (outies) must make up the difference
+ */
+function findInnieOutie(grid: CandidateGrid): SolveStep | null {
+  const cages = grid.variant?.cages ?? [];
+  if (cages.length === 0) return null;
+
+  const { size } = grid;
+  const houseTotal = (size * (size + 1)) / 2;
+  const valueSum = (cells: number[]) => cells.reduce((sum, cell) => sum + grid.values[cell], 0);
+
+  for (const unit of grid.units) {
+    const inHouse = new Set(unit.indices);
+    const touching = cages.filter(cage => cage.cells.some(cell => inHouse.has(cell)));
+    const inside = touching.filter(cage => cage.cells.every(cell => inHouse.has(cell)));
+
+    const candidatesFor: { kind: 'innie' | 'outie'; cells: number[]; target: number; cageSum: number }[] = [];
+
+    // Innies: house cells not covered by a cage lying wholly inside the house
+    if (inside.length > 0) {
+      const covered = new Set(inside.flatMap(cage => cage.cells));
+      const innies = unit.indices.filter(cell => !covered.has(cell));
+      const cageSum = inside.reduce((sum, cage) => sum + cage.sum, 0);
+      candidatesFor.push({ kind: 'innie', cells: innies, target: houseTotal - cageSum, cageSum });
+    }
+
+    // Outies: cells of the covering cages that lie outside the house
+    const coveredByTouching = new Set(touching.flatMap(cage => cage.cells));
+    if (touching.length > inside.length && unit.indices.every(cell => coveredByTouching.has(cell))) {
+      const outies = Array.from(coveredByTouching).filter(cell => !inHouse.has(cell)).sort((a, b) => a - b);
+      const cageSum = touching.reduce((sum, cage) => sum + cage.sum, 0);
+      candidatesFor.push({ kind: 'outie', cells: outies, target: cageSum - houseTotal, cageSum });
+    }
+
+    for (const { kind, cells, target, cageSum } of candidatesFor) {
+      const open = cells.filter(cell => grid.values[cell] === 0);
+      if (open.length === 0 || open.length > MAX_INNIE_CELLS) continue;
+
+      const openTarget = target - valueSum(cells);
+      const found = getSumEliminations(grid, open, openTarget);
+      if (!found || found.eliminations.length === 0) continue;
+
+      const names = open.map(cell => getCellName(cell, size)).join('+');
+      const reason = kind === 'innie'
+        ? `the cages inside ${unit.name} add up to ${cageSum}`
+        : `the cages covering ${unit.name} add up to ${cageSum}`;
+
+      return {
+        step: 0,
+        type: 'Innie/Outie',
+        cells: open,
+        values: Array.from(new Set(found.combos.flat())).sort((a, b) => a - b),
+        eliminatedCandidates: found.eliminations,
+        explanation: `The digits of ${unit.name} add up to ${houseTotal} and ${reason}, so the ${kind}${open.length > 1 ? 's' : ''} ${names} must add up to ${openTarget}. Only ${formatCombos(found.combos)} fit, so ${formatList(found.eliminations.map(e => `${e.values.join('/')} from ${getCellName(e.cell, size)}`))} can be eliminated.`,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Range of a cell as the solver sees it: its digit, or its smallest and largest candidate
+ */
+function getCandidateBounds(grid: CandidateGrid): (cell: number) => DigitRange {
+  return cell => {
+    if (grid.values[cell] !== 0) return { min: grid.values[cell], max: grid.values[cell] };
+    const mask = grid.candidates[cell];
+    if (mask === 0) return { min: 1, max: grid.size };
+    return { min: 31 - Math.clz32(mask & -mask), max: 31 - Math.clz32(mask) };
+  };
+}
+
+/**
+ * Why the cells of an overlay limit each other, for the step explanation
+ */
+function describeOverlay(overlay: RangeOverlay, size: number): string {
+  const names = overlay.cells.map(cell => getCellName(cell, size));
+  switch (overlay.type) {
+    case 'thermo':
+      return `Digits rise along the thermometer from ${names[0]} to ${names[names.length - 1]}`;
+    case 'arrow':
+      return `The digits on the arrow from ${names[0]} add up to the digit in its circle`;
+    case 'greater':
+      return `${names[0]} holds a larger digit than ${names[1]}`;
+  }
+}
+
+/**
+ * Find overlay bounds: candidates of a thermometer, arrow or greater-than cell
+ * that lie outside the range the other cells of the overlay leave it
+ */
+function findOverlayBounds(grid: CandidateGrid, type: RangeOverlay['type'], technique: TechniqueType): SolveStep | null {
+  const bounds = getCandidateBounds(grid);
+  const overlays = (grid.variant?.overlays ?? []).filter((overlay): overlay is RangeOverlay => overlay.type === type);
+
+  for (const overlay of overlays) {
+    const ranges = overlay.cells.map((_, position) => getOverlayRange(overlay, position, bounds, grid.size));
+    const eliminations = overlay.cells
+      .map((cell, position) => ({
+        cell,
+        range: ranges[position],
+        values: getCandidates(grid, cell).filter(value => value < ranges[position].min || value > ranges[position].max),
+      }))
+      .filter(elimination => grid.values[elimination.cell] === 0 && elimination.values.length > 0);
+    if (eliminations.length === 0) continue;
+
+    const limits = eliminations.map(({ cell, range }) =>
+      range.min > range.max
+        ? `nothing for ${getCellName(cell, grid.size)}`
+        : `${range.min}-${range.max} for ${getCellName(cell, grid.size)}`
+    );
+    return {
+      step: 0,
+      type: technique,
+      cells: eliminations.map(elimination => elimination.cell),
+      values: Array.from(new Set(eliminations.flatMap(elimination => elimination.values))).sort((a, b) => a - b),
+      eliminatedCandidates: eliminations.map(({ cell, values }) => ({ cell, values })),
+      explanation: `${describeOverlay(overlay, grid.size)}, which leaves ${formatList(limits)}, so ${formatList(eliminations.map(e => `${e.values.join('/')} from ${getCellName(e.cell, grid.size)}`))} can be eliminated.`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Bitmask of a cell's digit, or of its candidates while it is empty
+ */
+function getCellMask(grid: CandidateGrid, cell: number): number {
+  return grid.values[cell] !== 0
+    ? 1 << grid.values[cell]
+    : grid.candidates[cell];
+}
+
+/**
+ * Why the two cells of a pair rule limit each other, for the step explanation
+ */
+function describePairRule(rule: PairRule, size: number): string {
+  const [a, b] = rule.cells.map(cell => getCellName(cell, size));
+  switch (rule.name) {
+    case 'white dot':
+      return `The white dot between ${a} and ${b} makes them consecutive`;
+    case 'black dot':
+      return `The black dot between ${a} and ${b} makes one double the other`;
+    case 'no dot':
+      return `No dot sits between ${a} and ${b}, so they are neither consecutive nor one double the other`;
+    case 'non-consecutive':
+      return `Neighbours ${a} and ${b} may not hold consecutive digits`;
+    default:
+      return `The ${rule.name} between ${a} and ${b} makes them add up to ${rule.name === 'X' ? 10 : 5}`;
+  }
+}
+
+/**
+ * Find pair rule deductions: candidates of a cell that no candidate of its
+ * partner across a Kropki dot, an XV sign, a dotless edge or a
+ * non-consecutive edge can pair with
+ */
+function findPairRule(grid: CandidateGrid, names: string[], technique: TechniqueType): SolveStep | null {
+  const rules = getPairRules(grid.size, grid.variant).filter(rule => names.includes(rule.name));
+
+  for (const rule of rules) {
+    const eliminations = rule.cells
+      .map((cell, position) => {
+        const allowed = getPairMask(rule, position, getCellMask(grid, rule.cells[1 - position]), grid.size);
+        return { cell, values: getCandidates(grid, cell).filter(value => !(allowed & (1 << value))) };
+      })
+      .filter(elimination => grid.values[elimination.cell] === 0 && elimination.values.length > 0);
+    if (eliminations.length === 0) continue;
+
+    return {
+      step: 0,
+      type: technique,
+      cells: eliminations.map(elimination => elimination.cell),
+      values: Array.from(new Set(eliminations.flatMap(elimination => elimination.values))).sort((a, b) => a - b),
+      eliminatedCandidates: eliminations,
+      explanation: `${describePairRule(rule, grid.size)}, so ${formatList(eliminations.map(e => `${e.values.join('/')} from ${getCellName(e.cell, grid.size)}`))} can be eliminated.`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * What an outside clue says about its line, for the step explanation
+ */
+function describeOutsideClue(clue: OutsideClue, size: number): string {
+  const names = clue.cells.map(cell => getCellName(cell, size));
+  if (clue.type === 'littleKiller') {
+    return `The diagonal from ${names[0]} to ${names[names.length - 1]} adds up to ${clue.sum}`;
+  }
+
+  const { row, col } = getCellPosition(clue.cells[0], size);
+  const line = getCellPosition(clue.cells[1], size).row === row ? `row ${row + 1}` : `column ${col + 1}`;
+  return `The digits between the 1 and the ${size} in ${line} add up to ${clue.sum}`;
+}
+
+/**
+ * Find outside clue deductions: candidates along a sandwich line or Little
+ * Killer diagonal that leave the rest of the line unable to meet the sum
+ */
+function findOutsideClue(grid: CandidateGrid, type: OutsideClue['type'], technique: TechniqueType): SolveStep | null {
+  const clues = (grid.variant?.outsideClues ?? []).filter(clue => clue.type === type);
+
+  for (const clue of clues) {
+    const allowed = getOutsideClueMasks(clue, clue.cells.map(cell => getCellMask(grid, cell)), grid.size);
+    const eliminations = clue.cells
+      .map((cell, position) => ({
+        cell,
+        values: getCandidates(grid, cell).filter(value => !(allowed[position] & (1 << value))),
+      }))
+      .filter(elimination => grid.values[elimination.cell] === 0 && elimination.values.length > 0);
+    if (eliminations.length === 0) continue;
+
+    return {
+      step: 0,
+      type: technique,
+      cells: eliminations.map(elimination => elimination.cell),
+      values: Array.from(new Set(eliminations.flatMap(elimination => elimination.values))).sort((a, b) => a - b),
+      eliminatedCandidates: eliminations,
+      explanation: `${describeOutsideClue(clue, grid.size)}, so ${formatList(eliminations.map(e => `${e.values.join('/')} from ${getCellName(e.cell, grid.size)}`))} can be eliminated.`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Apply a solve step to the grid
+ */
+function applyStep(grid: CandidateGrid, step: SolveStep): void {
+  if (!step.eliminatedCandidates) {
+    placeValue(grid, step.cells[0], step.values[0]);
+  } else {
+    for (const elim of step.eliminatedCandidates) {
+      for (const val of elim.values) {
+        eliminate(grid, elim.cell, val);
+      }
+    }
+  }
+}
+
+/**
+ * Check if puzzle is solved
+ */
+function isSolved(grid: CandidateGrid): boolean {
+  const active = getActiveCells(grid.size, grid.variant);
+  return grid.values.every((v, i) => v !== 0 || !active[i]);
+}
+
+/**
+ * Techniques in the order a human would try them, simplest first: sorted by
+ * rating weight, so each step takes the cheapest technique that works and the
+ * hardest step of a solve is no heavier than it has to be.
+ * `uniqueness` techniques assume the puzzle has exactly one solution.
+ */
+const TECHNIQUES: Array<{
+  type: TechniqueType;
+  find: (grid: CandidateGrid) => SolveStep | null;
+  uniqueness?: boolean;
+}> = [
+  { type: 'Single Candidate', find: findNakedSingle },
+  { type: 'Hidden Single', find: findHiddenSingle },
+  { type: 'Inequality', find: grid => findOverlayBounds(grid, 'greater', 'Inequality') },
+  { type: 'Thermometer', find: grid => findOverlayBounds(grid, 'thermo', 'Thermometer') },
+  { type: 'XV Sum', find: grid => findPairRule(grid, ['X', 'V'], 'XV Sum') },
+  { type: 'Kropki Dot', find: grid => findPairRule(grid, ['white dot', 'black dot', 'no dot'], 'Kropki Dot') },
+  { type: 'Non-Consecutive', find: grid => findPairRule(grid, ['non-consecutive'], 'Non-Consecutive') },
+  { type: 'Little Killer', find: grid => findOutsideClue(grid, 'littleKiller', 'Little Killer') },
+  { type: 'Cage Combination', find: findCageCombination },
+  { type: 'Arrow Sum', find: grid => findOverlayBounds(grid, 'arrow', 'Arrow Sum') },
+  { type: 'Sandwich Sum', find: grid => findOutsideClue(grid, 'sandwich', 'Sandwich Sum') },
+  { type: 'Innie/Outie', find: findInnieOutie },
+  { type: 'Naked Pair', find: findNakedPair },
+  { type: 'Hidden Pair', find: findHiddenPair },
+  { type: 'Pointing Pair', find: findPointingPair },
+  { type: 'X-Wing', find: grid => findFish(grid, 2) },
+  { type: 'Swordfish', find: grid => findFish(grid, 3) },
+  { type: 'XY-Wing', find: findXYWing },
+  { type: 'XYZ-Wing', find: findXYZWing },
+  { type: 'W-Wing', find: findWWing },
+  { type: 'Unique Rectangle Type 1', find: findUniqueRectangleType1, uniqueness: true },
+  { type: 'Unique Rectangle Type 2', find: findUniqueRectangleType2, uniqueness: true },
+  { type: 'Unique Rectangle Type 3', find: findUniqueRectangleType3, uniqueness: true },
+  { type: 'Unique Rectangle Type 4', find: findUniqueRectangleType4, uniqueness: true },
+  { type: 'BUG+1', find: findBugPlusOne, uniqueness: true },
+  { type: 'Simple Colouring', find: findSimpleColouring },
+  { type: 'Jellyfish', find: grid => findFish(grid, 4) },
+  { type: 'Finned X-Wing', find: grid => findFinnedFish(grid, 2) },
+  { type: 'Finned Swordfish', find: grid => findFinnedFish(grid, 3) },
+  { type: 'Finned Jellyfish', find: grid => findFinnedFish(grid, 4) },
+  { type: 'X-Chain', find: findXChain },
+  { type: 'X-Cycle', find: findXCycle },
+  { type: 'XY-Chain', find: findXYChain },
+  { type: 'AIC', find: findAIC },
+];
+TECHNIQUES.sort((a, b) => TECHNIQUE_WEIGHTS[a.type] - TECHNIQUE_WEIGHTS[b.type]);
+
+// Techniques that only look at houses, so they work on the overlapping grids of a layout
+const LAYOUT_TECHNIQUES: TechniqueType[] = ['Single Candidate', 'Hidden Single', 'Naked Pair', 'Hidden Pair'];
+
+/**
+ * Techniques allowed for a puzzle; uniqueness techniques only when it is known to be unique.
+ * Variant rules can break the digit swaps uniqueness arguments rely on, so those stay classic-only.
+ */
+function getTechniques(uniquenessKnown: boolean, exclude: TechniqueType[] = [], variant?: PuzzleVariant) {
+  const allowUniqueness = uniquenessKnown && isClassic(variant);
+  return TECHNIQUES.filter(technique =>
+    (allowUniqueness || !technique.uniqueness) && !exclude.includes(technique.type) &&
+    (!variant?.layout || LAYOUT_TECHNIQUES.includes(technique.type))
+  );
+}
+
+/**
+ * Human-style solver that produces step-by-step explanations.
+ * Techniques in `exclude` are never tried, to test whether a puzzle needs them.
+ * `variant` adds its rules, e.g. killer cages, to the classic ones.
+ */
+export function solveWithSteps(
+  puzzle: number[],
+  size: number = 9,
+  blockRows: number = 3,
+  blockCols: number = 3,
+  uniquenessKnown: boolean = false,
+  exclude: TechniqueType[] = [],
+  variant?: PuzzleVariant
 ): SolverResult {
   const startTime = performance.now();
-  const grid = initializeCandidates(puzzle, size, blockRows, blockCols);
+  const grid = initializeCandidates(puzzle, size, blockRows, blockCols, variant);
   const steps: SolveStep[] = [];
+  const techniques = getTechniques(uniquenessKnown, exclude, variant);
   let stepNum = 0;
 
-  const techniques: Array<() => SolveStep | null> = [
-    () => findNakedSingle(grid),
-    () => findHiddenSingle(grid),
-    () => findNakedPair(grid),
-    () => findHiddenPair(grid),
-    () => findPointingPair(grid),
-    () => findXWing(grid),
-  ];
-
   while (!isSolved(grid)) {
     let found = false;
     
     for (const technique of techniques) {
-      const step = technique();
+      const step = technique.find(grid);
       if (step) {
         step.step = ++stepNum;
         steps.push(step);
@@ -635,12 +2037,16 @@ export function solveWithSteps(
   }
 
   const timeMs = performance.now() - startTime;
+  const solved = isSolved(grid);
+  const rating = rateSteps(steps, solved, puzzle.length);
 
   return {
-    solved: isSolved(grid),
+    solved,
     solution: grid.values,
     timeMs,
     techniques: steps,
+    difficulty: rating.difficulty,
+    rating,
   };
 }
 
@@ -653,30 +2059,25 @@ export function getHint(
   size: number = 9,
   blockRows: number = 3,
   blockCols: number = 3,
-  hintType?: TechniqueType
+  hintType?: TechniqueType,
+  uniquenessKnown: boolean = false,
+  variant?: PuzzleVariant
 ): HintResult | null {
-  const grid = initializeCandidates(puzzle, size, blockRows, blockCols);
+  const grid = initializeCandidates(puzzle, size, blockRows, blockCols, variant);
   
   // Use provided pencil marks if available
   for (let i = 0; i < puzzle.length; i++) {
     if (puzzle[i] === 0 && pencilMarks[i] && pencilMarks[i].size > 0) {
-      grid.candidates[i] = new Set(pencilMarks[i]);
+      setCandidates(grid, i, Array.from(pencilMarks[i]).reduce((mask, value) => mask | (1 << value), 0));
     }
   }
 
-  const techniques: Array<{ type: TechniqueType; find: () => SolveStep | null }> = [
-    { type: 'Single Candidate', find: () => findNakedSingle(grid) },
-    { type: 'Hidden Single', find: () => findHiddenSingle(grid) },
-    { type: 'Naked Pair', find: () => findNakedPair(grid) },
-    { type: 'Hidden Pair', find: () => findHiddenPair(grid) },
-    { type: 'Pointing Pair', find: () => findPointingPair(grid) },
-    { type: 'X-Wing', find: () => findXWing(grid) },
-  ];
+  const techniques = getTechniques(uniquenessKnown, [], variant);
 
   if (hintType) {
     const technique = techniques.find(t => t.type === hintType);
     if (technique) {
-      const step = technique.find();
+      const step = technique.find(grid);
       if (step) {
         return {
           type: step.type,
@@ -684,6 +2085,8 @@ export function getHint(
           values: step.values,
           explanation: step.explanation,
           action: step.eliminatedCandidates ? 'eliminate' : 'place',
+          eliminatedCandidates: step.eliminatedCandidates,
+          chain: step.chain,
         };
       }
     }
@@ -691,7 +2094,7 @@ export function getHint(
   }
 
   for (const technique of techniques) {
-    const step = technique.find();
+    const step = technique.find(grid);
     if (step) {
       return {
         type: step.type,
@@ -699,6 +2102,8 @@ export function getHint(
         values: step.values,
         explanation: step.explanation,
         action: step.eliminatedCandidates ? 'eliminate' : 'place',
+        eliminatedCandidates: step.eliminatedCandidates,
+        chain: step.chain,
       };
     }
   }
@@ -1,13 +1,37 @@
 // Solver module exports
-export { DLXSolver, solvePuzzle, hasUniqueSolution } from './dlx';
-export { solveWithSteps, getHint, getPeers, initializeCandidates } from './humanSolver';
+export { DLXSolver, solvePuzzle, hasUniqueSolution, findSolutions, countSolutions, diffSolutions } from './dlx';
+export { solveWithSteps, getHint, initializeCandidates } from './humanSolver';
+export { getPeers, getHouses, getBoxes, getBoxIndex, getExtraHouses, getCageMap, findRuleViolations, isClassic, isValidRegionMap } from './variants';
+export type { House } from './variants';
+export { LAYOUT_NAMES, createLayout, getActiveCells, getCellCount, getGridCells } from './layouts';
+export { solveWithConstraints } from './constraintSolver';
+export type { ConstraintSolveOptions, ConstraintSolveResult } from './constraintSolver';
 export {
   generatePuzzle,
+  ratePuzzle,
   generatePuzzleWithDifficulty,
+  generatePuzzleWithProfile,
+  needsTechnique,
+  getDifficultyProfile,
+  generateDailyPuzzle,
+  getDailySeed,
   getRandomConfig,
   getConfigForSize,
+  getBoxShapes,
   encodePuzzle,
   decodePuzzle,
+  decodeSharedGame,
+  validatePuzzle,
+  isUniquenessKnown,
   exportPuzzleJson,
   importPuzzleJson,
 } from './generator';
+export type { TechniqueProfile, GenerationProgress, ProfileGenerationOptions, SharedProgress } from './generator';
+export { ShareCodeError, isShareCodeError } from './shareCode';
+export type { ShareCodeErrorReason } from './shareCode';
+export { TECHNIQUE_WEIGHTS, DIFFICULTY_RATINGS, rateSteps, getDifficultyForRating } from './rating';
+export { generateVariantPuzzle, hasVariantOptions } from './variantGenerator';
+export type { VariantOptions } from './variantGenerator';
+export { generatePuzzleAsync, solveAsync, rateAsync, checkPuzzleAsync, checkPuzzlesAsync, isAbortError } from './asyncSolver';
+export type { AsyncTaskOptions } from './asyncSolver';
+export type { PuzzleCheck, CheckProgress } from './workerTasks';
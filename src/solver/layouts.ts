@@ -0,0 +1,86 @@
+/**
+ * Multi-Grid Layouts
+ * Samurai, Twodoku and Butterfly puzzles: size×size grids overlapping on a larger canvas
+ */
+
+import { GridLayout, LayoutName, PuzzleVariant } from '../types';
+
+export const LAYOUT_NAMES: LayoutName[] = ['twodoku', 'butterfly', 'samurai'];
+
+/**
+ * Place the grids of a layout on the canvas. Grids overlap by whole boxes so
+ * the boxes of every grid line up, which needs square boxes.
+ */
+export function createLayout(name: LayoutName, size: number, blockRows: number, blockCols: number): GridLayout {
+  if (blockRows !== blockCols) {
+    throw new Error(`A ${name} layout needs square boxes, not ${blockRows}×${blockCols}`);
+  }
+
+  // Offset of a grid that shares only its corner box with the previous one
+  const corner = size - blockRows;
+  let grids: { row: number; col: number }[];
+
+  switch (name) {
+    case 'twodoku':
+      grids = [{ row: 0, col: 0 }, { row: corner, col: corner }];
+      break;
+    case 'butterfly':
+      grids = [
+        { row: 0, col: 0 },
+        { row: 0, col: blockCols },
+        { row: blockRows, col: 0 },
+        { row: blockRows, col: blockCols },
+      ];
+      break;
+    case 'samurai':
+      grids = [
+        { row: 0, col: 0 },
+        { row: 0, col: 2 * corner },
+        { row: corner, col: corner },
+        { row: 2 * corner, col: 0 },
+        { row: 2 * corner, col: 2 * corner },
+      ];
+      break;
+  }
+
+  return {
+    name,
+    width: Math.max(...grids.map(grid => grid.col)) + size,
+    height: Math.max(...grids.map(grid => grid.row)) + size,
+    grids,
+  };
+}
+
+/**
+ * Whether a name is one of the known layouts
+ */
+export function isLayoutName(name: unknown): name is LayoutName {
+  return LAYOUT_NAMES.includes(name as LayoutName);
+}
+
+/**
+ * Number of entries in a puzzle's `cells`: the whole canvas for layouts
+ */
+export function getCellCount(size: number, variant?: PuzzleVariant): number {
+  return variant?.layout ? variant.layout.width * variant.layout.height : size * size;
+}
+
+/**
+ * Canvas indices of one grid's cells, row by row
+ */
+export function getGridCells(layout: GridLayout, grid: number, size: number): number[] {
+  const { row, col } = layout.grids[grid];
+  return Array.from({ length: size * size }, (_, i) => (row + Math.floor(i / size)) * layout.width + col + (i % size));
+}
+
+/**
+ * Which cells belong to some grid; every cell does unless a layout leaves gaps
+ */
+export function getActiveCells(size: number, variant?: PuzzleVariant): boolean[] {
+  const layout = variant?.layout;
+  if (!layout) return new Array(size * size).fill(true);
+
+  const active = new Array(layout.width * layout.height).fill(false);
+  layout.grids.forEach((_, grid) => getGridCells(layout, grid, size).forEach(cell => { active[cell] = true; }));
+  return active;
+}
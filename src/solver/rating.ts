@@ -0,0 +1,101 @@
+/**
+ * Puzzle Rating
+ * Sudoku Explainer style ratings: a puzzle is as hard as the hardest step it needs
+ */
+
+import { TechniqueType, SolveStep, PuzzleRating, Difficulty } from '../types';
+
+/**
+ * Weight of each technique on the Sudoku Explainer scale (1.0 - 10.0)
+ */
+export const TECHNIQUE_WEIGHTS: Record<TechniqueType, number> = {
+  'Single Candidate': 1.0,
+  'Hidden Single': 1.5,
+  'Inequality': 1.7,
+  'Thermometer': 1.8,
+  'XV Sum': 1.8,
+  'Kropki Dot': 1.9,
+  'Non-Consecutive': 1.9,
+  'Little Killer': 1.9,
+  'Cage Combination': 2.0,
+  'Arrow Sum': 2.0,
+  'Sandwich Sum': 2.2,
+  'Innie/Outie': 2.4,
+  'Pointing Pair': 2.6,
+  'Box/Line Reduction': 2.8,
+  'Naked Pair': 3.0,
+  'X-Wing': 3.2,
+  'Hidden Pair': 3.4,
+  'Naked Triple': 3.6,
+  'Finned X-Wing': 3.6,
+  'Swordfish': 3.8,
+  'Hidden Triple': 4.0,
+  'XY-Wing': 4.2,
+  'Finned Swordfish': 4.2,
+  'XYZ-Wing': 4.4,
+  'W-Wing': 4.4,
+  'Unique Rectangle Type 1': 4.5,
+  'Unique Rectangle Type 2': 4.5,
+  'Unique Rectangle Type 4': 4.5,
+  'Unique Rectangle Type 3': 4.6,
+  'Jellyfish': 5.2,
+  'Finned Jellyfish': 5.4,
+  'BUG+1': 5.6,
+  'Simple Colouring': 6.2,
+  'X-Chain': 6.6,
+  'X-Cycle': 6.6,
+  'XY-Chain': 6.8,
+  'AIC': 7.0,
+  'Backtracking': 10.0,
+};
+
+/**
+ * Lowest rating that lands a puzzle in each difficulty bucket
+ */
+export const DIFFICULTY_RATINGS: Record<Exclude<Difficulty, 'Custom'>, { min: number; label: string }> = {
+  Easy: { min: 1.0, label: 'singles' },
+  Medium: { min: 1.5, label: 'many hidden singles' },
+  Hard: { min: 2.6, label: 'locked candidates, subsets, X-Wing' },
+  Expert: { min: 3.8, label: 'fish, wings, uniqueness and chains' },
+};
+
+// Singles-only puzzles with more empty cells than this share are Medium
+const EASY_MAX_EMPTY_SHARE = 45 / 81;
+
+/**
+ * Map a rating onto the difficulty buckets used by the generator
+ */
+export function getDifficultyForRating(score: number, steps: number, cellCount: number): Difficulty {
+  if (score >= DIFFICULTY_RATINGS.Expert.min) return 'Expert';
+  if (score >= DIFFICULTY_RATINGS.Hard.min) return 'Hard';
+  if (score > DIFFICULTY_RATINGS.Easy.min && steps > cellCount * EASY_MAX_EMPTY_SHARE) return 'Medium';
+  return 'Easy';
+}
+
+/**
+ * Rate a solve path: hardest step, step count and bottlenecks.
+ * A bottleneck is a step where no single was available.
+ */
+export function rateSteps(steps: SolveStep[], solved: boolean, cellCount: number): PuzzleRating {
+  let hardestTechnique: TechniqueType = solved ? 'Single Candidate' : 'Backtracking';
+  let score = TECHNIQUE_WEIGHTS[hardestTechnique];
+
+  if (solved) {
+    for (const step of steps) {
+      if (TECHNIQUE_WEIGHTS[step.type] > score) {
+        score = TECHNIQUE_WEIGHTS[step.type];
+        hardestTechnique = step.type;
+      }
+    }
+  }
+
+  const bottlenecks = steps.filter(step => TECHNIQUE_WEIGHTS[step.type] > TECHNIQUE_WEIGHTS['Hidden Single']).length;
+
+  return {
+    score,
+    hardestTechnique,
+    steps: steps.length,
+    bottlenecks,
+    difficulty: getDifficultyForRating(score, steps.length, cellCount),
+  };
+}
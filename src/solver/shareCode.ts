@@ -0,0 +1,207 @@
+/**
+ * Share Code Framing
+ * Bit packing, URL-safe base64 and a checksum around the bytes of a share link,
+ * so a mangled link fails with a reason instead of decoding to a different puzzle
+ */
+
+export type ShareCodeErrorReason = 'malformed' | 'truncated' | 'checksum' | 'version' | 'invalid';
+
+/**
+ * A share code that cannot be read, and why
+ */
+export class ShareCodeError extends Error {
+  readonly reason: ShareCodeErrorReason;
+
+  constructor(reason: ShareCodeErrorReason, message: string) {
+    super(message);
+    this.name = 'ShareCodeError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * Whether an error came from reading a share code
+ */
+export function isShareCodeError(error: unknown): error is ShareCodeError {
+  return error instanceof ShareCodeError;
+}
+
+/**
+ * Appends values of a given bit width, most significant bit first
+ */
+export class BitWriter {
+  private bytes: number[] = [];
+  private bitCount = 0;
+
+  write(value: number, bits: number): void {
+    for (let bit = bits - 1; bit >= 0; bit--) {
+      if (this.bitCount % 8 === 0) this.bytes.push(0);
+      if (Math.floor(value / 2 ** bit) % 2) {
+        this.bytes[this.bytes.length - 1] |= 0x80 >> (this.bitCount % 8);
+      }
+      this.bitCount++;
+    }
+  }
+
+  writeFlag(flag: boolean): void {
+    this.write(flag ? 1 : 0, 1);
+  }
+
+  /**
+   * A non-negative integer of any size, seven bits at a time behind a continuation bit
+   */
+  writeVarint(value: number): void {
+    let rest = value;
+    do {
+      const low = rest % 128;
+      rest = Math.floor(rest / 128);
+      this.write(rest > 0 ? 1 : 0, 1);
+      this.write(low, 7);
+    } while (rest > 0);
+  }
+
+  toBytes(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+/**
+ * Reads back what a BitWriter wrote; running off the end means the code was cut short
+ */
+export class BitReader {
+  private bytes: Uint8Array;
+  private position = 0;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+  }
+
+  read(bits: number): number {
+    let value = 0;
+    for (let i = 0; i < bits; i++) {
+      const byte = this.bytes[this.position >> 3];
+      if (byte === undefined) {
+        throw new ShareCodeError('truncated', 'Share code is cut short');
+      }
+      value = value * 2 + ((byte >> (7 - (this.position % 8))) & 1);
+      this.position++;
+    }
+    return value;
+  }
+
+  // Whole bytes started so far
+  get bytesRead(): number {
+    return Math.ceil(this.position / 8);
+  }
+
+  readFlag(): boolean {
+    return this.read(1) === 1;
+  }
+
+  readVarint(): number {
+    let value = 0;
+    let scale = 1;
+    let more = true;
+    while (more) {
+      more = this.readFlag();
+      value += this.read(7) * scale;
+      scale *= 128;
+      if (scale > 2 ** 56) {
+        throw new ShareCodeError('malformed', 'Share code holds a number too large to read');
+      }
+    }
+    return value;
+  }
+}
+
+/**
+ * Bits needed to write every integer from 0 to max
+ */
+export function bitsFor(max: number): number {
+  return Math.max(1, 32 - Math.clz32(max));
+}
+
+/**
+ * Fletcher-16 over the bytes: catches any single changed byte and most swaps
+ */
+function checksum(bytes: Uint8Array): number {
+  let low = 0;
+  let high = 0;
+  for (const byte of bytes) {
+    low = (low + byte) % 255;
+    high = (high + low) % 255;
+  }
+  return (high << 8) | low;
+}
+
+const BASE64_URL = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+function toBase64Url(bytes: Uint8Array): string {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    const chars = Math.min(4, Math.ceil(((bytes.length - i) * 8) / 6));
+    for (let c = 0; c < chars; c++) {
+      result += BASE64_URL[(chunk >> (18 - c * 6)) & 63];
+    }
+  }
+  return result;
+}
+
+function fromBase64Url(code: string): Uint8Array {
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of code) {
+    const value = BASE64_URL.indexOf(char);
+    if (value < 0) {
+      throw new ShareCodeError('malformed', `Share code contains "${char}", which is not URL-safe base64`);
+    }
+    buffer = ((buffer << 6) | value) & 0xffff;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+  return Uint8Array.from(bytes);
+}
+
+/**
+ * Frame a payload as a share code: version byte, payload length, payload and checksum
+ */
+export function packShareCode(version: number, payload: Uint8Array): string {
+  const header = new BitWriter();
+  header.write(version, 8);
+  header.writeVarint(payload.length);
+
+  const body = new Uint8Array([...header.toBytes(), ...payload]);
+  const sum = checksum(body);
+  return toBase64Url(new Uint8Array([...body, sum >> 8, sum & 0xff]));
+}
+
+/**
+ * Unwrap a share code, checking its framing; the caller checks the version it got
+ */
+export function unpackShareCode(code: string): { version: number; payload: Uint8Array } {
+  const bytes = fromBase64Url(code.trim());
+  const reader = new BitReader(bytes);
+  const version = reader.read(8);
+  const length = reader.readVarint();
+
+  const start = reader.bytesRead;
+  if (bytes.length < start + length + 2) {
+    throw new ShareCodeError('truncated', 'Share code is cut short');
+  }
+  if (bytes.length > start + length + 2) {
+    throw new ShareCodeError('malformed', 'Share code has extra data after its end');
+  }
+
+  const body = bytes.subarray(0, start + length);
+  const sum = (bytes[start + length] << 8) | bytes[start + length + 1];
+  if (checksum(body) !== sum) {
+    throw new ShareCodeError('checksum', 'Share code does not match its checksum; it was changed or mistyped');
+  }
+
+  return { version, payload: bytes.slice(start, start + length) };
+}
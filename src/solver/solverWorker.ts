@@ -0,0 +1,28 @@
+/**
+ * Solver Web Worker
+ * Runs generation, solving and rating off the main thread
+ */
+
+import { runSolverTask, SolverTask, SolverWorkerMessage } from './workerTasks';
+
+// Progress messages are throttled so a fast generator doesn't flood the page
+const PROGRESS_INTERVAL_MS = 50;
+
+const post = (message: SolverWorkerMessage) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<SolverTask>) => {
+  let lastProgress = 0;
+  
+  try {
+    const result = runSolverTask(event.data, progress => {
+      const now = performance.now();
+      if (now - lastProgress >= PROGRESS_INTERVAL_MS) {
+        lastProgress = now;
+        post({ type: 'progress', progress });
+      }
+    });
+    post({ type: 'result', result });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
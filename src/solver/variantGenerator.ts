@@ -0,0 +1,476 @@
+/**
+ * Variant Puzzle Generator
+ * Builds a solution under the variant's rules, derives its clues (e.g. killer
+ * cages) from that solution, then removes givens while the solution stays unique
+ */
+
+import { Cage, ConstraintOverlay, Difficulty, LayoutName, OutsideClue, Puzzle, PuzzleConfig, PuzzleVariant, Symmetry } from '../types';
+import { DLXSolver, hasUniqueSolution } from './dlx';
+import { solveWithConstraints } from './constraintSolver';
+import { getBoxIndex, getNeighbourPairs, isConnected, needsConstraintSolver } from './variants';
+import { createLayout, getActiveCells, getCellCount } from './layouts';
+import { SeededRandom, getGivensRange, getRemovalOrder, ratePuzzle } from './generator';
+import { solveWithSteps } from './humanSolver';
+
+/**
+ * Variant rules to generate a puzzle with
+ */
+export interface VariantOptions {
+  killer?: boolean;
+  jigsaw?: boolean;
+  diagonals?: boolean;
+  windows?: boolean;
+  thermo?: boolean;
+  arrows?: boolean;
+  greaterThan?: boolean;
+  kropki?: boolean;
+  xv?: boolean;
+  antiKnight?: boolean;
+  antiKing?: boolean;
+  nonConsecutive?: boolean;
+  sandwich?: boolean;
+  littleKiller?: boolean;
+  layout?: LayoutName; // Overlapping grids; takes no other rule
+}
+
+const MAX_CAGE_SIZE = 4;
+
+const MIN_THERMO_LENGTH = 3;
+const MAX_THERMO_LENGTH = 6;
+const MAX_ARROW_LENGTH = 3;
+
+// Start cells tried per overlay wanted before settling for fewer
+const OVERLAY_TRIES = 20;
+
+// Little Killer diagonals clued, per digit of the grid size
+const LITTLE_KILLERS_PER_DIGIT = 1;
+
+// Search nodes allowed per uniqueness check; a given stays when the check runs out
+const UNIQUENESS_NODE_BUDGET = 2000;
+
+// Search nodes allowed per cell for the first attempt at filling the grid; each
+// restart doubles it, so rules that make fills hard get the budget they need
+const FILL_NODES_PER_CELL = 8;
+const MAX_FILL_ATTEMPTS = 24;
+
+// Cell swaps attempted per cell when scrambling boxes into jigsaw regions
+const REGION_SWAPS_PER_CELL = 64;
+
+// Share of the classic minimum givens kept; cages and overlays carry the rest of the information
+const VARIANT_GIVENS_SHARE: Record<Difficulty, number> = {
+  Easy: 0.5,
+  Medium: 0.3,
+  Hard: 0.1,
+  Expert: 0,
+  Custom: 0,
+};
+
+/**
+ * Whether any variant rule is selected
+ */
+export function hasVariantOptions(options?: VariantOptions): boolean {
+  return !!options?.killer || !!options?.jigsaw || !!options?.diagonals || !!options?.windows ||
+    !!options?.thermo || !!options?.arrows || !!options?.greaterThan || !!options?.kropki || !!options?.xv ||
+    !!options?.antiKnight || !!options?.antiKing || !!options?.nonConsecutive ||
+    !!options?.sandwich || !!options?.littleKiller || !!options?.layout;
+}
+
+/**
+ * Orthogonal neighbours of a cell
+ */
+function getNeighbours(index: number, size: number): number[] {
+  const row = Math.floor(index / size);
+  const col = index % size;
+  const neighbours: number[] = [];
+  if (row > 0) neighbours.push(index - size);
+  if (row < size - 1) neighbours.push(index + size);
+  if (col > 0) neighbours.push(index - 1);
+  if (col < size - 1) neighbours.push(index + 1);
+  return neighbours;
+}
+
+/**
+ * Cells touching a cell, diagonals included
+ */
+function getAdjacent(index: number, size: number): number[] {
+  const row = Math.floor(index / size);
+  const col = index % size;
+  const adjacent: number[] = [];
+  for (let dr = -1; dr <= 1; dr++) {
+    for (let dc = -1; dc <= 1; dc++) {
+      const r = row + dr;
+      const c = col + dc;
+      if ((dr !== 0 || dc !== 0) && r >= 0 && r < size && c >= 0 && c < size) adjacent.push(r * size + c);
+    }
+  }
+  return adjacent;
+}
+
+/**
+ * Fill an empty grid at random under the given houses and global rules. Some
+ * random starts are slow to finish, so long searches are restarted with twice
+ * the budget until one finishes. Rules exact cover can model (extra houses,
+ * anti-knight, anti-king, non-consecutive) are filled there, as it is faster.
+ */
+function buildSolution(size: number, blockRows: number, blockCols: number, rules: PuzzleVariant, rng: SeededRandom): number[] {
+  if (!needsConstraintSolver(rules)) {
+    const solution = new DLXSolver(size, blockRows, blockCols, rules).fill(() => rng.next());
+    if (solution.length > 0) return solution;
+    throw new Error(`Could not fill a ${size}×${size} grid under these variant rules`);
+  }
+
+  const empty = new Array(getCellCount(size, rules)).fill(0);
+
+  for (let attempt = 0; attempt < MAX_FILL_ATTEMPTS; attempt++) {
+    const result = solveWithConstraints(empty, size, blockRows, blockCols, rules, {
+      maxSolutions: 1,
+      random: () => rng.next(),
+      maxNodes: empty.length * FILL_NODES_PER_CELL * 2 ** attempt,
+    });
+    if (result.solutions.length > 0) return result.solutions[0];
+    if (result.complete) break; // Searched to the end: no grid fits the rules
+  }
+
+  throw new Error(`Could not fill a ${size}×${size} grid under these variant rules`);
+}
+
+/**
+ * Random jigsaw layout that the solved grid still satisfies: start from the
+ * boxes and repeatedly trade two border cells holding the same digit between
+ * neighbouring regions, as long as both regions stay connected
+ */
+function buildRegions(solution: number[], size: number, blockRows: number, blockCols: number, rng: SeededRandom): number[] {
+  const regions = Array.from({ length: size * size }, (_, i) => getBoxIndex(i, size, blockRows, blockCols));
+  const cellsOf = (region: number) => regions.flatMap((r, i) => (r === region ? [i] : []));
+
+  for (let attempt = 0; attempt < size * size * REGION_SWAPS_PER_CELL; attempt++) {
+    const a = rng.nextInt(0, regions.length - 1);
+    const borders = getNeighbours(a, size).filter(n => regions[n] !== regions[a]);
+    if (borders.length === 0) continue;
+
+    // Region B's cell with the same digit must touch region A for the trade
+    const regionA = regions[a];
+    const regionB = regions[borders[rng.nextInt(0, borders.length - 1)]];
+    const b = regions.findIndex((r, i) => r === regionB && solution[i] === solution[a]);
+    if (!getNeighbours(b, size).some(n => regions[n] === regionA && n !== a)) continue;
+
+    regions[a] = regionB;
+    regions[b] = regionA;
+    if (!isConnected(cellsOf(regionA), size) || !isConnected(cellsOf(regionB), size)) {
+      regions[a] = regionA;
+      regions[b] = regionB;
+    }
+  }
+
+  return regions;
+}
+
+/**
+ * Split a solved grid into connected cages without repeated digits.
+ * Lone cells are merged into a neighbouring cage where the digits allow.
+ */
+function buildCages(solution: number[], size: number, rng: SeededRandom): Cage[] {
+  const cageOf = new Array(solution.length).fill(-1);
+  const groups: number[][] = [];
+
+  for (const start of rng.shuffle(Array.from({ length: solution.length }, (_, i) => i))) {
+    if (cageOf[start] !== -1) continue;
+
+    const group = [start];
+    const targetSize = rng.nextInt(2, MAX_CAGE_SIZE);
+    cageOf[start] = groups.length;
+
+    while (group.length < targetSize) {
+      const digits = new Set(group.map(cell => solution[cell]));
+      const options = Array.from(new Set(group.flatMap(cell => getNeighbours(cell, size))))
+        .filter(cell => cageOf[cell] === -1 && !digits.has(solution[cell]));
+      if (options.length === 0) break;
+
+      const next = options[rng.nextInt(0, options.length - 1)];
+      cageOf[next] = groups.length;
+      group.push(next);
+    }
+
+    groups.push(group);
+  }
+
+  for (const group of groups) {
+    if (group.length !== 1) continue;
+    const [cell] = group;
+    const target = getNeighbours(cell, size)
+      .map(neighbour => groups[cageOf[neighbour]])
+      .find(other => other !== group && other.length > 0 && other.length <= MAX_CAGE_SIZE &&
+        !other.some(c => solution[c] === solution[cell]));
+    if (target) {
+      target.push(cell);
+      cageOf[cell] = cageOf[target[0]];
+      group.pop();
+    }
+  }
+
+  return groups
+    .filter(group => group.length > 0)
+    .map(group => {
+      const cells = group.sort((a, b) => a - b);
+      return { cells, sum: cells.reduce((sum, cell) => sum + solution[cell], 0) };
+    });
+}
+
+/**
+ * Thermometers along rising digits of a solved grid, each cell used at most once
+ */
+function buildThermometers(solution: number[], size: number, rng: SeededRandom): ConstraintOverlay[] {
+  const used = new Set<number>();
+  const thermos: ConstraintOverlay[] = [];
+  const wanted = Math.ceil((size * 2) / 3);
+
+  for (const bulb of rng.shuffle(Array.from({ length: solution.length }, (_, i) => i)).slice(0, wanted * OVERLAY_TRIES)) {
+    if (thermos.length >= wanted) break;
+    if (used.has(bulb)) continue;
+
+    const cells = [bulb];
+    const targetLength = rng.nextInt(MIN_THERMO_LENGTH, MAX_THERMO_LENGTH);
+    while (cells.length < targetLength) {
+      const last = cells[cells.length - 1];
+      const options = getAdjacent(last, size)
+        .filter(cell => !used.has(cell) && !cells.includes(cell) && solution[cell] > solution[last]);
+      if (options.length === 0) break;
+      cells.push(options[rng.nextInt(0, options.length - 1)]);
+    }
+
+    if (cells.length < MIN_THERMO_LENGTH) continue;
+    cells.forEach(cell => used.add(cell));
+    thermos.push({ type: 'thermo', cells });
+  }
+
+  return thermos;
+}
+
+/**
+ * Arrows whose path adds up to the digit in their circle, each cell used at most once
+ */
+function buildArrows(solution: number[], size: number, rng: SeededRandom): ConstraintOverlay[] {
+  const used = new Set<number>();
+  const arrows: ConstraintOverlay[] = [];
+  const wanted = Math.ceil(size / 2);
+
+  for (const circle of rng.shuffle(Array.from({ length: solution.length }, (_, i) => i)).slice(0, wanted * OVERLAY_TRIES)) {
+    if (arrows.length >= wanted) break;
+    if (used.has(circle) || solution[circle] < 3) continue;
+
+    // Walk away from the circle while the path still falls short of its digit
+    const cells = [circle];
+    let sum = 0;
+    while (sum < solution[circle] && cells.length <= MAX_ARROW_LENGTH) {
+      const options = getAdjacent(cells[cells.length - 1], size)
+        .filter(cell => !used.has(cell) && !cells.includes(cell) && sum + solution[cell] <= solution[circle]);
+      if (options.length === 0) break;
+      const next = options[rng.nextInt(0, options.length - 1)];
+      cells.push(next);
+      sum += solution[next];
+    }
+
+    if (sum !== solution[circle] || cells.length < 3) continue;
+    cells.forEach(cell => used.add(cell));
+    arrows.push({ type: 'arrow', cells });
+  }
+
+  return arrows;
+}
+
+/**
+ * A greater-than sign between every two orthogonal neighbours sharing a box,
+ * pointing at the smaller digit
+ */
+function buildInequalities(solution: number[], size: number, boxOf: (cell: number) => number): ConstraintOverlay[] {
+  return getNeighbourPairs(size)
+    .filter(([a, b]) => boxOf(a) === boxOf(b))
+    .map(([a, b]) => ({ type: 'greater', cells: solution[a] > solution[b] ? [a, b] : [b, a] }));
+}
+
+/**
+ * Every Kropki dot a solved grid has: white between consecutive digits, black
+ * where one is double the other, picked at random for 1 and 2
+ */
+function buildKropkiDots(solution: number[], size: number, rng: SeededRandom): ConstraintOverlay[] {
+  const dots: ConstraintOverlay[] = [];
+
+  for (const cells of getNeighbourPairs(size)) {
+    const [a, b] = cells.map(cell => solution[cell]);
+    const white = Math.abs(a - b) === 1;
+    const black = a === 2 * b || b === 2 * a;
+    if (white && black) {
+      dots.push({ type: 'kropki', cells, color: rng.next() < 0.5 ? 'white' : 'black' });
+    } else if (white || black) {
+      dots.push({ type: 'kropki', cells, color: white ? 'white' : 'black' });
+    }
+  }
+
+  return dots;
+}
+
+/**
+ * An X between every two neighbours adding up to 10 and a V where they add up to 5
+ */
+function buildXVSigns(solution: number[], size: number): ConstraintOverlay[] {
+  const signs: ConstraintOverlay[] = [];
+
+  for (const cells of getNeighbourPairs(size)) {
+    const sum = solution[cells[0]] + solution[cells[1]];
+    if (sum === 5 || sum === 10) signs.push({ type: 'xv', cells, sum });
+  }
+
+  return signs;
+}
+
+/**
+ * A sandwich clue on every row and column, read from the left and from the top
+ */
+function buildSandwichClues(solution: number[], size: number): OutsideClue[] {
+  const lines = [
+    ...Array.from({ length: size }, (_, row) => Array.from({ length: size }, (_, col) => row * size + col)),
+    ...Array.from({ length: size }, (_, col) => Array.from({ length: size }, (_, row) => row * size + col)),
+  ];
+
+  return lines.map(cells => {
+    const one = cells.findIndex(cell => solution[cell] === 1);
+    const largest = cells.findIndex(cell => solution[cell] === size);
+    const between = cells.slice(Math.min(one, largest) + 1, Math.max(one, largest));
+    return { type: 'sandwich', cells, sum: between.reduce((sum, cell) => sum + solution[cell], 0) };
+  });
+}
+
+/**
+ * Every diagonal of two or more cells, from its top end down
+ */
+function getDiagonals(size: number): number[][] {
+  const starts: [number, number, number][] = [];
+  for (let col = 0; col < size - 1; col++) starts.push([0, col, 1]);
+  for (let row = 1; row < size - 1; row++) starts.push([row, 0, 1]);
+  for (let col = 1; col < size; col++) starts.push([0, col, -1]);
+  for (let row = 1; row < size - 1; row++) starts.push([row, size - 1, -1]);
+
+  return starts.map(([row, col, step]) => {
+    const cells: number[] = [];
+    for (let r = row, c = col; r < size && c >= 0 && c < size; r++, c += step) cells.push(r * size + c);
+    return cells;
+  });
+}
+
+/**
+ * Little Killer sums on random diagonals, each clued from a random end
+ */
+function buildLittleKillers(solution: number[], size: number, rng: SeededRandom): OutsideClue[] {
+  return rng.shuffle(getDiagonals(size))
+    .slice(0, size * LITTLE_KILLERS_PER_DIGIT)
+    .map(diagonal => {
+      const cells = rng.next() < 0.5 ? diagonal : [...diagonal].reverse();
+      return { type: 'littleKiller', cells, sum: cells.reduce((sum, cell) => sum + solution[cell], 0) };
+    });
+}
+
+/**
+ * Generate a uniquely solvable variant puzzle. The difficulty sets how many
+ * givens are kept; the reported difficulty comes from rating the result.
+ */
+export function generateVariantPuzzle(
+  config: PuzzleConfig,
+  difficulty: Difficulty = 'Medium',
+  options: VariantOptions = {},
+  symmetry: Symmetry = 'none',
+  seed?: number
+): Puzzle {
+  const { size, blockRows, blockCols } = config;
+  const rng = new SeededRandom(seed);
+  const actualSeed = rng.getSeed();
+
+  if (options.layout && hasVariantOptions({ ...options, layout: undefined })) {
+    throw new Error('A multi-grid layout cannot be combined with other variant rules');
+  }
+
+  // Extra houses and global rules constrain the solution itself; regions, cages and overlays are read off it afterwards
+  const rules: PuzzleVariant = {};
+  if (options.layout) rules.layout = createLayout(options.layout, size, blockRows, blockCols);
+  if (options.diagonals) rules.diagonals = true;
+  if (options.windows) rules.windows = true;
+  if (options.antiKnight) rules.antiKnight = true;
+  if (options.antiKing) rules.antiKing = true;
+  if (options.nonConsecutive) rules.nonConsecutive = true;
+  const solution = buildSolution(size, blockRows, blockCols, rules, rng);
+
+  const variant: PuzzleVariant = { ...rules };
+  if (options.jigsaw) {
+    variant.regions = buildRegions(solution, size, blockRows, blockCols, rng);
+  }
+  if (options.killer) {
+    variant.cages = buildCages(solution, size, rng);
+  }
+
+  const overlays: ConstraintOverlay[] = [];
+  if (options.thermo) overlays.push(...buildThermometers(solution, size, rng));
+  if (options.arrows) overlays.push(...buildArrows(solution, size, rng));
+  if (options.greaterThan) {
+    overlays.push(...buildInequalities(solution, size, cell => getBoxIndex(cell, size, blockRows, blockCols, variant)));
+  }
+  if (options.xv) overlays.push(...buildXVSigns(solution, size));
+  if (options.kropki) {
+    // All dots are shown, so the missing ones are clues too
+    overlays.push(...buildKropkiDots(solution, size, rng));
+    variant.kropkiNegative = true;
+  }
+  if (overlays.length > 0) variant.overlays = overlays;
+
+  const outsideClues: OutsideClue[] = [];
+  if (options.sandwich) outsideClues.push(...buildSandwichClues(solution, size));
+  if (options.littleKiller) outsideClues.push(...buildLittleKillers(solution, size, rng));
+  if (outsideClues.length > 0) variant.outsideClues = outsideClues;
+
+  const cells = [...solution];
+  const active = getActiveCells(size, variant);
+  let givens = active.filter(Boolean).length;
+  const givensRange = getGivensRange(size, difficulty);
+  // Without cages, overlays or outside clues the givens carry all the information, as in a
+  // classic puzzle; a layout needs that many for each grid's worth of cells
+  const targetGivens = variant.cages || variant.overlays || variant.kropkiNegative || variant.outsideClues
+    ? Math.round(givensRange.min * VARIANT_GIVENS_SHARE[difficulty])
+    : Math.round(rng.nextInt(givensRange.min, givensRange.max) * givens / (size * size));
+  const nodeBudget = UNIQUENESS_NODE_BUDGET * (variant.layout?.grids.length ?? 1);
+  // Outside clues alone can pin down a grid well past what the step solver can follow,
+  // so they keep a given wherever removing it would leave the puzzle unsolvable step by step
+  const keepStepSolvable = !!variant.outsideClues;
+
+  // Layout canvases are square, so the symmetries carry over; cells outside the grids are dropped
+  const removalOrder = getRemovalOrder(variant.layout?.width ?? size, symmetry, rng)
+    .map(group => group.filter(c => active[c]))
+    .filter(group => group.length > 0);
+
+  for (const group of removalOrder) {
+    if (givens <= targetGivens) break;
+
+    for (const c of group) cells[c] = 0;
+    if (
+      hasUniqueSolution(cells, size, blockRows, blockCols, variant, nodeBudget) &&
+      (!keepStepSolvable || solveWithSteps(cells, size, blockRows, blockCols, true, [], variant).solved)
+    ) {
+      givens -= group.length;
+    } else {
+      for (const c of group) cells[c] = solution[c];
+    }
+  }
+
+  const rating = ratePuzzle(cells, size, blockRows, blockCols, true, variant);
+
+  return {
+    size,
+    blockRows,
+    blockCols,
+    cells,
+    difficulty: rating.difficulty,
+    symmetry,
+    seed: actualSeed,
+    solution,
+    rating,
+    unique: true,
+    ...variant,
+  };
+}
@@ -0,0 +1,736 @@
+/**
+ * Puzzle Variants
+ * Houses, peers and rule checks for puzzles beyond classic Sudoku
+ */
+
+import { Cage, ConstraintOverlay, GridLayout, OutsideClue, PuzzleVariant } from '../types';
+import { getCellCount, getGridCells } from './layouts';
+
+export interface House {
+  indices: number[];
+  name: string;
+}
+
+/**
+ * Smallest and largest digit a cell may hold
+ */
+export interface DigitRange {
+  min: number;
+  max: number;
+}
+
+/**
+ * Overlays that bound each of their cells by the ranges of the others
+ */
+export type RangeOverlay = Extract<ConstraintOverlay, { type: 'thermo' | 'arrow' | 'greater' }>;
+
+/**
+ * A rule between two neighbouring cells, as the digit pairs it allows
+ */
+export interface PairRule {
+  cells: [number, number];
+  name: string; // 'white dot', 'black dot', 'X', 'V', 'no dot' or 'non-consecutive'
+  fits: (a: number, b: number) => boolean; // Digits of the first and second cell
+}
+
+/**
+ * A rule that is not a plain "no repeats" relation between cells
+ */
+export interface RuleCheck {
+  cells: number[];
+  name: string;
+  // False once the filled cells (0 = empty) can no longer satisfy the rule
+  isSatisfiable: (values: number[]) => boolean;
+  // Bitmask (bit d set = digit d) of what an empty cell may still take; saves the solver trial placements
+  allowedDigits?: (values: number[], cell: number) => number;
+}
+
+// Peer tables are rebuilt only when the grid shape or variant changes
+const classicPeerCache = new Map<string, number[][]>();
+const variantPeerCache = new WeakMap<PuzzleVariant, Map<string, number[][]>>();
+
+/**
+ * Whether a variant adds nothing to the classic rules
+ */
+export function isClassic(variant?: PuzzleVariant): boolean {
+  return !variant || (
+    !variant.cages?.length && !variant.regions && !variant.diagonals && !variant.windows &&
+    !variant.overlays?.length && !variant.kropkiNegative &&
+    !variant.antiKnight && !variant.antiKing && !variant.nonConsecutive &&
+    !variant.outsideClues?.length && !variant.layout
+  );
+}
+
+/**
+ * Whether the variant's rules go beyond one grid's houses, so the DLX exact
+ * cover cannot express them and the constraint solver must be used
+ */
+export function needsConstraintSolver(variant?: PuzzleVariant): boolean {
+  return !!variant?.cages?.length || !!variant?.overlays?.length || !!variant?.kropkiNegative ||
+    !!variant?.outsideClues?.length || !!variant?.layout;
+}
+
+/**
+ * Get the index of the box (or jigsaw region) containing a cell
+ */
+export function getBoxIndex(
+  index: number,
+  size: number,
+  blockRows: number,
+  blockCols: number,
+  variant?: PuzzleVariant
+): number {
+  if (variant?.regions) return variant.regions[index];
+
+  const row = Math.floor(index / size);
+  const col = index % size;
+  return Math.floor(row / blockRows) * (size / blockCols) + Math.floor(col / blockCols);
+}
+
+/**
+ * The boxes of a grid, its regions for jigsaw puzzles, or the boxes of every grid in a layout
+ */
+export function getBoxes(size: number, blockRows: number, blockCols: number, variant?: PuzzleVariant): House[] {
+  if (variant?.layout) return getLayoutBoxes(size, blockRows, blockCols, variant.layout);
+
+  const boxes: number[][] = Array.from({ length: size }, () => []);
+  for (let i = 0; i < size * size; i++) {
+    boxes[getBoxIndex(i, size, blockRows, blockCols, variant)].push(i);
+  }
+
+  const label = variant?.regions ? 'region' : 'box';
+  return boxes.map((indices, box) => ({ indices, name: `${label} ${box + 1}` }));
+}
+
+/**
+ * Houses a variant adds to the rows, columns and boxes: the two main diagonals
+ * and the Windoku windows, which sit one cell in from the boxes with a one-cell gap
+ */
+export function getExtraHouses(size: number, blockRows: number, blockCols: number, variant?: PuzzleVariant): House[] {
+  const houses: House[] = [];
+
+  if (variant?.diagonals) {
+    houses.push({ indices: Array.from({ length: size }, (_, i) => i * size + i), name: 'the main diagonal' });
+    houses.push({ indices: Array.from({ length: size }, (_, i) => i * size + size - 1 - i), name: 'the anti-diagonal' });
+  }
+
+  if (variant?.windows) {
+    let windowCount = 0;
+    for (let top = 1; top + blockRows <= size; top += blockRows + 1) {
+      for (let left = 1; left + blockCols <= size; left += blockCols + 1) {
+        const indices: number[] = [];
+        for (let r = top; r < top + blockRows; r++) {
+          for (let c = left; c < left + blockCols; c++) indices.push(r * size + c);
+        }
+        houses.push({ indices, name: `window ${++windowCount}` });
+      }
+    }
+  }
+
+  return houses;
+}
+
+/**
+ * Every group of cells that must hold each digit exactly once
+ */
+export function getHouses(size: number, blockRows: number, blockCols: number, variant?: PuzzleVariant): House[] {
+  if (variant?.layout) return getLayoutHouses(size, blockRows, blockCols, variant.layout);
+
+  const houses: House[] = [];
+
+  for (let row = 0; row < size; row++) {
+    houses.push({ indices: Array.from({ length: size }, (_, c) => row * size + c), name: `row ${row + 1}` });
+  }
+  for (let col = 0; col < size; col++) {
+    houses.push({ indices: Array.from({ length: size }, (_, r) => r * size + col), name: `column ${col + 1}` });
+  }
+
+  houses.push(...getBoxes(size, blockRows, blockCols, variant));
+  houses.push(...getExtraHouses(size, blockRows, blockCols, variant));
+
+  return houses;
+}
+
+/**
+ * Boxes of every grid in a layout, in canvas indices. A box shared by
+ * overlapping grids is one house, named after the first grid holding it.
+ */
+function getLayoutBoxes(size: number, blockRows: number, blockCols: number, layout: GridLayout): House[] {
+  const boxes: House[] = [];
+  const seen = new Set<number>();
+
+  layout.grids.forEach((_, grid) => {
+    const cells = getGridCells(layout, grid, size);
+    for (let box = 0; box < size; box++) {
+      const indices = cells.filter((_, i) => getBoxIndex(i, size, blockRows, blockCols) === box);
+      if (seen.has(indices[0])) continue;
+      seen.add(indices[0]);
+      boxes.push({ indices, name: `box ${box + 1} of grid ${grid + 1}` });
+    }
+  });
+
+  return boxes;
+}
+
+/**
+ * Rows, columns and boxes of every grid in a layout
+ */
+function getLayoutHouses(size: number, blockRows: number, blockCols: number, layout: GridLayout): House[] {
+  const rows: House[] = [];
+  const cols: House[] = [];
+
+  layout.grids.forEach((_, grid) => {
+    const cells = getGridCells(layout, grid, size);
+    for (let row = 0; row < size; row++) {
+      rows.push({ indices: cells.slice(row * size, (row + 1) * size), name: `row ${row + 1} of grid ${grid + 1}` });
+    }
+    for (let col = 0; col < size; col++) {
+      cols.push({ indices: cells.filter((_, i) => i % size === col), name: `column ${col + 1} of grid ${grid + 1}` });
+    }
+  });
+
+  return [...rows, ...cols, ...getLayoutBoxes(size, blockRows, blockCols, layout)];
+}
+
+/**
+ * Whether a region map splits the grid into `size` connected regions of `size` cells
+ */
+export function isValidRegionMap(regions: number[], size: number): boolean {
+  if (!Array.isArray(regions) || regions.length !== size * size) return false;
+  if (regions.some(region => !Number.isInteger(region) || region < 0 || region >= size)) return false;
+
+  for (let region = 0; region < size; region++) {
+    const cells = regions.flatMap((r, i) => (r === region ? [i] : []));
+    if (cells.length !== size || !isConnected(cells, size)) return false;
+  }
+  return true;
+}
+
+/**
+ * Whether cells form one orthogonally connected group
+ */
+export function isConnected(cells: number[], size: number): boolean {
+  if (cells.length === 0) return true;
+
+  const members = new Set(cells);
+  const reached = new Set([cells[0]]);
+  const queue = [cells[0]];
+  while (queue.length > 0) {
+    const cell = queue.pop()!;
+    const row = Math.floor(cell / size);
+    const col = cell % size;
+    const neighbours = [
+      row > 0 ? cell - size : -1,
+      row < size - 1 ? cell + size : -1,
+      col > 0 ? cell - 1 : -1,
+      col < size - 1 ? cell + 1 : -1,
+    ];
+    for (const next of neighbours) {
+      if (members.has(next) && !reached.has(next)) {
+        reached.add(next);
+        queue.push(next);
+      }
+    }
+  }
+  return reached.size === members.size;
+}
+
+/**
+ * Orthogonal neighbour pairs of a grid, each once
+ */
+export function getNeighbourPairs(size: number): [number, number][] {
+  const pairs: [number, number][] = [];
+  for (let cell = 0; cell < size * size; cell++) {
+    if (cell % size < size - 1) pairs.push([cell, cell + 1]);
+    if (cell + size < size * size) pairs.push([cell, cell + size]);
+  }
+  return pairs;
+}
+
+/**
+ * Pairs of cells a knight's or king's move apart, each once, for the
+ * anti-knight and anti-king rules. Orthogonal king moves are already row
+ * and column peers, so only the diagonal ones are added.
+ */
+export function getChessPeerPairs(size: number, variant?: PuzzleVariant): [number, number][] {
+  // Moves heading down the grid only, so every pair comes up once
+  const moves: [number, number][] = [];
+  if (variant?.antiKnight) moves.push([1, -2], [1, 2], [2, -1], [2, 1]);
+  if (variant?.antiKing) moves.push([1, -1], [1, 1]);
+
+  const pairs: [number, number][] = [];
+  for (let cell = 0; cell < size * size; cell++) {
+    const row = Math.floor(cell / size);
+    const col = cell % size;
+    for (const [dr, dc] of moves) {
+      const r = row + dr;
+      const c = col + dc;
+      if (r < size && c >= 0 && c < size) pairs.push([cell, r * size + c]);
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Groups of cells that may not repeat a digit: houses, killer cages and
+ * anti-knight or anti-king pairs
+ */
+function getExclusionGroups(size: number, blockRows: number, blockCols: number, variant?: PuzzleVariant): number[][] {
+  return [
+    ...getHouses(size, blockRows, blockCols, variant).map(house => house.indices),
+    ...(variant?.cages ?? []).map(cage => cage.cells),
+    ...getChessPeerPairs(size, variant),
+  ];
+}
+
+/**
+ * Peers of every cell: the cells that may never hold the same digit
+ */
+export function getPeerTable(
+  size: number,
+  blockRows: number,
+  blockCols: number,
+  variant?: PuzzleVariant
+): number[][] {
+  const key = `${size}-${blockRows}-${blockCols}`;
+  const cache = isClassic(variant)
+    ? classicPeerCache
+    : variantPeerCache.get(variant!) ?? variantPeerCache.set(variant!, new Map()).get(variant!)!;
+
+  const cached = cache.get(key);
+  if (cached) return cached;
+
+  const peerSets = Array.from({ length: getCellCount(size, variant) }, () => new Set<number>());
+  for (const group of getExclusionGroups(size, blockRows, blockCols, variant)) {
+    for (const a of group) {
+      for (const b of group) {
+        if (a !== b) peerSets[a].add(b);
+      }
+    }
+  }
+
+  const table = peerSets.map(peers => Array.from(peers).sort((a, b) => a - b));
+  cache.set(key, table);
+  return table;
+}
+
+/**
+ * Get all peer indices for a cell (same row, column, box or region, or any extra group of the variant)
+ */
+export function getPeers(
+  index: number,
+  size: number,
+  blockRows: number,
+  blockCols: number,
+  variant?: PuzzleVariant
+): number[] {
+  return getPeerTable(size, blockRows, blockCols, variant)[index];
+}
+
+/**
+ * Smallest and largest total of `count` distinct digits from `available`
+ */
+export function getSumBounds(available: number[], count: number): { min: number; max: number } {
+  const sorted = [...available].sort((a, b) => a - b);
+  let min = 0;
+  let max = 0;
+  for (let i = 0; i < count; i++) {
+    min += sorted[i] ?? Infinity;
+    max += sorted[sorted.length - 1 - i] ?? -Infinity;
+  }
+  return { min, max };
+}
+
+/**
+ * Whether the filled cells of a cage still leave room to reach its sum
+ * with distinct digits in the empty ones
+ */
+export function isCageSatisfiable(values: number[], cage: Cage, size: number): boolean {
+  let filledSum = 0;
+  let empty = 0;
+  const used = new Set<number>();
+
+  for (const cell of cage.cells) {
+    const value = values[cell];
+    if (value === 0) {
+      empty++;
+    } else {
+      if (used.has(value)) return false;
+      used.add(value);
+      filledSum += value;
+    }
+  }
+
+  if (empty === 0) return filledSum === cage.sum;
+
+  const available = Array.from({ length: size }, (_, i) => i + 1).filter(v => !used.has(v));
+  const { min, max } = getSumBounds(available, empty);
+  const remaining = cage.sum - filledSum;
+  return remaining >= min && remaining <= max;
+}
+
+/**
+ * Bitmasks of every set of `count` distinct digits (1..size) adding up to `sum`
+ */
+export function getSumCombinationMasks(sum: number, count: number, size: number): number[] {
+  const masks: number[] = [];
+
+  const pick = (from: number, left: number, remaining: number, mask: number) => {
+    if (left === 0) {
+      if (remaining === 0) masks.push(mask);
+      return;
+    }
+    for (let digit = from; digit <= size && digit <= remaining; digit++) {
+      pick(digit + 1, left - 1, remaining - digit, mask | (1 << digit));
+    }
+  };
+
+  pick(1, count, sum, 0);
+  return masks;
+}
+
+/**
+ * Digits an empty cage cell may take: those still missing from some digit set
+ * that adds up to the cage sum and contains every digit already placed
+ */
+function getCageAllowedDigits(values: number[], cage: Cage, combos: number[]): number {
+  let placed = 0;
+  for (const cell of cage.cells) {
+    if (values[cell] !== 0) placed |= 1 << values[cell];
+  }
+
+  let allowed = 0;
+  for (const combo of combos) {
+    if ((combo & placed) === placed) allowed |= combo & ~placed;
+  }
+  return allowed;
+}
+
+/**
+ * Range the cell at `position` of an overlay may take, given the range of
+ * every other cell on it. Works on placed digits and on candidate bounds alike.
+ */
+export function getOverlayRange(
+  overlay: RangeOverlay,
+  position: number,
+  bounds: (cell: number) => DigitRange,
+  size: number
+): DigitRange {
+  const { cells } = overlay;
+  const others = cells.filter((_, i) => i !== position);
+
+  switch (overlay.type) {
+    case 'thermo': {
+      // Every step along the thermometer adds at least one
+      let min = position + 1;
+      let max = size - (cells.length - 1 - position);
+      cells.forEach((cell, i) => {
+        if (i < position) min = Math.max(min, bounds(cell).min + position - i);
+        if (i > position) max = Math.min(max, bounds(cell).max - (i - position));
+      });
+      return { min, max };
+    }
+
+    case 'arrow': {
+      const path = cells.slice(1).filter((_, i) => i + 1 !== position);
+      const pathMin = path.reduce((sum, cell) => sum + bounds(cell).min, 0);
+      const pathMax = path.reduce((sum, cell) => sum + bounds(cell).max, 0);
+      if (position === 0) {
+        return { min: Math.max(1, pathMin), max: Math.min(size, pathMax) };
+      }
+      const circle = bounds(cells[0]);
+      return { min: Math.max(1, circle.min - pathMax), max: Math.min(size, circle.max - pathMin) };
+    }
+
+    case 'greater': {
+      const other = bounds(others[0]);
+      return position === 0
+        ? { min: Math.max(1, other.min + 1), max: size }
+        : { min: 1, max: Math.min(size, other.max - 1) };
+    }
+  }
+}
+
+/**
+ * Bitmask of the digits from `min` to `max`
+ */
+function getRangeMask({ min, max }: DigitRange): number {
+  let mask = 0;
+  for (let digit = Math.max(1, min); digit <= max; digit++) mask |= 1 << digit;
+  return mask;
+}
+
+/**
+ * Range of a cell from the filled grid alone: its digit, or anything when empty
+ */
+function getValueBounds(values: number[], size: number): (cell: number) => DigitRange {
+  return cell => (values[cell] === 0 ? { min: 1, max: size } : { min: values[cell], max: values[cell] });
+}
+
+/**
+ * Whether every filled cell of an overlay fits the others, and every empty one still has a digit left
+ */
+function isOverlaySatisfiable(values: number[], overlay: RangeOverlay, size: number): boolean {
+  const bounds = getValueBounds(values, size);
+  return overlay.cells.every((cell, position) => {
+    const { min, max } = getOverlayRange(overlay, position, bounds, size);
+    return values[cell] === 0 ? min <= max : values[cell] >= min && values[cell] <= max;
+  });
+}
+
+const isConsecutive = (a: number, b: number) => Math.abs(a - b) === 1;
+const isDouble = (a: number, b: number) => a === 2 * b || b === 2 * a;
+
+/**
+ * Kropki dots and XV signs as pair rules, plus a "no dot" rule between every
+ * undotted pair of neighbours when the negative constraint is on, and a
+ * "non-consecutive" rule between all neighbours under that rule
+ */
+export function getPairRules(size: number, variant?: PuzzleVariant): PairRule[] {
+  const rules: PairRule[] = [];
+  const dotted = new Set<string>();
+  const pairKey = ([a, b]: [number, number]) => `${Math.min(a, b)}-${Math.max(a, b)}`;
+
+  for (const overlay of variant?.overlays ?? []) {
+    if (overlay.type === 'kropki') {
+      dotted.add(pairKey(overlay.cells));
+      rules.push({
+        cells: overlay.cells,
+        name: `${overlay.color} dot`,
+        fits: overlay.color === 'white' ? isConsecutive : isDouble,
+      });
+    } else if (overlay.type === 'xv') {
+      const { sum } = overlay;
+      rules.push({ cells: overlay.cells, name: sum === 10 ? 'X' : 'V', fits: (a, b) => a + b === sum });
+    }
+  }
+
+  if (variant?.kropkiNegative) {
+    for (const pair of getNeighbourPairs(size)) {
+      if (dotted.has(pairKey(pair))) continue;
+      rules.push({ cells: pair, name: 'no dot', fits: (a, b) => !isConsecutive(a, b) && !isDouble(a, b) });
+    }
+  }
+
+  if (variant?.nonConsecutive) {
+    for (const pair of getNeighbourPairs(size)) {
+      rules.push({ cells: pair, name: 'non-consecutive', fits: (a, b) => !isConsecutive(a, b) });
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Bitmask of the digits the cell at `position` of a pair rule can take while
+ * the other cell keeps one of the digits in `otherMask`
+ */
+export function getPairMask(rule: PairRule, position: number, otherMask: number, size: number): number {
+  let mask = 0;
+  for (let digit = 1; digit <= size; digit++) {
+    for (let other = 1; other <= size; other++) {
+      if (!(otherMask & (1 << other))) continue;
+      if (position === 0 ? rule.fits(digit, other) : rule.fits(other, digit)) {
+        mask |= 1 << digit;
+        break;
+      }
+    }
+  }
+  return mask;
+}
+
+const lowestDigit = (mask: number) => 31 - Math.clz32(mask & -mask);
+const highestDigit = (mask: number) => 31 - Math.clz32(mask);
+
+/**
+ * Smallest and largest total of `count` distinct digits strictly between 1
+ * and `size`, leaving out `without` (0 leaves nothing out)
+ */
+function getFillingBounds(count: number, size: number, without = 0): DigitRange {
+  const available = size - 2 - (without > 1 && without < size ? 1 : 0);
+  if (count > available) return { min: Infinity, max: -Infinity };
+
+  // 2 + 3 + ... + (count + 1) and (size - 1) + ... + (size - count), with `without` swapped for the next digit out
+  let min = (count * (count + 3)) / 2;
+  let max = count * (size - 1) - (count * (count - 1)) / 2;
+  if (without >= 2 && without <= count + 1) min += count + 2 - without;
+  if (without > 1 && without >= size - count && without < size) max -= without - (size - count - 1);
+  return { min, max };
+}
+
+/**
+ * Digits each cell of a sandwich line may hold: some placement of the 1 and
+ * the largest digit must leave digits between them that can reach the sum.
+ * Works on sum bounds, so it never rules out a digit some solution uses.
+ */
+function getSandwichMasks(sum: number, masks: number[], size: number): number[] {
+  const fillings = masks.map(mask => mask & ~((1 << 1) | (1 << size)));
+  const result = new Array<number>(masks.length).fill(0);
+
+  for (let one = 0; one < masks.length; one++) {
+    if (!(masks[one] & (1 << 1))) continue;
+
+    for (let largest = 0; largest < masks.length; largest++) {
+      if (largest === one || !(masks[largest] & (1 << size))) continue;
+      if (fillings.some((mask, i) => mask === 0 && i !== one && i !== largest)) continue;
+
+      const from = Math.min(one, largest);
+      const to = Math.max(one, largest);
+      const count = to - from - 1;
+      let low = 0;
+      let high = 0;
+      for (let i = from + 1; i < to; i++) {
+        low += lowestDigit(fillings[i]);
+        high += highestDigit(fillings[i]);
+      }
+      const bounds = getFillingBounds(count, size);
+      if (sum < Math.max(low, bounds.min) || sum > Math.min(high, bounds.max)) continue;
+
+      result[one] |= 1 << 1;
+      result[largest] |= 1 << size;
+      fillings.forEach((mask, i) => {
+        if (i === one || i === largest) return;
+        if (i < from || i > to) {
+          result[i] |= mask;
+          return;
+        }
+
+        // The rest of the filling must make up what this digit leaves of the sum
+        for (let digit = 2; digit < size; digit++) {
+          if (!(mask & (1 << digit))) continue;
+          const others = getFillingBounds(count - 1, size, digit);
+          const rest = sum - digit;
+          if (rest >= Math.max(low - lowestDigit(mask), others.min) && rest <= Math.min(high - highestDigit(mask), others.max)) {
+            result[i] |= 1 << digit;
+          }
+        }
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Digits each cell of a Little Killer diagonal may hold: the rest of the
+ * diagonal must still be able to make up the sum, repeats allowed
+ */
+function getDiagonalSumMasks(sum: number, masks: number[]): number[] {
+  if (masks.some(mask => mask === 0)) return masks.map(() => 0);
+
+  const low = masks.reduce((total, mask) => total + lowestDigit(mask), 0);
+  const high = masks.reduce((total, mask) => total + highestDigit(mask), 0);
+  return masks.map(mask =>
+    mask & getRangeMask({ min: sum - (high - highestDigit(mask)), max: sum - (low - lowestDigit(mask)) })
+  );
+}
+
+/**
+ * Digits each cell along an outside clue may hold, from a bitmask (bit d set
+ * = digit d) of what each may hold now; a placed digit is a one-digit mask
+ */
+export function getOutsideClueMasks(clue: OutsideClue, masks: number[], size: number): number[] {
+  return clue.type === 'sandwich' ? getSandwichMasks(clue.sum, masks, size) : getDiagonalSumMasks(clue.sum, masks);
+}
+
+/**
+ * The variant's rules that are not "no repeats" relations, for conflict
+ * detection and the constraint solver
+ */
+export function getRuleChecks(size: number, variant?: PuzzleVariant): RuleCheck[] {
+  const checks: RuleCheck[] = [];
+
+  for (const cage of variant?.cages ?? []) {
+    const combos = getSumCombinationMasks(cage.sum, cage.cells.length, size);
+    checks.push({
+      cells: cage.cells,
+      name: `cage ${cage.sum}`,
+      isSatisfiable: values => isCageSatisfiable(values, cage, size),
+      allowedDigits: values => getCageAllowedDigits(values, cage, combos),
+    });
+  }
+
+  for (const overlay of variant?.overlays ?? []) {
+    if (overlay.type === 'kropki' || overlay.type === 'xv') continue;
+    checks.push({
+      cells: overlay.cells,
+      name: overlay.type,
+      isSatisfiable: values => isOverlaySatisfiable(values, overlay, size),
+      allowedDigits: (values, cell) =>
+        getRangeMask(getOverlayRange(overlay, overlay.cells.indexOf(cell), getValueBounds(values, size), size)),
+    });
+  }
+
+  const fullMask = getRangeMask({ min: 1, max: size });
+
+  // A pair rule holds while each filled cell fits some digit the other may still take
+  for (const rule of getPairRules(size, variant)) {
+    const allowedAt = (values: number[], position: number) => {
+      const other = values[rule.cells[1 - position]];
+      return getPairMask(rule, position, other === 0 ? fullMask : 1 << other, size);
+    };
+    checks.push({
+      cells: rule.cells,
+      name: rule.name,
+      isSatisfiable: values => rule.cells.every((cell, position) => {
+        const allowed = allowedAt(values, position);
+        return values[cell] === 0 ? allowed !== 0 : (allowed & (1 << values[cell])) !== 0;
+      }),
+      allowedDigits: (values, cell) => allowedAt(values, rule.cells.indexOf(cell)),
+    });
+  }
+
+  // An outside clue reads its whole line, so it keeps the masks of the last grid
+  // state for the cell-by-cell queries the solver makes about that state
+  for (const clue of variant?.outsideClues ?? []) {
+    let lastKey = '';
+    let lastMasks: number[] = [];
+    const getMasks = (values: number[]) => {
+      const key = clue.cells.map(cell => values[cell]).join();
+      if (key !== lastKey) {
+        lastKey = key;
+        lastMasks = getOutsideClueMasks(clue, clue.cells.map(cell => (values[cell] === 0 ? fullMask : 1 << values[cell])), size);
+      }
+      return lastMasks;
+    };
+    checks.push({
+      cells: clue.cells,
+      name: `${clue.type === 'sandwich' ? 'sandwich' : 'little killer'} ${clue.sum}`,
+      isSatisfiable: values => getMasks(values).every((mask, i) => {
+        const value = values[clue.cells[i]];
+        return (mask & (value === 0 ? fullMask : 1 << value)) !== 0;
+      }),
+      allowedDigits: (values, cell) => getMasks(values)[clue.cells.indexOf(cell)],
+    });
+  }
+
+  return checks;
+}
+
+/**
+ * Cells of broken rules in a (partial) grid, e.g. a full cage with the wrong sum
+ */
+export function findRuleViolations(values: number[], size: number, variant?: PuzzleVariant): Set<number> {
+  const violations = new Set<number>();
+
+  for (const check of getRuleChecks(size, variant)) {
+    if (!check.isSatisfiable(values)) {
+      for (const cell of check.cells) {
+        if (values[cell] !== 0) violations.add(cell);
+      }
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Index of the cage holding each cell, or -1
+ */
+export function getCageMap(cages: Cage[], cellCount: number): number[] {
+  const map = new Array(cellCount).fill(-1);
+  cages.forEach((cage, index) => {
+    for (const cell of cage.cells) map[cell] = index;
+  });
+  return map;
+}
@@ -0,0 +1,119 @@
+/**
+ * Solver Worker Tasks
+ * The jobs the solver worker runs, shared with the synchronous fallback
+ */
+
+import { Puzzle, PuzzleConfig, PuzzleRating, Difficulty, Symmetry, SolverResult } from '../types';
+import { solveWithSteps } from './humanSolver';
+import { solvePuzzle } from './dlx';
+import {
+  generatePuzzleWithDifficulty,
+  generatePuzzleWithProfile,
+  isUniquenessKnown,
+  ratePuzzle,
+  validatePuzzle,
+  TechniqueProfile,
+  GenerationProgress,
+} from './generator';
+import { generateVariantPuzzle, hasVariantOptions, VariantOptions } from './variantGenerator';
+
+export type SolverTask =
+  | {
+      type: 'generate';
+      config: PuzzleConfig;
+      difficulty: Difficulty;
+      symmetry: Symmetry;
+      profile?: TechniqueProfile;
+      variant?: VariantOptions;
+    }
+  | { type: 'solve'; puzzle: Puzzle }
+  | { type: 'rate'; puzzle: Puzzle }
+  | { type: 'check'; puzzle: Puzzle }
+  | { type: 'checkAll'; puzzles: Puzzle[] };
+
+/**
+ * A puzzle from outside after validation: why it was rejected, or the puzzle
+ * solved, rated and marked unique
+ */
+export interface PuzzleCheck {
+  error: string | null;
+  puzzle: Puzzle;
+}
+
+/**
+ * How many puzzles of a batch check are done
+ */
+export interface CheckProgress {
+  done: number;
+  total: number;
+}
+
+export type SolverTaskProgress = GenerationProgress | CheckProgress;
+
+export type SolverTaskResult = Puzzle | SolverResult | PuzzleRating | PuzzleCheck | PuzzleCheck[] | null;
+
+// Messages posted back by the worker
+export type SolverWorkerMessage =
+  | { type: 'progress'; progress: SolverTaskProgress }
+  | { type: 'result'; result: SolverTaskResult }
+  | { type: 'error'; message: string };
+
+/**
+ * Validate a puzzle from outside, solving and rating it if it is sound
+ */
+function checkPuzzle(puzzle: Puzzle): PuzzleCheck {
+  const error = validatePuzzle(puzzle);
+  if (error) {
+    return { error, puzzle };
+  }
+  // Proven unique just above, so uniqueness techniques may rate it
+  const { size, blockRows, blockCols, cells } = puzzle;
+  const rating = ratePuzzle(cells, size, blockRows, blockCols, true, puzzle);
+  const { solution } = solvePuzzle(cells, size, blockRows, blockCols, puzzle);
+  return { error: null, puzzle: { ...puzzle, solution, rating, unique: true } };
+}
+
+/**
+ * Run a task to completion, reporting generation or batch check progress along the way
+ */
+export function runSolverTask(
+  task: SolverTask,
+  onProgress?: (progress: SolverTaskProgress) => void
+): SolverTaskResult {
+  switch (task.type) {
+    case 'generate':
+      if (hasVariantOptions(task.variant)) {
+        return generateVariantPuzzle(task.config, task.difficulty, task.variant, task.symmetry);
+      }
+      // A profile can fail to match in time; a plain difficulty always yields a puzzle
+      return task.profile
+        ? generatePuzzleWithProfile(task.config, task.profile, { symmetry: task.symmetry, onProgress })
+        : generatePuzzleWithDifficulty(task.config, task.difficulty, task.symmetry, 1, { onProgress });
+    case 'solve':
+      return solveWithSteps(
+        task.puzzle.cells,
+        task.puzzle.size,
+        task.puzzle.blockRows,
+        task.puzzle.blockCols,
+        isUniquenessKnown(task.puzzle),
+        [],
+        task.puzzle
+      );
+    case 'rate':
+      return ratePuzzle(
+        task.puzzle.cells,
+        task.puzzle.size,
+        task.puzzle.blockRows,
+        task.puzzle.blockCols,
+        isUniquenessKnown(task.puzzle),
+        task.puzzle
+      );
+    case 'check':
+      return checkPuzzle(task.puzzle);
+    case 'checkAll':
+      return task.puzzles.map((puzzle, i) => {
+        onProgress?.({ done: i, total: task.puzzles.length });
+        return checkPuzzle(puzzle);
+      });
+  }
+}
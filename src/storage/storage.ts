@@ -4,7 +4,7 @@
  */
 
 import { openDB, DBSchema, IDBPDatabase } from 'idb';
-import { GameStats, SavedGame, Theme, Difficulty, Cell, Puzzle } from '../types';
+import { GameStats, SavedGame, Theme, Difficulty, Cell, Puzzle, Symmetry } from '../types';
 
 interface RetroSudokuDB extends DBSchema {
   savedGames: {
@@ -24,6 +24,16 @@ interface RetroSudokuDB extends DBSchema {
     key: string;
     value: DailyPuzzle;
   };
+  puzzlePool: {
+    key: number;
+    value: PooledPuzzle;
+    indexes: { 'by-key': string };
+  };
+  library: {
+    key: string;
+    value: PuzzleCollection;
+    indexes: { 'by-date': number };
+  };
 }
 
 export interface AppSettings {
@@ -49,8 +59,31 @@ export interface DailyPuzzle {
   time?: number;
 }
 
+export interface PooledPuzzle {
+  id?: number;
+  key: string; // `${size}-${difficulty}`
+  puzzle: Puzzle;
+  createdAt: number;
+}
+
+export interface LibraryPuzzle {
+  puzzle: Puzzle;
+  solved: boolean;
+  bestTime?: number;
+}
+
+/**
+ * A named set of puzzles, such as a tournament pack, kept in import order
+ */
+export interface PuzzleCollection {
+  id: string;
+  name: string;
+  createdAt: number;
+  puzzles: LibraryPuzzle[];
+}
+
 const DB_NAME = 'retrosudoku';
-const DB_VERSION = 1;
+const DB_VERSION = 3;
 
 let dbPromise: Promise<IDBPDatabase<RetroSudokuDB>> | null = null;
 
@@ -82,6 +115,18 @@ export async function initDB(): Promise<IDBPDatabase<RetroSudokuDB>> {
       if (!db.objectStoreNames.contains('dailyPuzzles')) {
         db.createObjectStore('dailyPuzzles');
       }
+      
+      // Ready-made puzzles, added in version 2
+      if (!db.objectStoreNames.contains('puzzlePool')) {
+        const poolStore = db.createObjectStore('puzzlePool', { keyPath: 'id', autoIncrement: true });
+        poolStore.createIndex('by-key', 'key');
+      }
+      
+      // Puzzle collections, added in version 3
+      if (!db.objectStoreNames.contains('library')) {
+        const libraryStore = db.createObjectStore('library', { keyPath: 'id' });
+        libraryStore.createIndex('by-date', 'createdAt');
+      }
     },
   });
   
@@ -91,13 +136,14 @@ export async function initDB(): Promise<IDBPDatabase<RetroSudokuDB>> {
 // ============ Saved Games ============
 
 /**
- * Save a game
+ * Save a game, with its undo tree and checkpoints when given
  */
 export async function saveGame(
   puzzle: Puzzle,
   cells: Cell[],
   elapsedTime: number,
-  name?: string
+  name?: string,
+  history?: Pick<SavedGame, 'history' | 'currentNode'>
 ): Promise<string> {
   const db = await initDB();
   const id = `game_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -112,6 +158,8 @@ export async function saveGame(
     elapsedTime,
     savedAt: Date.now(),
     name,
+    history: history?.history,
+    currentNode: history?.currentNode,
   };
   
   await db.put('savedGames', savedGame);
@@ -309,60 +357,186 @@ export async function updateSettings(settings: Partial<AppSettings>): Promise<vo
 // ============ Daily Puzzles ============
 
 /**
- * Get today's date string
+ * Get a local calendar date string (YYYY-MM-DD), today by default
  */
-function getTodayString(): string {
-  return new Date().toISOString().split('T')[0];
+export function getDateString(date: Date = new Date()): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
 }
 
 /**
  * Get daily puzzle
  */
-export async function getDailyPuzzle(): Promise<DailyPuzzle | undefined> {
+export async function getDailyPuzzle(date: string = getDateString()): Promise<DailyPuzzle | undefined> {
   const db = await initDB();
-  const today = getTodayString();
-  return db.get('dailyPuzzles', today);
+  return db.get('dailyPuzzles', date);
 }
 
 /**
  * Save daily puzzle
  */
-export async function saveDailyPuzzle(puzzle: Puzzle): Promise<void> {
+export async function saveDailyPuzzle(puzzle: Puzzle, date: string = getDateString()): Promise<void> {
   const db = await initDB();
-  const today = getTodayString();
   
   await db.put('dailyPuzzles', {
-    date: today,
+    date,
     puzzle,
     completed: false,
-  }, today);
+  }, date);
 }
 
 /**
- * Complete daily puzzle
+ * Complete daily puzzle, keeping the best time on replays
  */
-export async function completeDailyPuzzle(time: number): Promise<void> {
+export async function completeDailyPuzzle(time: number, date: string = getDateString()): Promise<void> {
   const db = await initDB();
-  const today = getTodayString();
-  const daily = await db.get('dailyPuzzles', today);
+  const daily = await db.get('dailyPuzzles', date);
   
   if (daily) {
+    daily.time = daily.completed && daily.time !== undefined ? Math.min(daily.time, time) : time;
     daily.completed = true;
-    daily.time = time;
-    await db.put('dailyPuzzles', daily, today);
+    await db.put('dailyPuzzles', daily, date);
   }
 }
 
 /**
- * Get daily puzzle history
+ * Get daily puzzles from the last `days` calendar days, newest first
  */
 export async function getDailyHistory(days: number = 30): Promise<DailyPuzzle[]> {
   const db = await initDB();
   const puzzles = await db.getAll('dailyPuzzles');
   
+  const earliest = new Date();
+  earliest.setDate(earliest.getDate() - (days - 1));
+  const earliestString = getDateString(earliest);
+  
+  // ISO date strings sort chronologically
   return puzzles
-    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
-    .slice(0, days);
+    .filter(daily => daily.date >= earliestString)
+    .sort((a, b) => b.date.localeCompare(a.date));
+}
+
+// ============ Puzzle Pool ============
+
+/**
+ * Number of ready puzzles kept for each size/difficulty
+ */
+export const PUZZLE_POOL_SIZE = 3;
+
+/**
+ * Pool key for a size/difficulty
+ */
+export function getPoolKey(size: number, difficulty: Difficulty): string {
+  return `${size}-${difficulty}`;
+}
+
+/**
+ * Count the ready puzzles for a size/difficulty
+ */
+export async function countPooledPuzzles(size: number, difficulty: Difficulty): Promise<number> {
+  const db = await initDB();
+  return db.countFromIndex('puzzlePool', 'by-key', getPoolKey(size, difficulty));
+}
+
+/**
+ * Add a generated puzzle to the pool under the difficulty it was rated, which
+ * may not be the one asked for. Returns false, dropping the puzzle, if that
+ * pool is already full.
+ */
+export async function addPooledPuzzle(puzzle: Puzzle): Promise<boolean> {
+  const db = await initDB();
+  const key = getPoolKey(puzzle.size, puzzle.difficulty);
+  const tx = db.transaction('puzzlePool', 'readwrite');
+  
+  const count = await tx.store.index('by-key').count(key);
+  if (count < PUZZLE_POOL_SIZE) {
+    await tx.store.add({ key, puzzle, createdAt: Date.now() });
+  }
+  await tx.done;
+  return count < PUZZLE_POOL_SIZE;
+}
+
+/**
+ * Remove and return the oldest ready puzzle for a size/difficulty/symmetry
+ */
+export async function takePooledPuzzle(
+  size: number,
+  difficulty: Difficulty,
+  symmetry: Symmetry
+): Promise<Puzzle | undefined> {
+  const db = await initDB();
+  const tx = db.transaction('puzzlePool', 'readwrite');
+  let cursor = await tx.store.index('by-key').openCursor(getPoolKey(size, difficulty));
+  
+  while (cursor && cursor.value.puzzle.symmetry !== symmetry) {
+    cursor = await cursor.continue();
+  }
+  
+  const puzzle = cursor?.value.puzzle;
+  if (cursor) {
+    await cursor.delete();
+  }
+  await tx.done;
+  return puzzle;
+}
+
+/**
+ * Empty the puzzle pool
+ */
+export async function clearPuzzlePool(): Promise<void> {
+  const db = await initDB();
+  await db.clear('puzzlePool');
+}
+
+// ============ Library ============
+
+/**
+ * Store a new collection of puzzles, none solved yet
+ */
+export async function saveCollection(name: string, puzzles: Puzzle[]): Promise<string> {
+  const db = await initDB();
+  const id = `collection_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  
+  await db.put('library', {
+    id,
+    name,
+    createdAt: Date.now(),
+    puzzles: puzzles.map(puzzle => ({ puzzle, solved: false })),
+  });
+  return id;
+}
+
+/**
+ * Get all collections, newest first
+ */
+export async function getAllCollections(): Promise<PuzzleCollection[]> {
+  const db = await initDB();
+  const collections = await db.getAllFromIndex('library', 'by-date');
+  return collections.reverse();
+}
+
+/**
+ * Delete a collection
+ */
+export async function deleteCollection(id: string): Promise<void> {
+  const db = await initDB();
+  await db.delete('library', id);
+}
+
+/**
+ * Mark a library puzzle solved, keeping the best time on replays
+ */
+export async function completeLibraryPuzzle(collectionId: string, index: number, time: number): Promise<void> {
+  const db = await initDB();
+  const collection = await db.get('library', collectionId);
+  const entry = collection?.puzzles[index];
+  
+  if (collection && entry) {
+    entry.bestTime = entry.solved && entry.bestTime !== undefined ? Math.min(entry.bestTime, time) : time;
+    entry.solved = true;
+    await db.put('library', collection);
+  }
 }
 
 // ============ Export/Import ============
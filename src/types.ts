@@ -10,7 +10,62 @@ export interface PuzzleConfig {
   blockCols: number;
 }
 
-export interface Puzzle {
+export interface Cage {
+  cells: number[];
+  sum: number;
+}
+
+/**
+ * A rule drawn over the grid that ties a few cells together
+ */
+export type ConstraintOverlay =
+  | { type: 'thermo'; cells: number[] } // Bulb first; digits strictly increase along the path
+  | { type: 'arrow'; cells: number[] } // Circle first; the rest of the path adds up to the circle
+  | { type: 'greater'; cells: [number, number] } // Two adjacent cells; the first holds the larger digit
+  | { type: 'kropki'; cells: [number, number]; color: 'white' | 'black' } // White: consecutive; black: one is double the other
+  | { type: 'xv'; cells: [number, number]; sum: 5 | 10 }; // V: the two cells add up to 5; X: to 10
+
+/**
+ * A clue written in the margin, about the line of cells it points along
+ */
+export interface OutsideClue {
+  type: 'sandwich' | 'littleKiller';
+  cells: number[]; // From the clue inward: a whole row or column, or a diagonal running to the far edge
+  sum: number; // Sandwich: digits between the 1 and the largest digit; Little Killer: the whole diagonal, repeats allowed
+}
+
+export type LayoutName = 'twodoku' | 'butterfly' | 'samurai';
+
+/**
+ * Overlapping grids placed on one larger canvas. Cells are numbered row by row
+ * across the canvas; cells outside every grid are never filled.
+ */
+export interface GridLayout {
+  name: LayoutName;
+  width: number; // Canvas columns
+  height: number; // Canvas rows
+  grids: { row: number; col: number }[]; // Top-left canvas cell of every size×size grid
+}
+
+/**
+ * Rules on top of classic rows, columns and boxes.
+ * Every field is optional, so a classic puzzle is a variant with none set.
+ */
+export interface PuzzleVariant {
+  cages?: Cage[]; // Killer: cells in a cage add up to its sum and never repeat a digit
+  regions?: number[]; // Jigsaw: region (0 to size - 1) of every cell, replacing the rectangular boxes
+  diagonals?: boolean; // X-Sudoku: both main diagonals hold every digit
+  windows?: boolean; // Windoku/Hyper: box-sized windows set one cell in from the boxes hold every digit
+  overlays?: ConstraintOverlay[]; // Thermometers, arrows, greater-than signs, Kropki dots and XV signs
+  kropkiNegative?: boolean; // Every Kropki dot is shown: neighbours without one are neither consecutive nor 1:2
+  antiKnight?: boolean; // Cells a knight's move apart never hold the same digit
+  antiKing?: boolean; // Cells a king's move apart (diagonal neighbours included) never hold the same digit
+  nonConsecutive?: boolean; // Orthogonal neighbours never hold consecutive digits
+  outsideClues?: OutsideClue[]; // Sandwich sums and Little Killer diagonals
+  layout?: GridLayout; // Samurai, Twodoku, Butterfly: `cells` covers the whole canvas instead of one grid
+}
+
+export interface Puzzle extends PuzzleVariant {
   size: number;
   blockRows: number;
   blockCols: number;
@@ -19,6 +74,10 @@ export interface Puzzle {
   symmetry: Symmetry;
   seed?: number;
   solution?: number[];
+  daily?: string; // YYYY-MM-DD of the daily challenge this puzzle belongs to
+  library?: { collection: string; index: number }; // Where in a library collection this puzzle was started from
+  rating?: PuzzleRating;
+  unique?: boolean; // Proven to have one solution, so uniqueness techniques may be used on it
 }
 
 export interface Cell {
@@ -33,8 +92,8 @@ export interface Cell {
 export interface GameState {
   puzzle: Puzzle;
   cells: Cell[];
-  history: HistoryEntry[];
-  historyIndex: number;
+  history: HistoryNode[]; // Undo tree, indexed by node id; node 0 is the starting grid
+  currentNode: number;
   selectedCell: number | null;
   isPencilMode: boolean;
   isComplete: boolean;
@@ -43,7 +102,7 @@ export interface GameState {
   isPaused: boolean;
 }
 
-export interface HistoryEntry {
+export interface CellChange {
   cellIndex: number;
   previousValue: number;
   previousPencilMarks: number[];
@@ -51,6 +110,23 @@ export interface HistoryEntry {
   newPencilMarks: number[];
 }
 
+export interface HistoryEntry {
+  changes: CellChange[]; // Every cell one action touched, undone and redone together
+}
+
+/**
+ * A position in the undo tree. A move made after undoing starts a new branch
+ * instead of dropping the moves that were undone.
+ */
+export interface HistoryNode {
+  id: number;
+  parent: number | null; // Null on the root
+  entry: HistoryEntry | null; // Move from the parent to this position; null on the root
+  children: number[]; // Branches tried from here, oldest first
+  redoChild: number | null; // Branch redo follows: the one last made or undone
+  checkpoint?: string; // Bookmark name, e.g. "before guessing R4C5=7"
+}
+
 export type TechniqueType = 
   | 'Single Candidate'
   | 'Hidden Single'
@@ -59,10 +135,46 @@ export type TechniqueType =
   | 'Naked Triple'
   | 'Hidden Triple'
   | 'X-Wing'
+  | 'Swordfish'
+  | 'Jellyfish'
+  | 'Finned X-Wing'
+  | 'Finned Swordfish'
+  | 'Finned Jellyfish'
+  | 'XY-Wing'
+  | 'XYZ-Wing'
+  | 'W-Wing'
+  | 'Unique Rectangle Type 1'
+  | 'Unique Rectangle Type 2'
+  | 'Unique Rectangle Type 3'
+  | 'Unique Rectangle Type 4'
+  | 'BUG+1'
+  | 'Simple Colouring'
+  | 'X-Chain'
+  | 'X-Cycle'
+  | 'XY-Chain'
+  | 'AIC'
   | 'Pointing Pair'
   | 'Box/Line Reduction'
+  | 'Cage Combination'
+  | 'Innie/Outie'
+  | 'Inequality'
+  | 'Thermometer'
+  | 'Arrow Sum'
+  | 'Kropki Dot'
+  | 'XV Sum'
+  | 'Non-Consecutive'
+  | 'Little Killer'
+  | 'Sandwich Sum'
   | 'Backtracking';
 
+export type ChainLinkType = 'strong' | 'weak';
+
+export interface ChainNode {
+  cell: number;
+  value: number;
+  link?: ChainLinkType; // Link to the next node; on the last node it closes a loop back to the first
+}
+
 export interface SolveStep {
   step: number;
   type: TechniqueType;
@@ -70,6 +182,7 @@ export interface SolveStep {
   values: number[];
   eliminatedCandidates?: { cell: number; values: number[] }[];
   explanation: string;
+  chain?: ChainNode[];
 }
 
 export interface SolverResult {
@@ -78,6 +191,15 @@ export interface SolverResult {
   timeMs: number;
   techniques: SolveStep[];
   difficulty?: Difficulty;
+  rating?: PuzzleRating;
+}
+
+export interface PuzzleRating {
+  score: number; // Hardest step on the Sudoku Explainer scale (1.0 - 10.0)
+  hardestTechnique: TechniqueType;
+  steps: number;
+  bottlenecks: number; // Steps where no single was available
+  difficulty: Difficulty;
 }
 
 export interface HintResult {
@@ -86,6 +208,8 @@ export interface HintResult {
   values: number[];
   explanation: string;
   action: 'place' | 'eliminate';
+  eliminatedCandidates?: { cell: number; values: number[] }[];
+  chain?: ChainNode[];
 }
 
 export interface GameStats {
@@ -105,16 +229,33 @@ export interface SavedGame {
   elapsedTime: number;
   savedAt: number;
   name?: string;
+  history?: HistoryNode[]; // Undo tree with its checkpoints; missing on games saved before it existed
+  currentNode?: number;
 }
 
+// Every size up to 25×25 with boxes of at least 2×2, each with its squarest box;
+// getBoxShapes lists the other shapes a size can take
 export const SUPPORTED_SIZES: PuzzleConfig[] = [
   { size: 4, blockRows: 2, blockCols: 2 },
   { size: 6, blockRows: 2, blockCols: 3 },
+  { size: 8, blockRows: 2, blockCols: 4 },
   { size: 9, blockRows: 3, blockCols: 3 },
+  { size: 10, blockRows: 2, blockCols: 5 },
   { size: 12, blockRows: 3, blockCols: 4 },
+  { size: 14, blockRows: 2, blockCols: 7 },
+  { size: 15, blockRows: 3, blockCols: 5 },
   { size: 16, blockRows: 4, blockCols: 4 },
+  { size: 18, blockRows: 3, blockCols: 6 },
+  { size: 20, blockRows: 4, blockCols: 5 },
+  { size: 21, blockRows: 3, blockCols: 7 },
+  { size: 22, blockRows: 2, blockCols: 11 },
+  { size: 24, blockRows: 4, blockCols: 6 },
+  { size: 25, blockRows: 5, blockCols: 5 },
 ];
 
+// Sizes of the original presets, kept ready in the puzzle pool
+export const CLASSIC_SIZES = [4, 6, 9, 12, 16];
+
 export const DIFFICULTY_SETTINGS: Record<Difficulty, { minGivens: number; maxGivens: number; techniques: TechniqueType[] }> = {
   Easy: { minGivens: 36, maxGivens: 45, techniques: ['Single Candidate', 'Hidden Single'] },
   Medium: { minGivens: 30, maxGivens: 36, techniques: ['Single Candidate', 'Hidden Single', 'Naked Pair'] },
@@ -4,6 +4,7 @@
  */
 
 import { Cell, Puzzle } from '../types';
+import { getPencilColumns, getSymbol } from './symbols';
 
 /**
  * Export puzzle grid to PNG
@@ -52,11 +53,7 @@ export async function exportToPng(
       ctx.textAlign = 'center';
       ctx.textBaseline = 'middle';
       
-      const displayValue = cells[i].value <= 9 
-        ? cells[i].value.toString() 
-        : cells[i].value.toString(16).toUpperCase();
-      
-      ctx.fillText(displayValue, x + cellSize / 2, y + cellSize / 2);
+      ctx.fillText(getSymbol(cells[i].value), x + cellSize / 2, y + cellSize / 2);
     } else if (cells[i].pencilMarks.size > 0) {
       // Draw pencil marks
       ctx.fillStyle = '#999999';
@@ -64,7 +61,7 @@ export async function exportToPng(
       ctx.textAlign = 'center';
       ctx.textBaseline = 'middle';
       
-      const gridDim = size <= 9 ? 3 : 4;
+      const gridDim = getPencilColumns(size);
       const markSize = cellSize / gridDim;
       
       cells[i].pencilMarks.forEach(mark => {
@@ -72,7 +69,7 @@ export async function exportToPng(
         const markCol = (mark - 1) % gridDim;
         const markX = x + markCol * markSize + markSize / 2;
         const markY = y + markRow * markSize + markSize / 2;
-        ctx.fillText(mark.toString(), markX, markY);
+        ctx.fillText(getSymbol(mark), markX, markY);
       });
     }
   }
@@ -94,24 +91,45 @@ export async function exportToPng(
     ctx.stroke();
   }
   
-  // Draw block dividers
+  // Draw block dividers, or the borders between jigsaw regions
   ctx.strokeStyle = '#000000';
   ctx.lineWidth = 3;
   
-  for (let i = 0; i <= size / blockCols; i++) {
-    const pos = padding + i * blockCols * cellSize;
-    ctx.beginPath();
-    ctx.moveTo(pos, padding);
-    ctx.lineTo(pos, padding + gridSize);
-    ctx.stroke();
-  }
-  
-  for (let i = 0; i <= size / blockRows; i++) {
-    const pos = padding + i * blockRows * cellSize;
-    ctx.beginPath();
-    ctx.moveTo(padding, pos);
-    ctx.lineTo(padding + gridSize, pos);
-    ctx.stroke();
+  if (puzzle.regions) {
+    const regions = puzzle.regions;
+    for (let i = 0; i < size * size; i++) {
+      const x = padding + (i % size) * cellSize;
+      const y = padding + Math.floor(i / size) * cellSize;
+      
+      if (i % size < size - 1 && regions[i] !== regions[i + 1]) {
+        ctx.beginPath();
+        ctx.moveTo(x + cellSize, y);
+        ctx.lineTo(x + cellSize, y + cellSize);
+        ctx.stroke();
+      }
+      if (i + size < size * size && regions[i] !== regions[i + size]) {
+        ctx.beginPath();
+        ctx.moveTo(x, y + cellSize);
+        ctx.lineTo(x + cellSize, y + cellSize);
+        ctx.stroke();
+      }
+    }
+  } else {
+    for (let i = 0; i <= size / blockCols; i++) {
+      const pos = padding + i * blockCols * cellSize;
+      ctx.beginPath();
+      ctx.moveTo(pos, padding);
+      ctx.lineTo(pos, padding + gridSize);
+      ctx.stroke();
+    }
+    
+    for (let i = 0; i <= size / blockRows; i++) {
+      const pos = padding + i * blockRows * cellSize;
+      ctx.beginPath();
+      ctx.moveTo(padding, pos);
+      ctx.lineTo(padding + gridSize, pos);
+      ctx.stroke();
+    }
   }
   
   // Border
@@ -140,7 +158,7 @@ export async function copyPuzzleAsText(cells: Cell[], size: number): Promise<voi
   for (let row = 0; row < size; row++) {
     for (let col = 0; col < size; col++) {
       const value = cells[row * size + col].value;
-      text += value === 0 ? '.' : (value <= 9 ? value : String.fromCharCode('A'.charCodeAt(0) + value - 10));
+      text += value === 0 ? '.' : getSymbol(value);
       if (col < size - 1) text += ' ';
     }
     text += '\n';
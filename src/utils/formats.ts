@@ -0,0 +1,320 @@
+/**
+ * Puzzle Text Formats
+ * Reading and writing the plain-text formats other Sudoku programs exchange puzzles in
+ */
+
+import { SUPPORTED_SIZES } from '../types';
+import { getPeers } from '../solver';
+import { getSymbol, parseSymbol } from './symbols';
+
+export type PuzzleFormat = 'line' | 'grid' | 'sdk' | 'ss' | 'pencilmarks' | 'sdm';
+
+export const PUZZLE_FORMATS: { format: PuzzleFormat; label: string; extension: string }[] = [
+  { format: 'line', label: 'One line', extension: 'txt' },
+  { format: 'grid', label: 'Grid text', extension: 'txt' },
+  { format: 'sdk', label: 'SadMan Sudoku (.sdk)', extension: 'sdk' },
+  { format: 'ss', label: 'Simple Sudoku (.ss)', extension: 'ss' },
+  { format: 'pencilmarks', label: 'Pencilmark grid (HoDoKu)', extension: 'txt' },
+  { format: 'sdm', label: 'Collection (.sdm)', extension: 'sdm' },
+];
+
+/**
+ * A puzzle as a text format carries it: the givens, and the candidates of the
+ * empty cells for pencilmark grids
+ */
+export interface TextPuzzle {
+  size: number;
+  blockRows: number;
+  blockCols: number;
+  cells: number[];
+  pencilMarks?: Set<number>[];
+}
+
+/**
+ * Text that does not hold a puzzle in the expected format, and which format that was
+ */
+export class PuzzleFormatError extends Error {
+  readonly format: PuzzleFormat | null;
+
+  constructor(format: PuzzleFormat | null, message: string) {
+    super(message);
+    this.name = 'PuzzleFormatError';
+    this.format = format;
+  }
+}
+
+// Characters that stand for an empty cell
+const EMPTY_CELLS = ['.', '0', '_'];
+
+// Lines made only of box borders, such as "------+-------+------" or ".-----.-----."
+const SEPARATOR_LINE = /^[-+=|:.'*\s]*[-=][-+=|:.'*\s]*$/;
+
+const SIZES = SUPPORTED_SIZES.map(config => config.size);
+
+function getFormatLabel(format: PuzzleFormat): string {
+  return PUZZLE_FORMATS.find(entry => entry.format === format)!.label;
+}
+
+/**
+ * The supported size with this many cells, or null
+ */
+function getSizeForCells(count: number): number | null {
+  return SIZES.find(size => size * size === count) ?? null;
+}
+
+function getCellCounts(): string {
+  const counts = SIZES.map(size => size * size);
+  return `${counts.slice(0, -1).join(', ')} or ${counts[counts.length - 1]}`;
+}
+
+/**
+ * Values of a run of one-character cells, as a puzzle of the size their count gives
+ */
+function readCells(chars: string[], format: PuzzleFormat, where = ''): TextPuzzle {
+  const size = getSizeForCells(chars.length);
+  if (size === null) {
+    throw new PuzzleFormatError(format, `${where}${getFormatLabel(format)} needs ${getCellCounts()} cells, got ${chars.length}`);
+  }
+
+  const cells = chars.map((char, i) => {
+    if (EMPTY_CELLS.includes(char)) return 0;
+    const value = parseSymbol(char, size);
+    if (value === null) {
+      const row = Math.floor(i / size) + 1;
+      throw new PuzzleFormatError(format, `${where}"${char}" in row ${row} is not a digit of a ${size}×${size} grid`);
+    }
+    return value;
+  });
+
+  const { blockRows, blockCols } = SUPPORTED_SIZES.find(config => config.size === size)!;
+  return { size, blockRows, blockCols, cells };
+}
+
+/**
+ * Whether a line holds a whole puzzle: as many cells as some size has, each empty or a digit of it
+ */
+function isWholePuzzle(line: string): boolean {
+  const size = getSizeForCells(line.length);
+  return size !== null && line.split('').every(char => EMPTY_CELLS.includes(char) || parseSymbol(char, size) !== null);
+}
+
+/**
+ * Non-empty lines, trimmed
+ */
+function getLines(text: string): string[] {
+  return text.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+}
+
+/**
+ * Lines of cells, without box borders and the separators inside rows
+ */
+function getRowChars(lines: string[]): string[] {
+  return lines
+    .filter(line => !SEPARATOR_LINE.test(line))
+    .flatMap(line => line.replace(/[|+:\s]/g, '').split(''));
+}
+
+/**
+ * Whitespace-separated cell tokens of a pencilmark grid, without its borders
+ */
+function getPencilmarkTokens(lines: string[]): string[] {
+  return lines
+    .filter(line => !SEPARATOR_LINE.test(line))
+    .flatMap(line => line.split(/[|:\s]+/).filter(token => token.length > 0));
+}
+
+/**
+ * Guess the format of some text, or null if it looks like none of them
+ */
+export function detectPuzzleFormat(text: string): PuzzleFormat | null {
+  const lines = getLines(text);
+  if (lines.length === 0) return null;
+
+  if (lines.some(line => line.startsWith('#') || line.startsWith('['))) return 'sdk';
+
+  // Cells of a pencilmark grid are tokens of several candidates apart from solved cells
+  const tokens = getPencilmarkTokens(lines);
+  const tokenSize = getSizeForCells(tokens.length);
+  if (
+    tokenSize !== null &&
+    tokens.some(token => token.length > 1) &&
+    tokens.every(token => token.length <= tokenSize && /^[1-9A-Z]+$/i.test(token))
+  ) {
+    return 'pencilmarks';
+  }
+
+  if (lines.length === 1) return 'line';
+
+  // A collection is whole puzzles one per line. A square of lines may rather be one grid, as the
+  // rows of a 16×16 grid are as long as a 4×4 puzzle, so there every line must read as a puzzle
+  const lineLength = lines[0].length;
+  if (
+    getSizeForCells(lineLength) !== null &&
+    lines.every(line => line.length === lineLength && !/[|+\s]/.test(line)) &&
+    (lines.length !== lineLength || lines.every(isWholePuzzle))
+  ) {
+    return 'sdm';
+  }
+
+  const rows = lines.filter(line => !SEPARATOR_LINE.test(line));
+  if (rows.every(line => line.includes('|') && !/\s/.test(line))) return 'ss';
+  if (rows.every(line => !/[|+\s]/.test(line)) && rows.length === rows[0].length) return 'sdk';
+  return 'grid';
+}
+
+/**
+ * Read every puzzle in some text: one, or several from a collection.
+ * Without a format, it is detected from the text.
+ */
+export function parsePuzzleText(text: string, format: PuzzleFormat | null = detectPuzzleFormat(text)): TextPuzzle[] {
+  if (format === null) {
+    throw new PuzzleFormatError(null, 'This does not look like a puzzle in any format we know');
+  }
+
+  const lines = getLines(text);
+  switch (format) {
+    case 'line':
+      if (lines.length !== 1) {
+        throw new PuzzleFormatError(format, `A one-line puzzle must fit on one line, got ${lines.length}`);
+      }
+      return [readCells(lines[0].replace(/\s/g, '').split(''), format)];
+
+    case 'sdm':
+      return lines.map((line, i) => readCells(line.replace(/\s/g, '').split(''), format, `Puzzle ${i + 1}: `));
+
+    case 'grid':
+      return [readCells(getRowChars(lines), format)];
+
+    case 'ss':
+      if (lines.some(line => !SEPARATOR_LINE.test(line) && !line.includes('|'))) {
+        throw new PuzzleFormatError(format, 'Rows of a Simple Sudoku file split their boxes with |');
+      }
+      return [readCells(getRowChars(lines), format)];
+
+    case 'sdk': {
+      // Header lines (#A author, #D description...) come first; a saved game's [State] follows the puzzle
+      const state = lines.findIndex(line => /^\[state\]/i.test(line));
+      const rows = (state < 0 ? lines : lines.slice(0, state)).filter(line => !line.startsWith('#') && !line.startsWith('['));
+      if (rows.some(row => row.length !== rows.length)) {
+        throw new PuzzleFormatError(format, `A SadMan .sdk file needs as many rows as cells in a row, got ${rows.length} rows`);
+      }
+      return [readCells(rows.join('').split(''), format)];
+    }
+
+    case 'pencilmarks': {
+      const tokens = getPencilmarkTokens(lines);
+      const size = getSizeForCells(tokens.length);
+      if (size === null) {
+        throw new PuzzleFormatError(format, `A pencilmark grid needs ${getCellCounts()} cells, got ${tokens.length}`);
+      }
+
+      // Solved cells and givens are a single digit, as is a cell down to its last
+      // candidate; anything longer lists candidates
+      const digits = tokens.map((token, i) =>
+        token.split('').map(char => {
+          const value = parseSymbol(char, size);
+          if (value === null) {
+            const row = Math.floor(i / size) + 1;
+            throw new PuzzleFormatError(format, `"${token}" in row ${row} is not a list of digits of a ${size}×${size} grid`);
+          }
+          return value;
+        })
+      );
+      const { blockRows, blockCols } = SUPPORTED_SIZES.find(config => config.size === size)!;
+      return [{
+        size,
+        blockRows,
+        blockCols,
+        cells: digits.map(values => (values.length === 1 ? values[0] : 0)),
+        pencilMarks: digits.map(values => new Set(values.length === 1 ? [] : values)),
+      }];
+    }
+  }
+}
+
+/**
+ * Candidates of a cell for a pencilmark grid: its pencil marks if given,
+ * else every digit its row, column and box leave open
+ */
+function getCellCandidates(puzzle: TextPuzzle, cell: number): number[] {
+  const { size, blockRows, blockCols, cells, pencilMarks } = puzzle;
+  if (pencilMarks && pencilMarks[cell].size > 0) {
+    return [...pencilMarks[cell]].sort((a, b) => a - b);
+  }
+
+  const seen = new Set(getPeers(cell, size, blockRows, blockCols).map(peer => cells[peer]));
+  return Array.from({ length: size }, (_, i) => i + 1).filter(value => !seen.has(value));
+}
+
+/**
+ * Rows of symbols, one string per cell; empty cells become `empty`
+ */
+function getSymbolRows(puzzle: TextPuzzle, empty: string): string[][] {
+  const { size, cells } = puzzle;
+  return Array.from({ length: size }, (_, row) =>
+    cells.slice(row * size, (row + 1) * size).map(value => (value === 0 ? empty : getSymbol(value)))
+  );
+}
+
+/**
+ * Join the cells of a row with a separator between boxes
+ */
+function joinBoxes(cells: string[], blockCols: number, cellGap: string, boxGap: string): string {
+  const boxes: string[] = [];
+  for (let col = 0; col < cells.length; col += blockCols) {
+    boxes.push(cells.slice(col, col + blockCols).join(cellGap));
+  }
+  return boxes.join(boxGap);
+}
+
+/**
+ * Lines of a grid with a separator line between bands of boxes
+ */
+function joinBands(rows: string[], blockRows: number, separator: string): string[] {
+  return rows.flatMap((row, i) => (i > 0 && i % blockRows === 0 ? [separator, row] : [row]));
+}
+
+/**
+ * Write puzzles in a format. Only a collection holds more than one.
+ */
+export function formatPuzzleText(puzzles: TextPuzzle[], format: PuzzleFormat): string {
+  if (format === 'sdm') {
+    return puzzles.map(puzzle => formatPuzzleText([puzzle], 'line')).join('\n') + '\n';
+  }
+  if (puzzles.length !== 1) {
+    throw new PuzzleFormatError(format, `${getFormatLabel(format)} holds one puzzle, not ${puzzles.length}`);
+  }
+
+  const [puzzle] = puzzles;
+  const { size, blockRows, blockCols } = puzzle;
+  switch (format) {
+    case 'line':
+      return getSymbolRows(puzzle, '.').flat().join('');
+
+    case 'sdk':
+      return getSymbolRows(puzzle, '.').map(row => row.join('')).join('\n') + '\n';
+
+    case 'grid': {
+      const rows = getSymbolRows(puzzle, '.').map(row => joinBoxes(row, blockCols, ' ', ' | '));
+      const separator = rows[0].replace(/[^|]/g, '-').replace(/-\|-/g, '-+-');
+      return joinBands(rows, blockRows, separator).join('\n') + '\n';
+    }
+
+    case 'ss': {
+      const rows = getSymbolRows(puzzle, '.').map(row => joinBoxes(row, blockCols, '', '|'));
+      return joinBands(rows, blockRows, '-'.repeat(rows[0].length)).join('\n') + '\n';
+    }
+
+    case 'pencilmarks': {
+      const tokens = getSymbolRows(puzzle, '').map((row, r) =>
+        row.map((symbol, c) => symbol || getCellCandidates(puzzle, r * size + c).map(getSymbol).join(''))
+      );
+
+      // Every column as wide as its longest entry, as HoDoKu lines them up
+      const widths = Array.from({ length: size }, (_, c) => Math.max(...tokens.map(row => row[c].length)));
+      const rows = tokens.map(row => `| ${joinBoxes(row.map((token, c) => token.padEnd(widths[c])), blockCols, '  ', ' | ')} |`);
+      const border = (edge: string, middle: string) => rows[0].replace(/[^|]/g, '-').replace(/\|/g, middle).replace(/^.|.$/g, edge);
+      return [border('.', '.'), ...joinBands(rows, blockRows, border(':', '+')), border("'", "'")].join('\n') + '\n';
+    }
+  }
+}
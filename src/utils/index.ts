@@ -1,3 +1,7 @@
 // Utils barrel export
 export * from './export';
 export * from './sound';
+export * from './puzzlePool';
+export * from './symbols';
+export * from './formats';
+export * from './library';
@@ -0,0 +1,69 @@
+/**
+ * Puzzle Library
+ * Bulk import of puzzle collections and the orders they can be listed in
+ */
+
+import { Puzzle } from '../types';
+import { checkPuzzlesAsync } from '../solver';
+import { LibraryPuzzle, saveCollection } from '../storage';
+import { parsePuzzleText } from './formats';
+
+export type LibrarySort = 'order' | 'easiest' | 'hardest';
+
+export interface LibraryImportOptions {
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface LibraryImportResult {
+  id: string | null; // Null when no puzzle could be kept
+  imported: number;
+  skipped: string[]; // Why each left-out puzzle was rejected
+}
+
+/**
+ * Store every puzzle of a text file as a new collection, solved and rated.
+ * The text must be in a known format; single puzzles that are broken or not
+ * unique are left out and reported.
+ */
+export async function importCollection(
+  name: string,
+  text: string,
+  options: LibraryImportOptions = {}
+): Promise<LibraryImportResult> {
+  const { signal, onProgress } = options;
+  const entries = parsePuzzleText(text);
+  const puzzles: Puzzle[] = [];
+  const skipped: string[] = [];
+
+  // The whole collection is checked on one worker, so it never blocks the page
+  const checks = await checkPuzzlesAsync(
+    entries.map(({ size, blockRows, blockCols, cells }): Puzzle => ({
+      size, blockRows, blockCols, cells, difficulty: 'Custom', symmetry: 'none',
+    })),
+    { signal, onProgress: ({ done, total }) => onProgress?.(done, total) }
+  );
+  for (const [i, check] of checks.entries()) {
+    if (check.error) {
+      skipped.push(`Puzzle ${i + 1}: ${check.error}`);
+      continue;
+    }
+    puzzles.push({ ...check.puzzle, difficulty: check.puzzle.rating!.difficulty });
+  }
+  onProgress?.(entries.length, entries.length);
+
+  const id = puzzles.length > 0 ? await saveCollection(name, puzzles) : null;
+  return { id, imported: puzzles.length, skipped };
+}
+
+/**
+ * Collection indices of puzzles in the order to list them. Ties keep their
+ * collection order, and solves are recorded against the collection index.
+ */
+export function sortLibraryPuzzles(puzzles: LibraryPuzzle[], sort: LibrarySort): number[] {
+  const order = puzzles.map((_, i) => i);
+  if (sort === 'order') return order;
+
+  const score = (i: number) => puzzles[i].puzzle.rating?.score ?? 0;
+  return order.sort((a, b) => (sort === 'easiest' ? score(a) - score(b) : score(b) - score(a)));
+}
@@ -0,0 +1,125 @@
+/**
+ * Puzzle Pool Refill
+ * Keeps a few ready puzzles per size/difficulty, generated while the app is idle
+ */
+
+import { Difficulty, PuzzleConfig, Symmetry, CLASSIC_SIZES, SUPPORTED_SIZES } from '../types';
+import { generatePuzzleAsync } from '../solver';
+import { addPooledPuzzle, countPooledPuzzles, getPoolKey, PUZZLE_POOL_SIZE } from '../storage';
+
+export const POOL_DIFFICULTIES: Difficulty[] = ['Easy', 'Medium', 'Hard', 'Expert'];
+
+// Pooled puzzles use the new game default; other symmetries generate on demand
+export const POOL_SYMMETRY: Symmetry = 'rotational';
+
+// Larger grids take seconds to generate, too long to spend on puzzles that may never be played
+const POOL_CONFIGS = SUPPORTED_SIZES.filter(config => CLASSIC_SIZES.includes(config.size));
+
+// Fallback wait where requestIdleCallback is unavailable
+const IDLE_FALLBACK_MS = 1000;
+
+// Generations in a row that may come out rated otherwise before a refill gives up on a pool
+const MAX_POOL_MISSES = 3;
+
+let refillController: AbortController | null = null;
+
+/**
+ * Whether the pool keeps puzzles of this size and box shape
+ */
+export function isPooledConfig(config: PuzzleConfig): boolean {
+  return POOL_CONFIGS.some(pooled => pooled.size === config.size && pooled.blockRows === config.blockRows);
+}
+
+/**
+ * Resolve once the browser reports idle time
+ */
+function waitForIdle(): Promise<void> {
+  return new Promise(resolve => {
+    if (typeof requestIdleCallback === 'function') {
+      requestIdleCallback(() => resolve());
+    } else {
+      setTimeout(resolve, IDLE_FALLBACK_MS);
+    }
+  });
+}
+
+/**
+ * Find the size/difficulty with the fewest ready puzzles, or null when all are
+ * full or given up on. Ties go to the larger grid, which is slowest to generate on demand.
+ */
+async function findShortfall(skip: Set<string>): Promise<{ config: PuzzleConfig; difficulty: Difficulty } | null> {
+  let best: { config: PuzzleConfig; difficulty: Difficulty } | null = null;
+  let bestCount = PUZZLE_POOL_SIZE;
+  
+  for (const config of [...POOL_CONFIGS].reverse()) {
+    for (const difficulty of POOL_DIFFICULTIES) {
+      if (skip.has(getPoolKey(config.size, difficulty))) continue;
+      const count = await countPooledPuzzles(config.size, difficulty);
+      if (count < bestCount) {
+        best = { config, difficulty };
+        bestCount = count;
+      }
+    }
+  }
+  
+  return best;
+}
+
+/**
+ * Generate puzzles one at a time until every pool is full. A puzzle is pooled
+ * under the difficulty it was rated; a pool whose difficulty keeps missing is
+ * left short until the next refill.
+ */
+async function refillPool(signal: AbortSignal): Promise<void> {
+  const misses = new Map<string, number>();
+  const skip = new Set<string>();
+  
+  while (!signal.aborted) {
+    const shortfall = await findShortfall(skip);
+    if (!shortfall) return;
+  
+    await waitForIdle();
+    if (signal.aborted) return;
+  
+    const puzzle = await generatePuzzleAsync(shortfall.config, shortfall.difficulty, POOL_SYMMETRY, undefined, undefined, { signal });
+    if (puzzle) {
+      await addPooledPuzzle(puzzle);
+    }
+    
+    const key = getPoolKey(shortfall.config.size, shortfall.difficulty);
+    if (puzzle?.difficulty === shortfall.difficulty) {
+      misses.delete(key);
+    } else {
+      misses.set(key, (misses.get(key) ?? 0) + 1);
+      if (misses.get(key)! >= MAX_POOL_MISSES) skip.add(key);
+    }
+  }
+}
+
+/**
+ * Start refilling the pool in the background, unless a refill is already running.
+ * Resolves once this refill stops.
+ */
+export function startPoolRefill(): Promise<void> {
+  if (refillController) return Promise.resolve();
+  
+  const controller = new AbortController();
+  refillController = controller;
+  
+  // Cancellation and storage failures just leave the pool short until the next refill
+  return refillPool(controller.signal)
+    .catch(() => {})
+    .finally(() => {
+      if (refillController === controller) {
+        refillController = null;
+      }
+    });
+}
+
+/**
+ * Stop the background refill, e.g. while a puzzle is generated on demand
+ */
+export function stopPoolRefill(): void {
+  refillController?.abort();
+  refillController = null;
+}
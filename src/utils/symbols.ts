@@ -0,0 +1,34 @@
+/**
+ * Digit Symbols
+ * Grids above 9×9 write 10 and up as letters: A = 10 through P = 25
+ */
+
+const LETTER_OFFSET = 'A'.charCodeAt(0) - 10;
+
+/**
+ * Symbol shown for a value: 1-9 as digits, then A, B, C...
+ */
+export function getSymbol(value: number): string {
+  return value <= 9 ? value.toString() : String.fromCharCode(LETTER_OFFSET + value);
+}
+
+/**
+ * Value typed as a key or pasted as a character, or null if it is not a
+ * symbol of this grid size
+ */
+export function parseSymbol(key: string, size: number): number | null {
+  if (key.length !== 1) return null;
+  
+  const upper = key.toUpperCase();
+  const value = upper >= '1' && upper <= '9'
+    ? Number(upper)
+    : upper >= 'A' && upper <= 'Z' ? upper.charCodeAt(0) - LETTER_OFFSET : null;
+  return value !== null && value <= size ? value : null;
+}
+
+/**
+ * Columns of the pencil-mark grid in a cell: 3 up to 9×9, then enough for a square
+ */
+export function getPencilColumns(size: number): number {
+  return Math.max(3, Math.ceil(Math.sqrt(size)));
+}
@@ -0,0 +1,85 @@
+/**
+ * Unit Tests for the RetroSudoku puzzle pool, on an in-memory IndexedDB
+ */
+
+import 'fake-indexeddb/auto';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Difficulty, Puzzle, PuzzleConfig, CLASSIC_SIZES } from '../src/types';
+import {
+  addPooledPuzzle,
+  clearPuzzlePool,
+  countPooledPuzzles,
+  takePooledPuzzle,
+  PUZZLE_POOL_SIZE,
+} from '../src/storage/storage';
+import { startPoolRefill, POOL_DIFFICULTIES } from '../src/utils/puzzlePool';
+
+// Generation stands in for the worker: it never manages Expert and rates those attempts Hard
+vi.mock('../src/solver', async importOriginal => ({
+  ...(await importOriginal<typeof import('../src/solver')>()),
+  generatePuzzleAsync: vi.fn(async (config: PuzzleConfig, difficulty: Difficulty) =>
+    makePuzzle(config.size, difficulty === 'Expert' ? 'Hard' : difficulty)
+  ),
+}));
+
+function makePuzzle(size: number, difficulty: Difficulty, symmetry: Puzzle['symmetry'] = 'rotational'): Puzzle {
+  const blockRows = size === 6 ? 2 : size === 12 ? 3 : Math.sqrt(size);
+  return {
+    size,
+    blockRows,
+    blockCols: size / blockRows,
+    cells: new Array(size * size).fill(0),
+    difficulty,
+    symmetry,
+  };
+}
+
+// No idle callbacks in Node; the refill would otherwise wait a second per puzzle
+globalThis.requestIdleCallback = ((callback: () => void) => setTimeout(callback, 0)) as typeof requestIdleCallback;
+
+beforeEach(async () => {
+  await clearPuzzlePool();
+});
+
+describe('Puzzle Pool', () => {
+  it('should file a puzzle under the difficulty it was rated', async () => {
+    expect(await addPooledPuzzle(makePuzzle(9, 'Medium'))).toBe(true);
+
+    expect(await countPooledPuzzles(9, 'Medium')).toBe(1);
+    expect(await countPooledPuzzles(9, 'Hard')).toBe(0);
+    expect(await takePooledPuzzle(9, 'Hard', 'rotational')).toBeUndefined();
+    expect((await takePooledPuzzle(9, 'Medium', 'rotational'))?.difficulty).toBe('Medium');
+    expect(await countPooledPuzzles(9, 'Medium')).toBe(0);
+  });
+
+  it('should drop puzzles for a full pool', async () => {
+    for (let i = 0; i < PUZZLE_POOL_SIZE; i++) {
+      expect(await addPooledPuzzle(makePuzzle(4, 'Easy'))).toBe(true);
+    }
+    expect(await addPooledPuzzle(makePuzzle(4, 'Easy'))).toBe(false);
+    expect(await countPooledPuzzles(4, 'Easy')).toBe(PUZZLE_POOL_SIZE);
+  });
+
+  it('should take the oldest puzzle of the asked symmetry', async () => {
+    await addPooledPuzzle({ ...makePuzzle(6, 'Hard', 'none'), seed: 1 });
+    await addPooledPuzzle({ ...makePuzzle(6, 'Hard'), seed: 2 });
+    await addPooledPuzzle({ ...makePuzzle(6, 'Hard'), seed: 3 });
+
+    expect((await takePooledPuzzle(6, 'Hard', 'rotational'))?.seed).toBe(2);
+    expect((await takePooledPuzzle(6, 'Hard', 'none'))?.seed).toBe(1);
+    expect(await takePooledPuzzle(6, 'Hard', 'diagonal')).toBeUndefined();
+  });
+
+  it('should refill every pool with puzzles of its own difficulty', async () => {
+    await startPoolRefill();
+
+    for (const size of CLASSIC_SIZES) {
+      for (const difficulty of POOL_DIFFICULTIES) {
+        // Expert attempts that came out Hard are not passed off as Expert
+        const expected = difficulty === 'Expert' ? 0 : PUZZLE_POOL_SIZE;
+        expect(await countPooledPuzzles(size, difficulty)).toBe(expected);
+      }
+      expect((await takePooledPuzzle(size, 'Hard', 'rotational'))?.difficulty).toBe('Hard');
+    }
+  });
+});
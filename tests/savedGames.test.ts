@@ -0,0 +1,60 @@
+/**
+ * Unit Tests for RetroSudoku saved games, on an in-memory IndexedDB
+ */
+
+import 'fake-indexeddb/auto';
+import { describe, it, expect } from 'vitest';
+import { Puzzle } from '../src/types';
+import { loadGame, saveGame } from '../src/storage/storage';
+import {
+  createGameState,
+  getCheckpoints,
+  getCurrentValues,
+  jumpToNode,
+  restoreSavedGame,
+  setCellValue,
+  setCheckpoint,
+  undo,
+} from '../src/game/gameState';
+
+const PUZZLE: Puzzle = {
+  size: 4,
+  blockRows: 2,
+  blockCols: 2,
+  cells: [
+    1, 0, 0, 0,
+    0, 0, 1, 0,
+    0, 1, 0, 0,
+    0, 0, 0, 1,
+  ],
+  difficulty: 'Easy',
+  symmetry: 'none',
+};
+
+describe('Saved Games', () => {
+  it('should keep the undo tree and its checkpoints', async () => {
+    // Two branches from the second move, the first of them bookmarked
+    let state = createGameState(PUZZLE);
+    state = setCellValue(state, 1, 2);
+    state = setCellValue(state, 2, 3);
+    state = setCheckpoint(state, 'before guessing');
+    state = setCellValue(state, 3, 4);
+    const guessed = state.currentNode;
+    state = undo(state);
+    state = setCellValue(state, 3, 2);
+
+    const id = await saveGame(state.puzzle, state.cells, 1000, 'Branched', state);
+    const saved = await loadGame(id);
+    expect(saved?.name).toBe('Branched');
+
+    const loaded = restoreSavedGame(saved!);
+    expect(getCurrentValues(loaded)).toEqual(getCurrentValues(state));
+    expect(getCheckpoints(loaded).map(node => node.checkpoint)).toEqual(['before guessing']);
+
+    const checkpoint = jumpToNode(loaded, getCheckpoints(loaded)[0].id);
+    expect(getCurrentValues(checkpoint).slice(0, 4)).toEqual([1, 2, 3, 0]);
+
+    const otherBranch = jumpToNode(checkpoint, guessed);
+    expect(getCurrentValues(otherBranch).slice(0, 4)).toEqual([1, 2, 3, 4]);
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Benchmarks for the RetroSudoku human solver
+ * Run with `npx vitest bench`; timings vary by machine, so nothing here asserts them
+ */
+
+import { describe, bench } from 'vitest';
+import { solveWithSteps } from '../src/solver/humanSolver';
+
+function parsePuzzle(str: string): number[] {
+  return str.split('').map(c => (c === '.' ? 0 : parseInt(c)));
+}
+
+// Puzzles the human solver gets stuck on, so its last pass tries every technique
+const STUCK_9x9 = '..5.1..4.8....6....4.8.932....9..8..4..1.8..2..1..4....987.5.6....6....7.7..8.4..';
+
+const STUCK_16x16 = [
+  14, 1, 16, 0, 0, 5, 12, 0, 0, 11, 0, 0, 0, 0, 0, 0,
+  10, 0, 0, 9, 0, 2, 0, 7, 0, 0, 0, 13, 0, 6, 0, 0,
+  5, 8, 0, 6, 0, 4, 0, 10, 0, 0, 0, 0, 13, 0, 16, 0,
+  0, 0, 3, 0, 0, 0, 13, 6, 14, 0, 0, 10, 0, 8, 9, 0,
+  0, 10, 0, 8, 0, 16, 0, 1, 0, 0, 0, 2, 3, 0, 0, 0,
+  12, 16, 0, 4, 0, 9, 10, 0, 0, 0, 0, 3, 0, 0, 0, 13,
+  1, 0, 0, 3, 15, 7, 4, 0, 5, 0, 14, 9, 0, 0, 0, 16,
+  0, 0, 0, 0, 13, 3, 6, 8, 11, 0, 0, 0, 0, 0, 7, 5,
+  13, 3, 0, 0, 0, 0, 0, 14, 1, 2, 4, 8, 0, 0, 0, 0,
+  9, 0, 0, 0, 7, 11, 0, 5, 0, 6, 13, 12, 4, 0, 0, 15,
+  6, 0, 0, 0, 4, 0, 0, 0, 0, 9, 16, 0, 14, 0, 3, 12,
+  0, 0, 0, 12, 6, 0, 0, 0, 15, 0, 5, 0, 9, 0, 2, 0,
+  0, 15, 9, 0, 12, 0, 0, 13, 10, 7, 0, 0, 0, 4, 0, 0,
+  0, 13, 0, 2, 0, 0, 0, 0, 8, 0, 11, 0, 7, 0, 12, 6,
+  0, 0, 1, 0, 2, 0, 0, 0, 12, 0, 3, 0, 10, 0, 0, 9,
+  0, 0, 0, 0, 0, 0, 7, 0, 0, 16, 9, 0, 0, 3, 13, 2,
+];
+
+describe('Human Solver', () => {
+  bench('rate a 9x9 puzzle', () => {
+    solveWithSteps(parsePuzzle(STUCK_9x9), 9, 3, 3, true);
+  });
+
+  bench('rate a 16x16 puzzle', () => {
+    solveWithSteps(STUCK_16x16, 16, 4, 4, true);
+  }, { iterations: 3 });
+});
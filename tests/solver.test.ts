@@ -3,9 +3,47 @@
  */
 
 import { describe, it, expect, bench } from 'vitest';
-import { DLXSolver, solvePuzzle, hasUniqueSolution } from '../src/solver/dlx';
+import { DLXSolver, solvePuzzle, hasUniqueSolution, findSolutions, countSolutions, diffSolutions } from '../src/solver/dlx';
 import { solveWithSteps, getHint } from '../src/solver/humanSolver';
-import { generatePuzzle, getConfigForSize } from '../src/solver/generator';
+import {
+  generatePuzzle,
+  generatePuzzleWithProfile,
+  needsTechnique,
+  generateDailyPuzzle,
+  getConfigForSize,
+  getBoxShapes,
+  encodePuzzle,
+  decodePuzzle,
+  decodeSharedGame,
+  validatePuzzle,
+  isUniquenessKnown,
+  importPuzzleJson,
+} from '../src/solver/generator';
+import { TECHNIQUE_WEIGHTS } from '../src/solver/rating';
+import { generatePuzzleAsync, solveAsync, rateAsync, checkPuzzleAsync, checkPuzzlesAsync, isAbortError } from '../src/solver/asyncSolver';
+import { generateVariantPuzzle } from '../src/solver/variantGenerator';
+import { findRuleViolations, isValidRegionMap, getExtraHouses, getHouses, getPeers } from '../src/solver/variants';
+import { createLayout, getActiveCells } from '../src/solver/layouts';
+import { ShareCodeError, packShareCode } from '../src/solver/shareCode';
+import { SUPPORTED_SIZES } from '../src/types';
+import { detectPuzzleFormat, formatPuzzleText, parsePuzzleText, PuzzleFormatError, PUZZLE_FORMATS } from '../src/utils/formats';
+import { sortLibraryPuzzles } from '../src/utils/library';
+import {
+  createGameState,
+  restoreGameState,
+  setCellValue,
+  setCellValueSmart,
+  fillAllPencilMarks,
+  clearAllPencilMarks,
+  applyHint,
+  undo,
+  redo,
+  canUndo,
+  canRedo,
+  jumpToNode,
+  setCheckpoint,
+  getCheckpoints,
+} from '../src/game/gameState';
 
 // Test puzzles
 const EASY_9x9 = [
@@ -32,6 +70,23 @@ const HARD_9x9 = [
   0, 0, 0, 0, 4, 0, 0, 0, 9,
 ];
 
+// Hard puzzles that need fish, wings or more
+const HARD_STRINGS = [
+  '6.....8.3.4.7.................5.4.7.3..2.....1.6.......2.....5.....8.6......1....',
+  '4.....8.5.3..........7......2.....6.....8.4......1.......6.3.7.5..2.....1.4......',
+  '52...6.........7.13...........4..8..6......5...........418.........3..2...87.....',
+  '48.3............71.2.......7.5....6....2..8.............1.76...3.....4......5....',
+];
+
+function parsePuzzle(str: string): number[] {
+  return str.split('').map(c => (c === '.' ? 0 : parseInt(c)));
+}
+
+// Candidates for a hand-built position: `marks(index)` returns the cell's pencil marks
+function buildMarks(marks: (index: number) => number[]): Set<number>[] {
+  return Array.from({ length: 81 }, (_, i) => new Set(marks(i)));
+}
+
 const SMALL_4x4 = [
   0, 2, 0, 0,
   0, 0, 3, 0,
@@ -103,6 +158,50 @@ describe('DLX Solver', () => {
       }
     }
   });
+  
+  it('should count solutions up to a limit', () => {
+    const empty = new Array(16).fill(0);
+    expect(countSolutions(EASY_9x9, 9, 3, 3)).toBe(1);
+    expect(countSolutions(empty, 4, 2, 2, undefined, 10)).toBe(10);
+    expect(new DLXSolver(4, 2, 2).countSolutions(empty)).toBe(288);
+  });
+  
+  it('should iterate over every solution lazily', () => {
+    const empty = new Array(16).fill(0);
+    const solver = new DLXSolver(4, 2, 2);
+    const seen = new Set<string>();
+    for (const solution of solver.solutions(empty)) {
+      expect(hasUniqueSolution(solution, 4, 2, 2)).toBe(true);
+      seen.add(solution.join(''));
+    }
+    expect(seen.size).toBe(288);
+    
+    // Stopping early leaves the solver ready for the next puzzle
+    const first = solver.solutions(empty).next();
+    expect(first.done).toBe(false);
+    expect(solver.solve([1, 1, ...new Array(14).fill(0)]).solved).toBe(false);
+    expect(solver.countSolutions(SMALL_4x4)).toBe(1);
+  });
+  
+  it('should find every solution of a variant puzzle', () => {
+    const empty = new Array(16).fill(0);
+    const variant = { cages: [{ cells: [0, 1], sum: 3 }] };
+    const solutions = findSolutions(empty, 4, 2, 2, variant, 1000);
+    expect(solutions.length).toBe(48);
+    expect(solutions.every(solution => solution[0] + solution[1] === 3)).toBe(true);
+    expect(countSolutions(empty, 4, 2, 2, variant, 1000)).toBe(48);
+  });
+  
+  it('should report the cells where two solutions differ', () => {
+    const [a, b] = findSolutions(new Array(16).fill(0), 4, 2, 2);
+    const diff = diffSolutions(a, b);
+    expect(diff.length).toBeGreaterThan(0);
+    for (let cell = 0; cell < 16; cell++) {
+      const entry = diff.find(d => d.cell === cell);
+      expect(entry ? entry.values : undefined).toEqual(a[cell] !== b[cell] ? [a[cell], b[cell]] : undefined);
+    }
+    expect(diffSolutions(a, a)).toEqual([]);
+  });
 });
 
 describe('Human Solver', () => {
@@ -126,6 +225,176 @@ describe('Human Solver', () => {
   });
 });
 
+describe('Advanced Techniques', () => {
+  it('should never place or eliminate against the real solution', () => {
+    for (const str of HARD_STRINGS) {
+      const puzzle = parsePuzzle(str);
+      const solution = solvePuzzle(puzzle, 9, 3, 3).solution;
+      const result = solveWithSteps(puzzle, 9, 3, 3);
+      
+      for (const step of result.techniques) {
+        if (step.eliminatedCandidates) {
+          for (const elim of step.eliminatedCandidates) {
+            expect(elim.values).not.toContain(solution[elim.cell]);
+          }
+        } else {
+          expect(solution[step.cells[0]]).toBe(step.values[0]);
+        }
+      }
+    }
+  });
+  
+  it('should find a Swordfish', () => {
+    // 1 is confined to columns 1, 5 and 9 in rows 1, 5 and 9
+    const base: Record<number, number[]> = { 0: [0, 4], 4: [4, 8], 8: [0, 8] };
+    const marks = buildMarks(i => {
+      const row = Math.floor(i / 9);
+      const col = i % 9;
+      const hasOne = base[row] ? base[row].includes(col) : true;
+      return hasOne ? [1, 2, 3, 4, 5, 6, 7, 8, 9] : [2, 3, 4, 5, 6, 7, 8, 9];
+    });
+    
+    const hint = getHint(new Array(81).fill(0), marks, 9, 3, 3, 'Swordfish');
+    expect(hint?.type).toBe('Swordfish');
+    expect(hint?.values).toEqual([1]);
+    expect(hint?.cells.sort((a, b) => a - b)).toEqual([0, 4, 40, 44, 72, 80]);
+  });
+  
+  it('should find a Jellyfish', () => {
+    // 1 is confined to columns 1, 3, 7 and 9 in rows 1, 3, 7 and 9, two per row so no smaller fish forms
+    const base: Record<number, number[]> = { 0: [0, 2], 2: [2, 6], 6: [6, 8], 8: [8, 0] };
+    const marks = buildMarks(i => {
+      const row = Math.floor(i / 9);
+      const col = i % 9;
+      const hasOne = base[row] ? base[row].includes(col) : true;
+      return hasOne ? [1, 2, 3, 4, 5, 6, 7, 8, 9] : [2, 3, 4, 5, 6, 7, 8, 9];
+    });
+    
+    const hint = getHint(new Array(81).fill(0), marks, 9, 3, 3, 'Jellyfish');
+    const eliminated = [1, 3, 4, 5, 7].flatMap(row => [0, 2, 6, 8].map(col => row * 9 + col));
+    expect(hint?.type).toBe('Jellyfish');
+    expect(hint?.cells.sort((a, b) => a - b)).toEqual([0, 2, 20, 24, 60, 62, 72, 80]);
+    expect(hint?.eliminatedCandidates?.map(({ cell }) => cell).sort((a, b) => a - b)).toEqual(eliminated);
+    expect(hint?.eliminatedCandidates?.every(({ values }) => values.length === 1 && values[0] === 1)).toBe(true);
+  });
+  
+  it('should find a Finned X-Wing', () => {
+    // 1 sits in columns 1 and 5 of row 1, and of row 5 with a fin at R5C6
+    const base: Record<number, number[]> = { 0: [0, 4], 4: [0, 4, 5] };
+    const marks = buildMarks(i => {
+      const row = Math.floor(i / 9);
+      const col = i % 9;
+      const hasOne = base[row] ? base[row].includes(col) : true;
+      return hasOne ? [1, 2, 3, 4, 5, 6, 7, 8, 9] : [2, 3, 4, 5, 6, 7, 8, 9];
+    });
+    
+    // Only cells of column 5 that also see the fin lose the 1
+    const hint = getHint(new Array(81).fill(0), marks, 9, 3, 3, 'Finned X-Wing');
+    expect(hint?.type).toBe('Finned X-Wing');
+    expect(hint?.cells).toEqual([0, 4, 36, 40, 41]);
+    expect(hint?.eliminatedCandidates).toEqual([{ cell: 31, values: [1] }, { cell: 49, values: [1] }]);
+    expect(getHint(new Array(81).fill(0), marks, 9, 3, 3, 'X-Wing')).toBeNull();
+  });
+  
+  it('should take the lightest technique that applies', () => {
+    // 1 forms an X-Wing in rows 1 and 5; 2 and 3 are a hidden pair in R9C1 and R9C4
+    const marks = buildMarks(i => {
+      const row = Math.floor(i / 9);
+      const col = i % 9;
+      const hasOne = row !== 0 && row !== 4 || col === 0 || col === 4;
+      const hasPair = row !== 8 || col === 0 || col === 3;
+      return [...(hasOne ? [1] : []), ...(hasPair ? [2, 3] : []), 4, 5, 6, 7, 8, 9];
+    });
+    
+    // X-Wing rates lighter, so it goes first although Hidden Pair also applies
+    expect(TECHNIQUE_WEIGHTS['X-Wing']).toBeLessThan(TECHNIQUE_WEIGHTS['Hidden Pair']);
+    expect(getHint(new Array(81).fill(0), marks)?.type).toBe('X-Wing');
+    expect(getHint(new Array(81).fill(0), marks, 9, 3, 3, 'Hidden Pair')?.type).toBe('Hidden Pair');
+  });
+  
+  it('should find an XY-Wing', () => {
+    // Pivot R1C1 {1, 2}, pincers R1C5 {1, 3} and R5C1 {2, 3}; R5C5 sees both pincers
+    const special: Record<number, number[]> = { 0: [1, 2], 4: [1, 3], 36: [2, 3], 40: [3, 4, 5] };
+    const marks = buildMarks(i => special[i] ?? [4, 5, 6, 7, 8, 9]);
+    
+    const hint = getHint(new Array(81).fill(0), marks, 9, 3, 3, 'XY-Wing');
+    expect(hint?.type).toBe('XY-Wing');
+    expect(hint?.cells).toEqual([0, 4, 36]);
+    expect(hint?.action).toBe('eliminate');
+  });
+
+  it('should find an XYZ-Wing', () => {
+    // Pivot R1C1 {1, 2, 3}, pincers R1C5 {1, 3} and R2C2 {2, 3}; R1C2 and R1C3 see all three
+    const special: Record<number, number[]> = { 0: [1, 2, 3], 4: [1, 3], 10: [2, 3], 1: [3, 4, 5], 2: [3, 4, 5] };
+    const marks = buildMarks(i => special[i] ?? [4, 5, 6, 7, 8, 9]);
+    
+    const hint = getHint(new Array(81).fill(0), marks, 9, 3, 3, 'XYZ-Wing');
+    expect(hint?.type).toBe('XYZ-Wing');
+    expect(hint?.cells).toEqual([0, 4, 10]);
+    expect(hint?.eliminatedCandidates).toEqual([{ cell: 1, values: [3] }, { cell: 2, values: [3] }]);
+  });
+  
+  it('should find a W-Wing', () => {
+    // R1C1 and R5C5 hold {1, 2}; 1 in row 9 only at R9C1 and R9C5 links them
+    const special: Record<number, number[]> = {
+      0: [1, 2], 40: [1, 2], 72: [1, 3, 4], 76: [1, 3, 4], 4: [2, 3, 4], 36: [2, 3, 4],
+    };
+    const marks = buildMarks(i => special[i] ?? [3, 4, 5, 6, 7, 8, 9]);
+    
+    const hint = getHint(new Array(81).fill(0), marks, 9, 3, 3, 'W-Wing');
+    expect(hint?.type).toBe('W-Wing');
+    expect(hint?.cells).toEqual([0, 40, 72, 76]);
+    expect(hint?.values).toEqual([1, 2]);
+    expect(hint?.eliminatedCandidates).toEqual([{ cell: 4, values: [2] }, { cell: 36, values: [2] }]);
+  });
+  
+  it('should find an XY-Chain and return its links', () => {
+    // R1C1 {1, 2} - R1C5 {2, 3} - R5C5 {3, 4} - R5C9 {4, 1}; R1C9 and R5C1 see both ends
+    const special: Record<number, number[]> = {
+      0: [1, 2], 4: [2, 3], 40: [3, 4], 44: [1, 4],
+      8: [1, 5, 6, 7, 8, 9], 36: [1, 5, 6, 7, 8, 9],
+    };
+    const marks = buildMarks(i => special[i] ?? [5, 6, 7, 8, 9]);
+
+    const hint = getHint(new Array(81).fill(0), marks, 9, 3, 3, 'XY-Chain');
+    expect(hint?.type).toBe('XY-Chain');
+    expect(hint?.chain).toHaveLength(8);
+    expect(hint?.chain![0].value).toBe(1);
+    expect(hint?.chain![7].value).toBe(1);
+    expect(hint?.chain!.map(node => node.link)).toEqual([
+      'strong', 'weak', 'strong', 'weak', 'strong', 'weak', 'strong', undefined,
+    ]);
+  });
+
+  it('should only use Unique Rectangles when uniqueness is known', () => {
+    // R1C1, R1C4, R2C1 hold {1, 2}; R2C4 holds {1, 2, 3} and must be 3
+    const special: Record<number, number[]> = { 0: [1, 2], 3: [1, 2], 9: [1, 2], 12: [1, 2, 3] };
+    const marks = buildMarks(i => special[i] ?? [4, 5, 6, 7, 8, 9]);
+    const empty = new Array(81).fill(0);
+
+    const hint = getHint(empty, marks, 9, 3, 3, 'Unique Rectangle Type 1', true);
+    expect(hint?.type).toBe('Unique Rectangle Type 1');
+    expect(hint?.cells).toEqual([0, 3, 9, 12]);
+
+    expect(getHint(empty, marks, 9, 3, 3, 'Unique Rectangle Type 1')).toBeNull();
+  });
+  
+  it('should only trust uniqueness that was proven, not a difficulty label', () => {
+    expect(isUniquenessKnown(generatePuzzle(getConfigForSize(4)!, 'Easy'))).toBe(true);
+    expect(isUniquenessKnown({ size: 9, blockRows: 3, blockCols: 3, cells: EASY_9x9, difficulty: 'Hard', symmetry: 'none' })).toBe(false);
+    
+    // A label from outside claims nothing: two givens leave many solutions
+    const open = [1, 2, ...new Array(14).fill(0)];
+    const imported = importPuzzleJson(JSON.stringify({ size: 4, blockRows: 2, blockCols: 2, cells: open, difficulty: 'Hard' }));
+    expect(imported?.difficulty).toBe('Hard');
+    expect(isUniquenessKnown(imported!)).toBe(false);
+    expect(isUniquenessKnown(importPuzzleJson(JSON.stringify({ size: 9, cells: EASY_9x9, difficulty: 'Custom' }))!)).toBe(true);
+    
+    const shared = decodePuzzle(encodePuzzle({ ...imported!, unique: true }));
+    expect(isUniquenessKnown(shared)).toBe(false);
+  });
+});
+
 describe('Puzzle Generator', () => {
   it('should generate valid 9x9 puzzles', () => {
     const config = getConfigForSize(9)!;
@@ -180,6 +449,731 @@ describe('Puzzle Generator', () => {
     // Same seed should produce same puzzle
     expect(puzzle1.cells).toEqual(puzzle2.cells);
   });
+  
+  it('should generate the same daily puzzle for the same date', () => {
+    const today = generateDailyPuzzle('2024-12-02');
+    const again = generateDailyPuzzle('2024-12-02');
+    const tomorrow = generateDailyPuzzle('2024-12-03');
+    
+    expect(today.daily).toBe('2024-12-02');
+    expect(today.cells).toEqual(again.cells);
+    expect(today.cells).not.toEqual(tomorrow.cells);
+  });
+  
+  it('should offer every box shape of a size, squarest first', () => {
+    const shapes = (size: number) => getBoxShapes(size).map(shape => `${shape.blockRows}x${shape.blockCols}`);
+    
+    expect(shapes(12)).toEqual(['3x4', '4x3', '2x6', '6x2']);
+    expect(shapes(25)).toEqual(['5x5']);
+    expect(shapes(7)).toEqual([]);
+    expect(shapes(36)).toEqual([]);
+    expect(getBoxShapes(24)[0]).toEqual(getConfigForSize(24));
+  });
+  
+  it('should generate puzzles with rectangular boxes', () => {
+    for (const config of [{ size: 8, blockRows: 2, blockCols: 4 }, { size: 10, blockRows: 5, blockCols: 2 }]) {
+      const puzzle = generatePuzzle(config, 'Medium', 'none', 99);
+      
+      expect(hasUniqueSolution(puzzle.cells, config.size, config.blockRows, config.blockCols)).toBe(true);
+      expect(solvePuzzle(puzzle.cells, config.size, config.blockRows, config.blockCols).solution).toEqual(puzzle.solution);
+    }
+  });
+  
+  it('should fill a 25x25 grid', () => {
+    const solution = new DLXSolver(25, 5, 5).fill(Math.random);
+    const digits = Array.from({ length: 25 }, (_, i) => i + 1);
+    
+    for (let i = 0; i < 25; i++) {
+      expect([...solution.slice(i * 25, i * 25 + 25)].sort((a, b) => a - b)).toEqual(digits);
+      expect(solution.filter((_, cell) => cell % 25 === i).sort((a, b) => a - b)).toEqual(digits);
+    }
+    expect(hasUniqueSolution(solution, 25, 5, 5)).toBe(true);
+  });
+});
+
+describe('Puzzle Rating', () => {
+  it('should rate a puzzle by its hardest step', () => {
+    const result = solveWithSteps(EASY_9x9, 9, 3, 3);
+    const hardest = Math.max(...result.techniques.map(step => TECHNIQUE_WEIGHTS[step.type]));
+    
+    expect(result.rating?.score).toBe(hardest);
+    expect(result.rating?.steps).toBe(result.techniques.length);
+    expect(result.difficulty).toBe(result.rating?.difficulty);
+  });
+  
+  it('should rate unsolved puzzles as Backtracking', () => {
+    const result = solveWithSteps(new Array(81).fill(0), 9, 3, 3);
+    
+    expect(result.solved).toBe(false);
+    expect(result.rating?.hardestTechnique).toBe('Backtracking');
+    expect(result.rating?.difficulty).toBe('Expert');
+  });
+  
+  it('should attach a rating to generated puzzles', () => {
+    const puzzle = generatePuzzle(getConfigForSize(9)!, 'Hard', 'rotational', 4242);
+    
+    expect(puzzle.rating).toBeDefined();
+    expect(puzzle.difficulty).toBe(puzzle.rating!.difficulty);
+    expect(puzzle.rating!.bottlenecks).toBeLessThanOrEqual(puzzle.rating!.steps);
+  });
+});
+
+describe('Profile Generation', () => {
+  it('should generate puzzles that need the required technique', () => {
+    const forbid = ['Simple Colouring', 'X-Chain', 'X-Cycle', 'XY-Chain', 'AIC'] as const;
+    const progress: number[] = [];
+    const puzzle = generatePuzzleWithProfile(
+      getConfigForSize(9)!,
+      { require: ['X-Wing'], forbid: [...forbid] },
+      { seed: 2024, timeBudgetMs: 20000, onProgress: p => progress.push(p.givens) }
+    );
+    
+    expect(puzzle).not.toBeNull();
+    expect(hasUniqueSolution(puzzle!.cells, 9, 3, 3)).toBe(true);
+    expect(progress.length).toBeGreaterThan(0);
+    
+    const result = solveWithSteps(puzzle!.cells, 9, 3, 3, true, [...forbid]);
+    const used = result.techniques.map(step => step.type);
+    expect(result.solved).toBe(true);
+    expect(used).toContain('X-Wing');
+    expect(needsTechnique(puzzle!.cells, 9, 3, 3, 'X-Wing', [...forbid])).toBe(true);
+  });
+  
+  it('should not count a technique as needed when simpler ones solve the puzzle', () => {
+    // Singles solve it, so an X-Wing never has to be spotted
+    expect(solveWithSteps(EASY_9x9, 9, 3, 3, true, ['X-Wing']).solved).toBe(true);
+    expect(needsTechnique(EASY_9x9, 9, 3, 3, 'X-Wing')).toBe(false);
+    expect(needsTechnique(EASY_9x9, 9, 3, 3, 'Single Candidate')).toBe(true);
+  });
+  
+  it('should give up when the time budget runs out', () => {
+    const puzzle = generatePuzzleWithProfile(getConfigForSize(9)!, { require: ['AIC'] }, { timeBudgetMs: -1 });
+    expect(puzzle).toBeNull();
+  });
+});
+
+describe('Async Solver', () => {
+  it('should run tasks synchronously when no Worker is available', async () => {
+    const config = getConfigForSize(9)!;
+    const puzzle = await generatePuzzleAsync(config, 'Easy', 'rotational');
+    
+    expect(puzzle).not.toBeNull();
+    expect(puzzle!.solution).toEqual(solvePuzzle(puzzle!.cells, 9, 3, 3).solution);
+    
+    const result = await solveAsync(puzzle!);
+    expect(result.solved).toBe(true);
+    
+    const rating = await rateAsync(puzzle!);
+    expect(rating.score).toBe(puzzle!.rating!.score);
+  });
+  
+  it('should reject with an AbortError when already cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const config = getConfigForSize(9)!;
+    
+    const error = await generatePuzzleAsync(config, 'Easy', 'rotational', undefined, undefined, {
+      signal: controller.signal,
+    }).catch(e => e);
+    
+    expect(isAbortError(error)).toBe(true);
+  });
+  
+  it('should check outside puzzles, marking sound ones unique', async () => {
+    const base = { size: 9, blockRows: 3, blockCols: 3, difficulty: 'Custom' as const, symmetry: 'none' as const };
+    
+    const sound = await checkPuzzleAsync({ ...base, cells: EASY_9x9 });
+    expect(sound.error).toBeNull();
+    expect(sound.puzzle.unique).toBe(true);
+    expect(sound.puzzle.rating).toBeDefined();
+    expect(sound.puzzle.solution?.every(value => value > 0)).toBe(true);
+    
+    const open = await checkPuzzleAsync({ ...base, cells: [1, ...new Array(80).fill(0)] });
+    expect(open.error).toBe('Puzzle does not have a unique solution');
+    expect(open.puzzle.unique).toBeUndefined();
+  });
+  
+  it('should check a batch of puzzles in order, reporting progress', async () => {
+    const base = { size: 9, blockRows: 3, blockCols: 3, difficulty: 'Custom' as const, symmetry: 'none' as const };
+    const progress: number[] = [];
+    
+    const checks = await checkPuzzlesAsync(
+      [{ ...base, cells: EASY_9x9 }, { ...base, cells: [1, ...new Array(80).fill(0)] }, { ...base, cells: HARD_9x9 }],
+      { onProgress: ({ done, total }) => progress.push(done / total) }
+    );
+    
+    expect(checks.map(check => check.error)).toEqual([null, 'Puzzle does not have a unique solution', null]);
+    expect(checks[2].puzzle.solution?.every(value => value > 0)).toBe(true);
+    expect(progress).toEqual([0, 1 / 3, 2 / 3]);
+  });
+});
+
+describe('Puzzle Sharing', () => {
+  it('should round-trip a shared 9x9 puzzle', () => {
+    const config = getConfigForSize(9)!;
+    const puzzle = generatePuzzle(config, 'Medium', 'rotational', 4242);
+    const decoded = decodePuzzle(encodePuzzle(puzzle));
+    
+    expect(decoded).not.toBeNull();
+    expect(decoded!.cells).toEqual(puzzle.cells);
+    expect(validatePuzzle(decoded!)).toBeNull();
+  });
+  
+  it('should round-trip digits above 9 as one character each', () => {
+    const puzzle = generatePuzzle({ size: 10, blockRows: 2, blockCols: 5 }, 'Medium', 'rotational', 77);
+    const decoded = decodePuzzle(encodePuzzle(puzzle));
+    
+    expect(decoded!.cells).toEqual(puzzle.cells);
+    expect(decoded!.blockRows).toBe(2);
+    expect(validatePuzzle(decoded!)).toBeNull();
+  });
+  
+  it('should round-trip every supported size', () => {
+    for (const { size, blockRows, blockCols } of SUPPORTED_SIZES) {
+      let seed = size;
+      const grid = new DLXSolver(size, blockRows, blockCols).fill(() => (seed = (seed * 16807) % 2147483647) / 2147483647);
+      const cells = grid.map((value, i) => (i % 7 === 0 ? 0 : value));
+      const puzzle = { size, blockRows, blockCols, cells, difficulty: 'Hard' as const, symmetry: 'none' as const, seed: Date.now() };
+      const encoded = encodePuzzle(puzzle);
+      const decoded = decodePuzzle(encoded);
+      
+      expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+      expect(decoded.cells).toEqual(cells);
+      expect(decoded.solution).toEqual(grid);
+      expect([decoded.blockRows, decoded.difficulty, decoded.seed]).toEqual([blockRows, 'Hard', puzzle.seed]);
+    }
+  });
+  
+  it('should carry values and pencil marks of a game in progress', () => {
+    const puzzle = generatePuzzle(getConfigForSize(16)!, 'Easy', 'rotational', 99);
+    const empty = puzzle.cells.flatMap((value, i) => (value === 0 ? [i] : []));
+    const values = [...puzzle.cells];
+    values[empty[0]] = puzzle.solution![empty[0]];
+    values[empty[1]] = 16;
+    const pencilMarks = puzzle.cells.map(() => new Set<number>());
+    pencilMarks[empty[2]] = new Set([1, 9, 16]);
+    
+    const { puzzle: decoded, progress } = decodeSharedGame(encodePuzzle(puzzle, { values, pencilMarks }));
+    expect(decoded.cells).toEqual(puzzle.cells);
+    expect(progress!.values).toEqual(values);
+    expect(progress!.pencilMarks).toEqual(pencilMarks);
+    expect(decodeSharedGame(encodePuzzle(puzzle)).progress).toBeUndefined();
+  });
+  
+  it('should still read links in the JSON format', () => {
+    const legacy = btoa(JSON.stringify({ s: 9, br: 3, bc: 3, c: EASY_9x9.join(''), d: 'H', y: 'n' }));
+    const decoded = decodePuzzle(legacy);
+    
+    expect(decoded.cells).toEqual(EASY_9x9);
+    expect(decoded.difficulty).toBe('Hard');
+    expect(() => decodePuzzle(btoa(JSON.stringify({ s: 1000, br: 10, bc: 100, c: '' })))).toThrow(ShareCodeError);
+  });
+  
+  it('should reject corrupt share strings with the reason', () => {
+    const encoded = encodePuzzle(generatePuzzle(getConfigForSize(9)!, 'Medium', 'rotational', 4242));
+    const reason = (code: string) => {
+      try {
+        decodePuzzle(code);
+      } catch (error) {
+        return error instanceof ShareCodeError ? error.reason : 'other';
+      }
+      return 'none';
+    };
+    const flip = (code: string, i: number) => code.slice(0, i) + (code[i] === 'A' ? 'B' : 'A') + code.slice(i + 1);
+    
+    expect(reason('not a puzzle')).toBe('malformed');
+    expect(reason(encoded.slice(0, -6))).toBe('truncated');
+    expect(reason('')).toBe('truncated');
+    expect(reason(flip(encoded, 10))).toBe('checksum');
+    expect(reason(flip(encoded, encoded.length - 1))).toBe('checksum');
+    expect(reason(packShareCode(2, new Uint8Array([1, 2, 3])))).toBe('version');
+    expect(reason(encoded)).toBe('none');
+  });
+  
+  it('should reject puzzles with bad shape or multiple solutions', () => {
+    const base = { size: 9, blockRows: 3, blockCols: 3, difficulty: 'Medium' as const, symmetry: 'none' as const };
+    
+    expect(validatePuzzle({ ...base, cells: EASY_9x9.slice(0, 80) })).not.toBeNull();
+    expect(validatePuzzle({ ...base, blockCols: 4, cells: EASY_9x9 })).not.toBeNull();
+    expect(validatePuzzle({ ...base, cells: new Array(81).fill(0) })).toBe('Puzzle does not have a unique solution');
+    expect(validatePuzzle({ ...base, cells: EASY_9x9 })).toBeNull();
+  });
+});
+
+describe('Puzzle Text Formats', () => {
+  const easy = { size: 9, blockRows: 3, blockCols: 3, cells: EASY_9x9 };
+  
+  it('should write and read back every format, detecting it', () => {
+    for (const { format } of PUZZLE_FORMATS) {
+      const text = formatPuzzleText([easy], format);
+      const [parsed] = parsePuzzleText(text);
+      
+      // A collection of one puzzle is just a line
+      expect(detectPuzzleFormat(text)).toBe(format === 'sdm' ? 'line' : format);
+      expect(parsed.size).toBe(9);
+      if (format === 'pencilmarks') {
+        // A cell down to one candidate reads back as solved
+        expect(parsed.cells.every((value, i) => EASY_9x9[i] === 0 || value === EASY_9x9[i])).toBe(true);
+      } else {
+        expect(parsed.cells).toEqual(EASY_9x9);
+      }
+    }
+  });
+  
+  it('should read grids written by other programs', () => {
+    const sdk = ['#A Somebody', '#D A test puzzle', '[Puzzle]', ...formatPuzzleText([easy], 'sdk').split('\n'), '[State]', '1'.repeat(81)].join('\r\n');
+    const ss = formatPuzzleText([easy], 'ss');
+    const grid = formatPuzzleText([easy], 'grid').replace(/\./g, '0');
+    
+    expect(formatPuzzleText([easy], 'grid').split('\n')[3]).toBe('------+-------+------');
+    expect(formatPuzzleText([easy], 'ss').split('\n')[0]).toBe('53.|.7.|...');
+    expect(parsePuzzleText(sdk)[0].cells).toEqual(EASY_9x9);
+    expect(parsePuzzleText(ss)[0].cells).toEqual(EASY_9x9);
+    expect(parsePuzzleText(grid)[0].cells).toEqual(EASY_9x9);
+    expect(detectPuzzleFormat(grid)).toBe('grid');
+  });
+  
+  it('should carry candidates in pencilmark grids', () => {
+    const text = formatPuzzleText([easy], 'pencilmarks');
+    const [parsed] = parsePuzzleText(text);
+    
+    expect(text.split('\n')[0]).toMatch(/^\.-+\.-+\.-+\.$/);
+    expect(parsed.pencilMarks![2]).toEqual(new Set([1, 2, 4]));
+    expect(parsed.pencilMarks![0].size).toBe(0);
+    
+    const pencilMarks = EASY_9x9.map(() => new Set<number>());
+    pencilMarks[2] = new Set([2, 4]);
+    const [marked] = parsePuzzleText(formatPuzzleText([{ ...easy, pencilMarks }], 'pencilmarks'));
+    expect(marked.pencilMarks![2]).toEqual(new Set([2, 4]));
+  });
+  
+  it('should start an imported pencilmark grid with its candidates noted', () => {
+    const pencilMarks = EASY_9x9.map(() => new Set<number>());
+    pencilMarks[2] = new Set([2, 4]);
+    const [imported] = parsePuzzleText(formatPuzzleText([{ ...easy, pencilMarks }], 'pencilmarks'));
+    const puzzle = { ...imported, difficulty: 'Custom' as const, symmetry: 'none' as const };
+    const state = restoreGameState(puzzle, imported.cells, imported.pencilMarks!);
+    
+    expect(state.cells[2].given).toBe(false);
+    expect(state.cells[2].pencilMarks).toEqual(new Set([2, 4]));
+    expect(state.cells[3].pencilMarks).toEqual(new Set(imported.pencilMarks![3]));
+    expect(state.cells[0].value).toBe(5);
+  });
+  
+  it('should read several puzzles from a collection', () => {
+    const small = { size: 4, blockRows: 2, blockCols: 2, cells: SMALL_4x4 };
+    const text = formatPuzzleText([easy, easy, easy], 'sdm');
+    
+    expect(parsePuzzleText(text).map(puzzle => puzzle.cells)).toEqual([EASY_9x9, EASY_9x9, EASY_9x9]);
+    expect(parsePuzzleText(formatPuzzleText([small, small], 'sdm'), 'sdm')[1].cells).toEqual(SMALL_4x4);
+    expect(() => formatPuzzleText([easy, easy], 'line')).toThrow(PuzzleFormatError);
+  });
+  
+  it('should tell a collection as long as its lines from one grid', () => {
+    const small = { size: 4, blockRows: 2, blockCols: 2, cells: SMALL_4x4 };
+    const nineByNine = formatPuzzleText(Array(81).fill(easy), 'sdm');
+    const fourByFour = formatPuzzleText(Array(16).fill(small), 'sdm');
+    // A solved 16×16 grid, whose rows are each 16 characters like a 4×4 puzzle
+    const solved = Array.from({ length: 256 }, (_, i) => {
+      const row = Math.floor(i / 16);
+      return ((row * 4 + Math.floor(row / 4) + i) % 16) + 1;
+    });
+    const grid = formatPuzzleText([{ size: 16, blockRows: 4, blockCols: 4, cells: solved }], 'sdk');
+    
+    expect(detectPuzzleFormat(nineByNine)).toBe('sdm');
+    expect(parsePuzzleText(nineByNine)).toHaveLength(81);
+    expect(detectPuzzleFormat(fourByFour)).toBe('sdm');
+    expect(parsePuzzleText(fourByFour)[15].cells).toEqual(SMALL_4x4);
+    expect(detectPuzzleFormat(grid)).toBe('sdk');
+    expect(parsePuzzleText(grid)[0].cells).toEqual(solved);
+  });
+  
+  it('should say what is wrong with text in each format', () => {
+    const line = formatPuzzleText([easy], 'line');
+    const message = (text: string, format?: Parameters<typeof parsePuzzleText>[1]) => {
+      try {
+        parsePuzzleText(text, format);
+      } catch (error) {
+        return error instanceof PuzzleFormatError ? error.message : 'other';
+      }
+      return 'none';
+    };
+    
+    expect(message(line.slice(1))).toMatch(/^One line needs .* cells, got 80$/);
+    expect(message(`${line}\n${line.slice(0, 40)}Q${line.slice(41)}`)).toBe('Puzzle 2: "Q" in row 5 is not a digit of a 9×9 grid');
+    expect(message(formatPuzzleText([easy], 'sdk').slice(2), 'sdk')).toMatch(/^A SadMan \.sdk file/);
+    expect(message('53.....\n6..195...', 'ss')).toBe('Rows of a Simple Sudoku file split their boxes with |');
+    expect(message('   ')).toBe('This does not look like a puzzle in any format we know');
+  });
+});
+
+describe('Puzzle Library', () => {
+  it('should sort by rating and keep collection order for ties', () => {
+    const entry = (score?: number) => ({
+      puzzle: {
+        size: 9,
+        blockRows: 3,
+        blockCols: 3,
+        cells: EASY_9x9,
+        difficulty: 'Easy' as const,
+        symmetry: 'none' as const,
+        rating: score === undefined ? undefined : { score, hardestTechnique: 'Hidden Single' as const, steps: 0, bottlenecks: 0, difficulty: 'Easy' as const },
+      },
+      solved: false,
+    });
+    const puzzles = [entry(4.2), entry(1.5), entry(4.2), entry(), entry(2.0)];
+    
+    expect(sortLibraryPuzzles(puzzles, 'order')).toEqual([0, 1, 2, 3, 4]);
+    expect(sortLibraryPuzzles(puzzles, 'easiest')).toEqual([3, 1, 4, 0, 2]);
+    expect(sortLibraryPuzzles(puzzles, 'hardest')).toEqual([0, 2, 4, 1, 3]);
+  });
+});
+
+describe('Game History', () => {
+  const puzzle = { size: 9, blockRows: 3, blockCols: 3, cells: EASY_9x9, difficulty: 'Easy' as const, symmetry: 'none' as const };
+  const marks = (state: ReturnType<typeof createGameState>) => state.cells.map(cell => [...cell.pencilMarks].sort());
+  
+  it('should undo and redo bulk pencil mark changes in one step', () => {
+    const start = createGameState(puzzle);
+    const filled = fillAllPencilMarks(start);
+    expect(filled.history).toHaveLength(2);
+    expect(filled.history[filled.currentNode].entry!.changes).toHaveLength(EASY_9x9.filter(value => value === 0).length);
+    
+    const cleared = clearAllPencilMarks(filled);
+    expect(marks(undo(cleared))).toEqual(marks(filled));
+    expect(marks(undo(undo(cleared)))).toEqual(marks(start));
+    expect(marks(redo(redo(undo(undo(cleared)))))).toEqual(marks(cleared));
+    
+    // Nothing left to clear, so nothing to record
+    expect(clearAllPencilMarks(cleared)).toBe(cleared);
+  });
+  
+  it('should give back the peer marks a smart placement removed', () => {
+    const filled = fillAllPencilMarks(createGameState(puzzle));
+    const placed = setCellValueSmart(filled, 2, 4);
+    expect(placed.cells[2].value).toBe(4);
+    expect(placed.cells[3].pencilMarks.has(4)).toBe(false);
+    
+    const undone = undo(placed);
+    expect(undone.cells[2].value).toBe(0);
+    expect(marks(undone)).toEqual(marks(filled));
+    expect(marks(redo(undone))).toEqual(marks(placed));
+  });
+  
+  it('should apply an elimination hint as one step', () => {
+    const filled = fillAllPencilMarks(createGameState(puzzle));
+    const hint = {
+      type: 'Naked Pair' as const,
+      cells: [2, 3],
+      values: [2, 4],
+      explanation: '',
+      action: 'eliminate' as const,
+      eliminatedCandidates: [{ cell: 2, values: [2] }, { cell: 3, values: [2, 6] }],
+    };
+    const applied = applyHint(filled, hint, false);
+    expect(applied.history[applied.currentNode].entry!.changes.map(change => change.cellIndex)).toEqual([2, 3]);
+    expect(applied.cells[3].pencilMarks.has(6)).toBe(false);
+    expect(marks(undo(applied))).toEqual(marks(filled));
+  });
+  
+  it('should keep undone moves as a branch and jump between checkpoints', () => {
+    const start = createGameState(puzzle);
+    expect(canUndo(start)).toBe(false);
+    
+    const guess = setCheckpoint(setCellValue(start, 2, 1), 'before guessing R1C4');
+    const first = setCellValue(setCellValue(guess, 3, 2), 5, 4);
+    
+    // A new move after undoing forks instead of dropping the undone ones
+    const second = setCellValue(undo(undo(first)), 3, 6);
+    expect(second.history).toHaveLength(5);
+    expect(second.history[guess.currentNode].children).toHaveLength(2);
+    expect(canRedo(second)).toBe(false);
+    
+    // Redo follows the branch last left by undo
+    expect(redo(undo(second)).cells[3].value).toBe(6);
+    
+    const back = jumpToNode(second, getCheckpoints(second)[0].id);
+    expect(back.cells.map(cell => cell.value)).toEqual(guess.cells.map(cell => cell.value));
+    
+    const across = jumpToNode(back, first.currentNode);
+    expect([across.cells[3].value, across.cells[5].value]).toEqual([2, 4]);
+    expect(redo(undo(undo(across))).cells[3].value).toBe(2);
+    expect(jumpToNode(across, second.currentNode).cells.map(cell => cell.value)).toEqual(second.cells.map(cell => cell.value));
+    
+    expect(getCheckpoints(setCheckpoint(back, '  ', guess.currentNode))).toHaveLength(0);
+  });
+});
+
+describe('Killer Sudoku', () => {
+  it('should generate unique killer puzzles the hint engine can solve', () => {
+    const config = getConfigForSize(6)!;
+    const puzzle = generateVariantPuzzle(config, 'Expert', { killer: true }, 'none', 77);
+    const caged = puzzle.cages!.flatMap(cage => cage.cells).sort((a, b) => a - b);
+    
+    expect(caged).toEqual(Array.from({ length: 36 }, (_, i) => i));
+    expect(hasUniqueSolution(puzzle.cells, 6, 2, 3, puzzle)).toBe(true);
+    
+    const result = solveWithSteps(puzzle.cells, 6, 2, 3, true, [], puzzle);
+    expect(result.solved).toBe(true);
+    expect(result.solution).toEqual(puzzle.solution);
+  });
+  
+  it('should flag cages whose digits cannot reach the sum', () => {
+    const variant = { cages: [{ cells: [0, 1], sum: 3 }] };
+    const values = new Array(16).fill(0);
+    
+    values[0] = 1;
+    expect(findRuleViolations(values, 4, variant).size).toBe(0);
+    values[0] = 3;
+    expect(findRuleViolations(values, 4, variant)).toEqual(new Set([0]));
+  });
+  
+  it('should round-trip cages through share strings', () => {
+    const puzzle = generateVariantPuzzle(getConfigForSize(4)!, 'Medium', { killer: true }, 'none', 5);
+    const decoded = decodePuzzle(encodePuzzle(puzzle));
+    
+    expect(decoded!.cages).toEqual(puzzle.cages);
+    expect(validatePuzzle(decoded!)).toBeNull();
+  });
+});
+
+describe('Jigsaw Sudoku', () => {
+  it('should generate unique puzzles on connected regions', () => {
+    const puzzle = generateVariantPuzzle(getConfigForSize(6)!, 'Easy', { jigsaw: true }, 'none', 31);
+    
+    expect(isValidRegionMap(puzzle.regions!, 6)).toBe(true);
+    expect(hasUniqueSolution(puzzle.cells, 6, 2, 3, puzzle)).toBe(true);
+    
+    const result = solveWithSteps(puzzle.cells, 6, 2, 3, true, [], puzzle);
+    expect(result.solved).toBe(true);
+    expect(result.solution).toEqual(puzzle.solution);
+    
+    const decoded = decodePuzzle(encodePuzzle(puzzle));
+    expect(decoded!.regions).toEqual(puzzle.regions);
+  });
+  
+  it('should reject region maps with disconnected or uneven regions', () => {
+    const boxes = [0, 0, 1, 1, 0, 0, 1, 1, 2, 2, 3, 3, 2, 2, 3, 3];
+    
+    expect(isValidRegionMap(boxes, 4)).toBe(true);
+    expect(isValidRegionMap([0, 1, 0, 1, 0, 0, 1, 1, 2, 2, 3, 3, 2, 2, 3, 3], 4)).toBe(false);
+    expect(isValidRegionMap([0, 0, 0, 1, 0, 0, 1, 1, 2, 2, 3, 3, 2, 2, 3, 3], 4)).toBe(false);
+  });
+});
+
+describe('Extra Houses', () => {
+  it('should add two diagonals and four 9x9 windows', () => {
+    const houses = getExtraHouses(9, 3, 3, { diagonals: true, windows: true });
+    
+    expect(houses.map(house => house.name)).toEqual([
+      'the main diagonal', 'the anti-diagonal', 'window 1', 'window 2', 'window 3', 'window 4',
+    ]);
+    expect(houses[2].indices).toEqual([10, 11, 12, 19, 20, 21, 28, 29, 30]);
+  });
+  
+  it('should generate unique X-Sudoku puzzles that DLX and the hint engine agree on', () => {
+    const puzzle = generateVariantPuzzle(getConfigForSize(9)!, 'Medium', { diagonals: true }, 'rotational', 12);
+    const diagonal = Array.from({ length: 9 }, (_, i) => puzzle.solution![i * 10]);
+    
+    expect(new Set(diagonal).size).toBe(9);
+    expect(hasUniqueSolution(puzzle.cells, 9, 3, 3, puzzle)).toBe(true);
+    expect(solvePuzzle(puzzle.cells, 9, 3, 3, puzzle).solution).toEqual(puzzle.solution);
+    
+    const result = solveWithSteps(puzzle.cells, 9, 3, 3, true, [], puzzle);
+    expect(result.solution).toEqual(puzzle.solution);
+  });
+});
+
+describe('Constraint Overlays', () => {
+  it('should generate thermo and arrow puzzles the hint engine can solve', () => {
+    const puzzle = generateVariantPuzzle(getConfigForSize(9)!, 'Easy', { thermo: true, arrows: true }, 'none', 42);
+    
+    expect(puzzle.overlays!.length).toBeGreaterThan(0);
+    expect(findRuleViolations(puzzle.solution!, 9, puzzle).size).toBe(0);
+    expect(hasUniqueSolution(puzzle.cells, 9, 3, 3, puzzle)).toBe(true);
+    
+    const result = solveWithSteps(puzzle.cells, 9, 3, 3, true, [], puzzle);
+    expect(result.solution).toEqual(puzzle.solution);
+    
+    const decoded = decodePuzzle(encodePuzzle(puzzle));
+    expect(decoded!.overlays).toEqual(puzzle.overlays);
+  });
+  
+  it('should flag thermometers, arrows and signs that cannot hold', () => {
+    const variant = {
+      overlays: [
+        { type: 'thermo' as const, cells: [0, 1, 2] },
+        { type: 'arrow' as const, cells: [4, 5, 6] },
+        { type: 'greater' as const, cells: [8, 9] as [number, number] },
+      ],
+    };
+    const values = new Array(81).fill(0);
+    
+    values[1] = 9; // Nothing can follow 9 on a thermometer
+    values[4] = 2; // Two path cells add up to at least 2
+    values[9] = 9; // Nothing is greater than 9
+    expect(findRuleViolations(values, 9, variant)).toEqual(new Set([1, 9]));
+    
+    values[4] = 1;
+    expect(findRuleViolations(values, 9, variant)).toEqual(new Set([1, 4, 9]));
+  });
+});
+
+describe('Kropki and XV', () => {
+  it('should generate dot puzzles that round-trip and the hint engine can solve', () => {
+    const puzzle = generateVariantPuzzle(getConfigForSize(6)!, 'Easy', { kropki: true, xv: true }, 'none', 9);
+    
+    expect(puzzle.kropkiNegative).toBe(true);
+    expect(hasUniqueSolution(puzzle.cells, 6, 2, 3, puzzle)).toBe(true);
+    
+    const result = solveWithSteps(puzzle.cells, 6, 2, 3, true, [], puzzle);
+    expect(result.solution).toEqual(puzzle.solution);
+    
+    const decoded = decodePuzzle(encodePuzzle(puzzle));
+    expect(decoded!.overlays).toEqual(puzzle.overlays);
+    expect(decoded!.kropkiNegative).toBe(true);
+  });
+  
+  it('should enforce dots, XV sums and the negative constraint', () => {
+    const variant = {
+      overlays: [
+        { type: 'kropki' as const, cells: [0, 1] as [number, number], color: 'black' as const },
+        { type: 'xv' as const, cells: [9, 10] as [number, number], sum: 10 as const },
+      ],
+      kropkiNegative: true,
+    };
+    const values = new Array(81).fill(0);
+    
+    values[0] = 4;
+    values[1] = 8;
+    values[9] = 7;
+    values[10] = 3;
+    expect(findRuleViolations(values, 9, variant).size).toBe(0);
+    
+    values[10] = 6; // 7 + 6 is not 10, and they are consecutive without a dot
+    expect(findRuleViolations(values, 9, variant)).toEqual(new Set([9, 10]));
+  });
+});
+
+describe('Anti-Chess Rules', () => {
+  it('should add knight and king moves to the peers', () => {
+    const peers = getPeers(40, 9, 3, 3, { antiKnight: true, antiKing: true });
+    
+    expect(peers).toContain(21); // R3C4, a knight's move up from R5C5
+    expect(peers).toContain(59); // R7C6, a knight's move down
+    expect(peers).toContain(50); // R6C6, a king's move away
+    expect(peers).not.toContain(60); // R7C7 is neither
+    expect(getPeers(40, 9, 3, 3)).not.toContain(59);
+  });
+  
+  it('should generate non-consecutive puzzles that DLX and the hint engine agree on', () => {
+    const puzzle = generateVariantPuzzle(getConfigForSize(9)!, 'Expert', { nonConsecutive: true }, 'none', 4);
+    const solution = puzzle.solution!;
+    
+    expect(findRuleViolations(solution, 9, puzzle).size).toBe(0);
+    expect(Array.from({ length: 8 }, (_, c) => Math.abs(solution[c] - solution[c + 1]))).not.toContain(1);
+    expect(hasUniqueSolution(puzzle.cells, 9, 3, 3, puzzle)).toBe(true);
+    expect(solvePuzzle(puzzle.cells, 9, 3, 3, puzzle).solution).toEqual(solution);
+    
+    const result = solveWithSteps(puzzle.cells, 9, 3, 3, true, [], puzzle);
+    expect(result.solution).toEqual(solution);
+  });
+  
+  it('should fill a non-consecutive grid for any seed', () => {
+    const config = getConfigForSize(9)!;
+    for (let seed = 1; seed <= 30; seed++) {
+      const puzzle = generateVariantPuzzle(config, 'Medium', { nonConsecutive: true }, 'none', seed);
+      expect(puzzle.solution).not.toContain(0);
+      expect(findRuleViolations(puzzle.solution!, 9, puzzle).size).toBe(0);
+    }
+    
+    // A seed whose first fills used to run out of budget at every difficulty
+    expect(() => generateVariantPuzzle(config, 'Easy', { nonConsecutive: true }, 'none', 22)).not.toThrow();
+    expect(() => generateVariantPuzzle(config, 'Hard', { nonConsecutive: true }, 'none', 22)).not.toThrow();
+  }, 60000);
+});
+
+describe('Multi-Grid Layouts', () => {
+  it('should count a shared samurai box once and join both grids through it', () => {
+    const variant = { layout: createLayout('samurai', 9, 3, 3) };
+    
+    expect(variant.layout.width).toBe(21);
+    expect(getActiveCells(9, variant).filter(Boolean)).toHaveLength(369);
+    expect(getHouses(9, 3, 3, variant)).toHaveLength(45 + 45 + 41);
+    
+    // R7C7 sits in the top-left grid's last box and the centre grid's first
+    const peers = getPeers(6 * 21 + 6, 9, 3, 3, variant);
+    expect(peers).toContain(6); // R1C7, its column in the top-left grid
+    expect(peers).toContain(6 * 21 + 14); // R7C15, its row in the centre grid
+    expect(peers).not.toContain(6 * 21 + 15); // R7C16 belongs to the top-right grid only
+  });
+  
+  it('should generate twodoku puzzles that round-trip and the hint engine can solve', () => {
+    const puzzle = generateVariantPuzzle(getConfigForSize(9)!, 'Easy', { layout: 'twodoku' }, 'rotational', 3);
+    const solution = puzzle.solution!;
+    const active = getActiveCells(9, puzzle);
+    
+    expect(solution.every((value, i) => (value !== 0) === active[i])).toBe(true);
+    expect(hasUniqueSolution(puzzle.cells, 9, 3, 3, puzzle)).toBe(true);
+    
+    const decoded = decodePuzzle(encodePuzzle(puzzle))!;
+    expect(decoded.layout).toEqual(puzzle.layout);
+    expect(decoded.solution).toEqual(solution);
+    expect(validatePuzzle(decoded)).toBeNull();
+    
+    const result = solveWithSteps(puzzle.cells, 9, 3, 3, true, [], puzzle);
+    expect(result.solved).toBe(true);
+    expect(result.solution).toEqual(solution);
+  });
+});
+
+describe('Outside Clues', () => {
+  it('should check sandwich and Little Killer sums', () => {
+    const variant = {
+      outsideClues: [
+        { type: 'sandwich' as const, cells: [0, 1, 2, 3], sum: 5 },
+        { type: 'littleKiller' as const, cells: [4, 9, 14], sum: 4 },
+      ],
+    };
+    const values = new Array(16).fill(0);
+    
+    values.splice(0, 4, 1, 2, 3, 4);
+    expect(findRuleViolations(values, 4, variant).size).toBe(0);
+    values.splice(0, 4, 1, 3, 4, 2); // Only the 3 sits between the 1 and the 4
+    expect(findRuleViolations(values, 4, variant)).toEqual(new Set([0, 1, 2, 3]));
+    
+    values.splice(0, 4, 1, 2, 3, 4);
+    values[4] = 2;
+    values[9] = 3; // The diagonal already passes 4
+    expect(findRuleViolations(values, 4, variant)).toEqual(new Set([4, 9]));
+  });
+  
+  it('should generate sandwich and Little Killer puzzles that round-trip and the hint engine can solve', () => {
+    const puzzle = generateVariantPuzzle(getConfigForSize(6)!, 'Easy', { sandwich: true, littleKiller: true }, 'none', 7);
+    
+    expect(puzzle.outsideClues!.some(clue => clue.type === 'sandwich')).toBe(true);
+    expect(puzzle.outsideClues!.some(clue => clue.type === 'littleKiller')).toBe(true);
+    expect(findRuleViolations(puzzle.solution!, 6, puzzle).size).toBe(0);
+    expect(hasUniqueSolution(puzzle.cells, 6, 2, 3, puzzle)).toBe(true);
+    
+    const decoded = decodePuzzle(encodePuzzle(puzzle))!;
+    expect(decoded.outsideClues).toEqual(puzzle.outsideClues);
+    expect(validatePuzzle(decoded)).toBeNull();
+    
+    const result = solveWithSteps(puzzle.cells, 6, 2, 3, true, [], puzzle);
+    expect(result.solution).toEqual(puzzle.solution);
+  });
+  
+  it('should keep Little Killer puzzles solvable step by step', () => {
+    for (let seed = 1; seed <= 5; seed++) {
+      const puzzle = generateVariantPuzzle(getConfigForSize(9)!, 'Easy', { littleKiller: true }, 'none', seed);
+      const result = solveWithSteps(puzzle.cells, 9, 3, 3, true, [], puzzle);
+      
+      expect(puzzle.outsideClues!.every(clue => clue.type === 'littleKiller')).toBe(true);
+      expect(result.solved).toBe(true);
+      expect(puzzle.rating!.hardestTechnique).not.toBe('Backtracking');
+    }
+  }, 30000);
 });
 
 describe('Performance Benchmarks', () => {